@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { logger, generateRequestId, formatError } from '@/lib/logger';
+import { isAdmin } from '@/lib/admin';
+import { addPlayerNews } from '@/lib/player-news';
+import { z } from 'zod';
+
+// Validation schema for a news entry. injuryStatus updates the player too;
+// null clears it and leaving it out keeps the current one.
+const addNewsSchema = z.object({
+  playerId: z.string().uuid(),
+  headline: z.string().trim().min(1).max(200),
+  body: z.string().trim().max(2000).optional(),
+  injuryStatus: z.string().trim().min(1).max(50).nullable().optional(),
+});
+
+/**
+ * POST /api/admin/player-news - Add a news entry to a player's timeline (admins only)
+ *
+ * Body: { playerId, headline, body?, injuryStatus? }
+ */
+export async function POST(request: NextRequest) {
+  const requestId = generateRequestId();
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(session.user)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validation = addNewsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const news = await addPlayerNews({ ...validation.data, createdBy: session.user.id });
+
+    if (!news) {
+      return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+    }
+
+    log.info('Player news added', { userId: session.user.id, playerId: news.playerId, field: news.field });
+
+    return NextResponse.json({ news }, { status: 201 });
+  } catch (error) {
+    log.error('Error adding player news', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to add player news' },
+      { status: 500 }
+    );
+  }
+}
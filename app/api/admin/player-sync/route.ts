@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server';
+import path from 'path';
+import { db } from '@/lib/db';
+import { playerSyncRuns } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { eq } from 'drizzle-orm';
+import { logger, generateRequestId, formatError } from '@/lib/logger';
+import { isAdmin } from '@/lib/admin';
+import {
+  getRecentRuns,
+  getRunChanges,
+  isSyncRunning,
+  readSleeperFixture,
+  syncSleeperPlayers,
+} from '@/lib/sleeper-sync';
+import { z } from 'zod';
+
+// Batches of 500 players written per request, to stay inside the function time limit
+const SYNC_BATCHES_PER_REQUEST = 4;
+
+// Validation schema for starting or continuing a sync
+const startSyncSchema = z.object({
+  sport: z.enum(['NBA', 'NFL']),
+  resume: z.boolean().default(false),
+  runId: z.string().uuid().optional(), // Continue a run returned by an earlier request
+  fixture: z.boolean().default(false), // Bundled fixture instead of the Sleeper API; not in production
+});
+
+// Validation schema for query parameters
+const syncRunsQuerySchema = z.object({
+  sport: z.enum(['NBA', 'NFL']).optional(),
+  runId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * GET /api/admin/player-sync - Recent Sleeper player sync runs (admins only)
+ *
+ * Query params:
+ * - sport: Only runs for NBA or NFL
+ * - runId: One run, with the team, status and injury changes it recorded
+ * - limit: Max runs returned (default: 20, max: 100)
+ */
+export async function GET(request: NextRequest) {
+  const requestId = generateRequestId();
+  const log = {
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(session.user)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = syncRunsQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { sport, runId, limit } = validation.data;
+
+    if (runId) {
+      const [run] = await db.select().from(playerSyncRuns).where(eq(playerSyncRuns.id, runId));
+
+      if (!run) {
+        return NextResponse.json({ error: 'Sync run not found' }, { status: 404 });
+      }
+
+      return NextResponse.json({ run, changes: await getRunChanges(run.id) });
+    }
+
+    return NextResponse.json({ runs: await getRecentRuns(sport, limit) });
+  } catch (error) {
+    log.error('Error fetching player sync runs', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch player sync runs' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/player-sync - Run a Sleeper player sync (admins only)
+ *
+ * Body: { sport: 'NBA' | 'NFL', resume?: boolean, runId?: string, fixture?: boolean }
+ *
+ * Writes a few batches of players and returns the run. Until `done` is
+ * true, post again with the run's id to continue it; the run's changes are
+ * returned once it finishes.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = generateRequestId();
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(session.user)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validation = startSyncSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { sport, resume, runId, fixture } = validation.data;
+
+    if (fixture && process.env.NODE_ENV === 'production') {
+      return NextResponse.json({ error: 'Fixture syncs are not available in production' }, { status: 400 });
+    }
+
+    if (runId) {
+      const [existingRun] = await db.select().from(playerSyncRuns).where(eq(playerSyncRuns.id, runId));
+
+      if (!existingRun || existingRun.sport !== sport) {
+        return NextResponse.json({ error: 'Sync run not found' }, { status: 404 });
+      }
+
+      if (existingRun.status !== 'running') {
+        return NextResponse.json({ error: `Sync run is already ${existingRun.status}` }, { status: 409 });
+      }
+    } else if (await isSyncRunning(sport)) {
+      return NextResponse.json({ error: `A ${sport} player sync is already running` }, { status: 409 });
+    }
+
+    log.info(runId ? 'Continuing player sync' : 'Starting player sync', { userId: session.user.id, sport, resume, runId, fixture });
+
+    const fixturePath = path.join(process.cwd(), 'scripts', 'fixtures', `sleeper-players-${sport.toLowerCase()}.json`);
+    const run = await syncSleeperPlayers(sport, {
+      resume,
+      runId,
+      maxBatches: SYNC_BATCHES_PER_REQUEST,
+      source: fixture ? { name: 'fixture', load: () => readSleeperFixture(fixturePath) } : undefined,
+    });
+
+    const done = run.status !== 'running';
+
+    return NextResponse.json({ run, done, changes: done ? await getRunChanges(run.id) : [] });
+  } catch (error) {
+    log.error('Error running player sync', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to run player sync' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logger, generateRequestId, formatError } from '@/lib/logger';
+import { runExpiredPicks } from '@/lib/draft-bots';
+
+/**
+ * GET /api/cron/draft-clocks - Auto-pick for every draft whose pick clock ran out
+ *
+ * Run on a schedule (see vercel.json) so clocks expire whether or not anyone
+ * is watching the draft. Requires `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = generateRequestId();
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const autoPicks = await runExpiredPicks();
+
+    if (autoPicks > 0) {
+      log.info('Expired pick clocks run', { autoPicks });
+    }
+
+    return NextResponse.json({ autoPicks });
+  } catch (error) {
+    log.error('Error running expired pick clocks', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to run expired pick clocks' },
+      { status: 500 }
+    );
+  }
+}
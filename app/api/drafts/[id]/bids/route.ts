@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { auctionNominations, auctionBids } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { eq, and, lt } from 'drizzle-orm';
+import { logger, generateRequestId, formatError } from '@/lib/logger';
+import { getAuctionState, validateBid } from '@/lib/draft-auction';
+import { canActForTeam, getDraftAccess } from '@/lib/draft-access';
+import { z } from 'zod';
+
+// Validation schema for placing a bid
+const placeBidSchema = z.object({
+  teamNumber: z.number().int().min(1).max(20),
+  amount: z.number().int().min(0),
+});
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/drafts/[id]/bids - Bid on the open nomination in an auction draft
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    // Verify draft access, type and status
+    const access = await getDraftAccess(draftId, userId);
+
+    if (!access) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    const { draft } = access;
+
+    if (draft.draftType !== 'auction') {
+      return NextResponse.json({ error: 'Bids are only used in auction drafts' }, { status: 400 });
+    }
+
+    if (draft.status === 'completed') {
+      return NextResponse.json({ error: 'Draft is already completed' }, { status: 400 });
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = placeBidSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const bidData = validationResult.data;
+
+    if (!canActForTeam(access, bidData.teamNumber)) {
+      return NextResponse.json({ error: 'You can only bid for your own team' }, { status: 403 });
+    }
+    const auction = await getAuctionState(draft);
+    const nomination = auction.openNomination;
+
+    if (!nomination) {
+      return NextResponse.json({ error: 'No player is up for bidding' }, { status: 400 });
+    }
+
+    if (nomination.highBidder === bidData.teamNumber) {
+      return NextResponse.json({ error: 'Team already holds the high bid' }, { status: 400 });
+    }
+
+    const team = auction.teams.find(t => t.teamNumber === bidData.teamNumber);
+    const bidError = validateBid(auction.rules, team, bidData.amount, nomination.currentBid);
+
+    if (bidError) {
+      return NextResponse.json({ error: bidError }, { status: 400 });
+    }
+
+    // Only raise the bid if nobody outbid us in the meantime
+    const [updatedNomination] = await db
+      .update(auctionNominations)
+      .set({ currentBid: bidData.amount, highBidder: bidData.teamNumber })
+      .where(and(
+        eq(auctionNominations.id, nomination.id),
+        eq(auctionNominations.status, 'open'),
+        lt(auctionNominations.currentBid, bidData.amount)
+      ))
+      .returning();
+
+    if (!updatedNomination) {
+      return NextResponse.json({ error: 'Bid was outbid or bidding has closed' }, { status: 409 });
+    }
+
+    const [bid] = await db
+      .insert(auctionBids)
+      .values({
+        nominationId: nomination.id,
+        teamNumber: bidData.teamNumber,
+        amount: bidData.amount,
+      })
+      .returning();
+
+    log.info('Bid placed', {
+      draftId,
+      userId,
+      nominationId: nomination.id,
+      teamNumber: bidData.teamNumber,
+      amount: bidData.amount,
+    });
+
+    return NextResponse.json({ bid, nomination: updatedNomination }, { status: 201 });
+  } catch (error) {
+    log.error('Error placing bid', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to place bid' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { draftPicks, players } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { eq } from 'drizzle-orm';
+import { logger, generateRequestId, formatError } from '@/lib/logger';
+import { getDraftAccess } from '@/lib/draft-access';
+import {
+  computeCategoryRankings,
+  getCategoryProfile,
+  getCategoryWeaknesses,
+  getLeagueCategories,
+  getPuntError,
+} from '@/lib/categories';
+import { z } from 'zod';
+
+// Validation schema for query parameters
+const categoryRankingsQuerySchema = z.object({
+  punt: z.string().optional()
+    .transform(value => value ? value.split(',').map(name => name.trim().toUpperCase()).filter(Boolean) : []),
+  available: z.enum(['true', 'false']).default('false'),
+  limit: z.coerce.number().int().min(1).max(500).default(200),
+});
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/drafts/[id]/category-rankings - Category z-scores for a category league
+ *
+ * Query params:
+ * - punt: Comma-separated categories to leave out of the totals (e.g. FT%,TO)
+ * - available: true to leave out players already picked
+ * - limit: Max players returned (default: 200, max: 500)
+ *
+ * Also returns the requesting account's team profile: its z-scores summed
+ * per category and its weakest categories.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = categoryRankingsQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { punt, available, limit } = validation.data;
+
+    const access = await getDraftAccess(draftId, userId);
+
+    if (!access) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    const { draft } = access;
+
+    if (draft.scoringType !== 'categories' || getLeagueCategories(draft.sport).length === 0) {
+      return NextResponse.json(
+        { error: 'Category rankings are only available for NBA and MLB category leagues' },
+        { status: 400 }
+      );
+    }
+
+    const puntError = getPuntError(draft.sport, punt);
+    if (puntError) {
+      return NextResponse.json({ error: puntError }, { status: 400 });
+    }
+
+    log.info('Computing category rankings', { draftId, userId, punt, available });
+
+    const [pool, picks] = await Promise.all([
+      db.select().from(players).where(eq(players.sport, draft.sport)),
+      db
+        .select({ playerId: draftPicks.playerId, teamNumber: draftPicks.teamNumber })
+        .from(draftPicks)
+        .where(eq(draftPicks.draftId, draftId)),
+    ]);
+    const draftedIds = new Set(picks.map(pick => pick.playerId));
+    const teamRoster = picks
+      .filter(pick => access.teamNumber !== null && pick.teamNumber === access.teamNumber)
+      .map(pick => ({ id: pick.playerId }));
+
+    const rankings = computeCategoryRankings(draft, pool, punt);
+    const profile = getCategoryProfile(teamRoster, rankings);
+
+    return NextResponse.json({
+      categories: rankings.categories,
+      punted: rankings.punted,
+      team: access.teamNumber === null ? null : {
+        teamNumber: access.teamNumber,
+        profile,
+        weaknesses: teamRoster.length > 0 ? getCategoryWeaknesses(profile, punt).slice(0, 3) : [],
+      },
+      rankings: rankings.players
+        .filter(ranking => available === 'false' || !draftedIds.has(ranking.player.id))
+        .slice(0, limit)
+        .map(ranking => ({ ...ranking, drafted: draftedIds.has(ranking.player.id) })),
+    });
+  } catch (error) {
+    log.error('Error computing category rankings', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to compute category rankings' },
+      { status: 500 }
+    );
+  }
+}
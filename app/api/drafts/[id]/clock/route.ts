@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { drafts } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { eq } from 'drizzle-orm';
+import { logger, generateRequestId, formatError } from '@/lib/logger';
+import { getDraftAccess } from '@/lib/draft-access';
+import { getClockState, getPickTimeSeconds, pausePickClock, resumePickClock } from '@/lib/draft-clock';
+import { getOnTheClock } from '@/lib/draft-picks';
+import { publishBoardChange } from '@/lib/draft-events';
+import { z } from 'zod';
+
+// Validation schema for controlling the pick clock
+const clockActionSchema = z.object({
+  action: z.enum(['pause', 'resume']), // Resuming a stopped clock starts it
+});
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/drafts/[id]/clock - Pause or resume the pick clock (commissioner only)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    const access = await getDraftAccess(draftId, userId);
+
+    if (!access) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    const { draft } = access;
+
+    if (access.role !== 'commissioner') {
+      return NextResponse.json({ error: 'Only the commissioner can control the clock' }, { status: 403 });
+    }
+
+    if (getPickTimeSeconds(draft) === null) {
+      return NextResponse.json({ error: 'Draft has no pick clock' }, { status: 400 });
+    }
+
+    if (draft.status === 'completed' || draft.status === 'abandoned') {
+      return NextResponse.json({ error: 'Draft is no longer active' }, { status: 400 });
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = clockActionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { action } = validationResult.data;
+    const clock = getClockState(draft);
+
+    if (action === 'pause' && !clock.running) {
+      return NextResponse.json({ error: 'Clock is not running' }, { status: 400 });
+    }
+
+    if (action === 'resume' && clock.running) {
+      return NextResponse.json({ error: 'Clock is already running' }, { status: 400 });
+    }
+
+    const onTheClock = await getOnTheClock(draft);
+    if (!onTheClock) {
+      return NextResponse.json({ error: 'No pick is on the clock' }, { status: 400 });
+    }
+
+    log.info('Updating pick clock', { draftId, userId, action, remainingSeconds: clock.remainingSeconds });
+
+    const [updatedDraft] = await db
+      .update(drafts)
+      .set(action === 'pause' ? pausePickClock(draft) : resumePickClock(draft))
+      .where(eq(drafts.id, draftId))
+      .returning();
+
+    await publishBoardChange(updatedDraft, onTheClock, draft.status);
+
+    return NextResponse.json({ clock: getClockState(updatedDraft) });
+  } catch (error) {
+    log.error('Error updating pick clock', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to update pick clock' },
+      { status: 500 }
+    );
+  }
+}
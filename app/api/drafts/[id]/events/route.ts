@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { logger, generateRequestId, formatError } from '@/lib/logger';
+import { createSSEMessage } from '@/lib/analyze-common';
+import { getDraftEventsSince, getLatestDraftEventId, isPrivateToOtherUser } from '@/lib/draft-events';
+import { getDraftAccess } from '@/lib/draft-access';
+import { SSE_HEARTBEAT_INTERVAL, SSE_MAX_DURATION } from '@/config/constants';
+
+export const runtime = 'nodejs'; // Use Node.js runtime for streaming
+export const maxDuration = 300; // 5 minutes
+
+// How often the stream checks the event log for new board changes
+const POLL_INTERVAL = 1000;
+// Close a little before the platform limit so the client reconnects cleanly
+const STREAM_DURATION = (SSE_MAX_DURATION - 10) * 1000;
+// Delay the browser waits before reconnecting
+const RECONNECT_DELAY = 3000;
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/drafts/[id]/events - Stream board changes as Server-Sent Events
+ *
+ * Resumes after the `Last-Event-ID` header (or `lastEventId` query param)
+ * when given; otherwise only streams events from now on.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    const lastEventIdParam = request.headers.get('last-event-id')
+      ?? new URL(request.url).searchParams.get('lastEventId');
+    const resumeFrom = lastEventIdParam ? parseInt(lastEventIdParam, 10) : null;
+
+    if (resumeFrom !== null && (!Number.isInteger(resumeFrom) || resumeFrom < 0)) {
+      return NextResponse.json({ error: 'Invalid Last-Event-ID' }, { status: 400 });
+    }
+
+    // Verify the user owns or participates in the draft
+    const access = await getDraftAccess(draftId, userId);
+
+    if (!access) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    let lastEventId = resumeFrom ?? await getLatestDraftEventId(draftId);
+
+    log.info('Draft event stream opened', { draftId, userId, lastEventId, resumed: resumeFrom !== null });
+
+    // Create a TransformStream for SSE
+    const encoder = new TextEncoder();
+    const stream = new TransformStream();
+    const writer = stream.writable.getWriter();
+
+    // Tail the event log until the client disconnects or the stream times out
+    (async () => {
+      const startedAt = Date.now();
+      let lastWriteAt = startedAt;
+
+      try {
+        await writer.write(encoder.encode(`retry: ${RECONNECT_DELAY}\n\n`));
+
+        while (!request.signal.aborted && Date.now() - startedAt < STREAM_DURATION) {
+          const events = await getDraftEventsSince(draftId, lastEventId);
+
+          for (const event of events) {
+            // Queue alerts are private to the account queueing the player
+            if (!isPrivateToOtherUser(event, userId)) {
+              await writer.write(encoder.encode(createSSEMessage(event, event.id)));
+              lastWriteAt = Date.now();
+            }
+            lastEventId = event.id;
+          }
+
+          // Comment lines keep proxies from closing an idle connection
+          if (Date.now() - lastWriteAt >= SSE_HEARTBEAT_INTERVAL) {
+            await writer.write(encoder.encode(': heartbeat\n\n'));
+            lastWriteAt = Date.now();
+          }
+
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+        }
+      } catch (error) {
+        // Writes fail once the client has gone away
+        if (!request.signal.aborted) {
+          log.error('Error streaming draft events', formatError(error));
+        }
+      } finally {
+        await writer.close().catch(() => {});
+        log.info('Draft event stream closed', { draftId, lastEventId });
+      }
+    })();
+
+    return new Response(stream.readable, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error) {
+    log.error('Error opening draft event stream', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to open draft event stream' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,249 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { draftInvites } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { eq, and, desc } from 'drizzle-orm';
+import { logger, generateRequestId, formatError } from '@/lib/logger';
+import { sendEmail } from '@/lib/email';
+import { isMockDraft } from '@/lib/draft-bots';
+import { INVITE_TTL_DAYS, createInviteToken, getDraftAccess, getInviteUrl } from '@/lib/draft-access';
+import { z } from 'zod';
+
+// Validation schema for inviting someone to a draft. Without an email the
+// invite is an open link the commissioner shares themselves.
+const createInviteSchema = z.object({
+  email: z.string().email().optional(),
+});
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/drafts/[id]/invites - List a draft's invites (commissioner only)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    const access = await getDraftAccess(draftId, userId);
+
+    if (!access) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    if (access.role !== 'commissioner') {
+      return NextResponse.json({ error: 'Only the commissioner can manage invites' }, { status: 403 });
+    }
+
+    log.info('Fetching draft invites', { draftId, userId });
+
+    const invites = await db
+      .select()
+      .from(draftInvites)
+      .where(eq(draftInvites.draftId, draftId))
+      .orderBy(desc(draftInvites.createdAt));
+
+    return NextResponse.json({
+      invites: invites.map(invite => ({ ...invite, url: getInviteUrl(invite) })),
+    });
+  } catch (error) {
+    log.error('Error fetching draft invites', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch draft invites' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/drafts/[id]/invites - Create an invite link, emailing it when an address is given
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+    warn: (msg: string, data?: Record<string, unknown>) => logger.warn(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    const access = await getDraftAccess(draftId, userId);
+
+    if (!access) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    const { draft } = access;
+
+    if (access.role !== 'commissioner') {
+      return NextResponse.json({ error: 'Only the commissioner can manage invites' }, { status: 403 });
+    }
+
+    if (isMockDraft(draft)) {
+      return NextResponse.json({ error: 'Mock drafts are played against CPU teams' }, { status: 400 });
+    }
+
+    if (draft.status === 'completed' || draft.status === 'abandoned') {
+      return NextResponse.json({ error: 'Draft is no longer active' }, { status: 400 });
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = createInviteSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { email } = validationResult.data;
+
+    const [invite] = await db
+      .insert(draftInvites)
+      .values({
+        draftId,
+        token: createInviteToken(),
+        email: email?.toLowerCase() ?? null,
+        invitedBy: userId,
+        expiresAt: new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000),
+      })
+      .returning();
+
+    const url = getInviteUrl(invite);
+    log.info('Draft invite created', { draftId, userId, inviteId: invite.id, emailed: !!email });
+
+    if (email) {
+      const leagueName = draft.leagueName || `${draft.sport} ${draft.draftType} draft`;
+
+      try {
+        await sendEmail({
+          to: email,
+          subject: `You're invited to draft in ${leagueName} - FantasyBlock`,
+          html: `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+              <h2 style="color: #333;">Join ${leagueName}</h2>
+              <p style="color: #666; line-height: 1.6;">
+                ${session.user.name || 'Your commissioner'} invited you to draft a team in a
+                ${draft.numTeams}-team ${draft.sport} ${draft.draftType} draft. Click the button below to join and claim your team.
+              </p>
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${url}" style="background-color: #f97316; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">
+                  Join Draft
+                </a>
+              </div>
+              <p style="color: #999; font-size: 14px;">
+                This invite will expire in ${INVITE_TTL_DAYS} days.
+              </p>
+            </div>
+          `
+        });
+      } catch (error) {
+        // The link still works; the commissioner can share it another way
+        log.warn('Failed to email draft invite', { draftId, inviteId: invite.id, ...formatError(error) });
+        return NextResponse.json({ invite: { ...invite, url }, emailSent: false }, { status: 201 });
+      }
+    }
+
+    return NextResponse.json({ invite: { ...invite, url }, emailSent: !!email }, { status: 201 });
+  } catch (error) {
+    log.error('Error creating draft invite', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to create draft invite' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/drafts/[id]/invites?inviteId=... - Revoke an invite
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    const inviteId = new URL(request.url).searchParams.get('inviteId');
+    if (!inviteId || !z.string().uuid().safeParse(inviteId).success) {
+      return NextResponse.json({ error: 'Invalid invite ID' }, { status: 400 });
+    }
+
+    const access = await getDraftAccess(draftId, userId);
+
+    if (!access) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    if (access.role !== 'commissioner') {
+      return NextResponse.json({ error: 'Only the commissioner can manage invites' }, { status: 403 });
+    }
+
+    const [revoked] = await db
+      .delete(draftInvites)
+      .where(and(eq(draftInvites.draftId, draftId), eq(draftInvites.id, inviteId)))
+      .returning();
+
+    if (!revoked) {
+      return NextResponse.json({ error: 'Invite not found' }, { status: 404 });
+    }
+
+    log.info('Draft invite revoked', { draftId, userId, inviteId });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error('Error revoking draft invite', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to revoke draft invite' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,338 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, isUniqueViolation } from '@/lib/db';
+import { draftPicks, players } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { eq, and } from 'drizzle-orm';
+import { logger, generateRequestId, formatError } from '@/lib/logger';
+import { getDraftAccess } from '@/lib/draft-access';
+import { getNextOpenSlot, getTeamSlotsInRound, type PickSlot } from '@/lib/draft-order';
+import { getPickOwners, syncCurrentPick } from '@/lib/draft-picks';
+import { getTeamBudgets } from '@/lib/draft-auction';
+import { z } from 'zod';
+
+// Validation schema for adding a keeper
+const addKeeperSchema = z.object({
+  playerId: z.string().uuid(),
+  teamNumber: z.number().int().min(1).max(20),
+  round: z.number().int().min(1).optional(), // Snake/linear: the round whose pick the keeper costs
+  price: z.number().int().min(0).optional(), // Auction: the keeper's salary
+});
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/drafts/[id]/keepers - List keepers attached to a draft
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    // Verify draft access
+    const access = await getDraftAccess(draftId, userId);
+
+    if (!access) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    log.info('Fetching keepers', { draftId, userId });
+
+    const keepers = await db
+      .select({
+        pick: draftPicks,
+        player: players,
+      })
+      .from(draftPicks)
+      .leftJoin(players, eq(draftPicks.playerId, players.id))
+      .where(and(eq(draftPicks.draftId, draftId), eq(draftPicks.isKeeper, true)))
+      .orderBy(draftPicks.pickNumber);
+
+    return NextResponse.json({
+      keepers: keepers.map(({ pick, player }) => ({
+        ...pick,
+        player: player ? {
+          id: player.id,
+          fullName: player.fullName,
+          team: player.team,
+          position: player.position,
+          positions: player.positions,
+        } : null,
+      })),
+    });
+  } catch (error) {
+    log.error('Error fetching keepers', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch keepers' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/drafts/[id]/keepers - Attach a keeper before the draft starts
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    // Verify draft access and status
+    const access = await getDraftAccess(draftId, userId);
+
+    if (!access) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    const { draft } = access;
+
+    if (access.role !== 'commissioner') {
+      return NextResponse.json({ error: 'Only the commissioner can manage keepers' }, { status: 403 });
+    }
+
+    if (draft.status !== 'setup') {
+      return NextResponse.json({ error: 'Keepers can only be set before the draft starts' }, { status: 400 });
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = addKeeperSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const keeperData = validationResult.data;
+
+    if (keeperData.teamNumber > draft.numTeams) {
+      return NextResponse.json({ error: 'Team number cannot exceed number of teams' }, { status: 400 });
+    }
+
+    // Verify player exists and is not already on a roster
+    const [player] = await db
+      .select()
+      .from(players)
+      .where(eq(players.id, keeperData.playerId));
+
+    if (!player) {
+      return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+    }
+
+    const existingPicks = await db
+      .select()
+      .from(draftPicks)
+      .where(eq(draftPicks.draftId, draftId));
+
+    if (existingPicks.some(p => p.playerId === keeperData.playerId)) {
+      return NextResponse.json({ error: 'Player already drafted' }, { status: 400 });
+    }
+
+    const takenPickNumbers = existingPicks.map(p => p.pickNumber);
+    let slot: PickSlot | null;
+
+    if (draft.draftType === 'auction') {
+      // Auction keepers carry a salary instead of costing a specific pick
+      if (keeperData.price === undefined) {
+        return NextResponse.json({ error: 'Auction keepers require a price' }, { status: 400 });
+      }
+
+      // Same ceiling as a bid: the salary must leave minBid for each other open spot
+      const team = getTeamBudgets(draft, existingPicks).find(t => t.teamNumber === keeperData.teamNumber);
+      if (!team || team.openSpots <= 0) {
+        return NextResponse.json({ error: 'Team roster is full' }, { status: 400 });
+      }
+      if (keeperData.price > team.maxBid) {
+        return NextResponse.json({ error: `Keeper price exceeds team's max bid of ${team.maxBid}` }, { status: 400 });
+      }
+      slot = getNextOpenSlot(draft, takenPickNumbers);
+    } else {
+      if (keeperData.round === undefined) {
+        return NextResponse.json({ error: 'Keepers require the round whose pick they cost' }, { status: 400 });
+      }
+      if (keeperData.round > draft.rosterSize) {
+        return NextResponse.json({ error: 'Round is outside the draft' }, { status: 400 });
+      }
+
+      // After trades a team may own several picks in the round, or none
+      const owners = await getPickOwners(draftId);
+      const teamSlots = getTeamSlotsInRound(draft, keeperData.teamNumber, keeperData.round, owners);
+      slot = teamSlots.find(s => !takenPickNumbers.includes(s.pickNumber)) ?? null;
+
+      if (!slot) {
+        return NextResponse.json(
+          { error: teamSlots.length > 0 ? 'That pick is already used by another keeper' : 'Team does not own a pick in that round' },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (!slot) {
+      return NextResponse.json({ error: 'Draft has no open picks' }, { status: 400 });
+    }
+
+    log.info('Adding keeper', {
+      draftId,
+      userId,
+      playerId: player.id,
+      teamNumber: keeperData.teamNumber,
+      pickNumber: slot.pickNumber,
+    });
+
+    // The unique indexes on slot and player reject a keeper added concurrently
+    let keeper;
+    try {
+      [keeper] = await db
+        .insert(draftPicks)
+        .values({
+          draftId,
+          playerId: player.id,
+          teamNumber: keeperData.teamNumber,
+          round: slot.round,
+          pickNumber: slot.pickNumber,
+          pickInRound: slot.pickInRound,
+          isUserPick: keeperData.teamNumber === draft.draftPosition,
+          isKeeper: true,
+          price: draft.draftType === 'auction' ? keeperData.price : null,
+        })
+        .returning();
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return NextResponse.json(
+          { error: 'Another keeper was added at the same time; refresh and try again' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    await syncCurrentPick(draft);
+
+    return NextResponse.json({
+      keeper: {
+        ...keeper,
+        player: {
+          id: player.id,
+          fullName: player.fullName,
+          team: player.team,
+          position: player.position,
+        },
+      },
+    }, { status: 201 });
+  } catch (error) {
+    log.error('Error adding keeper', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to add keeper' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/drafts/[id]/keepers?playerId=... - Remove a keeper before the draft starts
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    const playerId = new URL(request.url).searchParams.get('playerId');
+    if (!playerId || !z.string().uuid().safeParse(playerId).success) {
+      return NextResponse.json({ error: 'Invalid player ID' }, { status: 400 });
+    }
+
+    // Verify draft access and status
+    const access = await getDraftAccess(draftId, userId);
+
+    if (!access) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    const { draft } = access;
+
+    if (access.role !== 'commissioner') {
+      return NextResponse.json({ error: 'Only the commissioner can manage keepers' }, { status: 403 });
+    }
+
+    if (draft.status !== 'setup') {
+      return NextResponse.json({ error: 'Keepers can only be changed before the draft starts' }, { status: 400 });
+    }
+
+    const [removed] = await db
+      .delete(draftPicks)
+      .where(and(
+        eq(draftPicks.draftId, draftId),
+        eq(draftPicks.playerId, playerId),
+        eq(draftPicks.isKeeper, true)
+      ))
+      .returning();
+
+    if (!removed) {
+      return NextResponse.json({ error: 'Keeper not found' }, { status: 404 });
+    }
+
+    await syncCurrentPick(draft);
+
+    log.info('Keeper removed', { pickId: removed.id, draftId, userId });
+
+    return NextResponse.json({ success: true, removedPickId: removed.id });
+  } catch (error) {
+    log.error('Error removing keeper', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to remove keeper' },
+      { status: 500 }
+    );
+  }
+}
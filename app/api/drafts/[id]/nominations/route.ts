@@ -0,0 +1,244 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, isUniqueViolation } from '@/lib/db';
+import { drafts, draftPicks, players, auctionNominations, auctionBids } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { eq, and } from 'drizzle-orm';
+import { logger, generateRequestId, formatError } from '@/lib/logger';
+import { getAuctionState, validateBid } from '@/lib/draft-auction';
+import { canActForTeam, getDraftAccess } from '@/lib/draft-access';
+import { z } from 'zod';
+
+// Validation schema for nominating a player
+const nominateSchema = z.object({
+  playerId: z.string().uuid(),
+  teamNumber: z.number().int().min(1).max(20).optional(), // Must match the nominating team if given
+  openingBid: z.number().int().min(0).optional(), // Defaults to the draft's min bid
+});
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/drafts/[id]/nominations - Nominate a player in an auction draft
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    // Verify draft access, type and status
+    const access = await getDraftAccess(draftId, userId);
+
+    if (!access) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    const { draft } = access;
+
+    if (draft.draftType !== 'auction') {
+      return NextResponse.json({ error: 'Nominations are only used in auction drafts' }, { status: 400 });
+    }
+
+    if (draft.status === 'completed') {
+      return NextResponse.json({ error: 'Draft is already completed' }, { status: 400 });
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = nominateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const nominationData = validationResult.data;
+    const auction = await getAuctionState(draft);
+
+    if (auction.openNomination) {
+      return NextResponse.json({ error: 'Another player is already up for bidding' }, { status: 400 });
+    }
+
+    if (auction.nominatingTeam === null) {
+      return NextResponse.json({ error: 'No team has an open roster spot' }, { status: 400 });
+    }
+
+    if (!canActForTeam(access, auction.nominatingTeam)) {
+      return NextResponse.json(
+        { error: 'Only the nominating team or the commissioner can nominate', expected: { teamNumber: auction.nominatingTeam } },
+        { status: 403 }
+      );
+    }
+
+    if (nominationData.teamNumber !== undefined && nominationData.teamNumber !== auction.nominatingTeam) {
+      return NextResponse.json(
+        { error: 'Nomination is out of turn', expected: { teamNumber: auction.nominatingTeam } },
+        { status: 400 }
+      );
+    }
+
+    // Verify player exists and is still available
+    const [player] = await db
+      .select()
+      .from(players)
+      .where(eq(players.id, nominationData.playerId));
+
+    if (!player) {
+      return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+    }
+
+    const [existingPick] = await db
+      .select()
+      .from(draftPicks)
+      .where(and(eq(draftPicks.draftId, draftId), eq(draftPicks.playerId, nominationData.playerId)));
+
+    if (existingPick) {
+      return NextResponse.json({ error: 'Player already drafted' }, { status: 400 });
+    }
+
+    // The nominating team opens the bidding
+    const openingBid = nominationData.openingBid ?? auction.rules.minBid;
+    const team = auction.teams.find(t => t.teamNumber === auction.nominatingTeam);
+    const bidError = validateBid(auction.rules, team, openingBid, null);
+
+    if (bidError) {
+      return NextResponse.json({ error: bidError }, { status: 400 });
+    }
+
+    log.info('Nominating player', {
+      draftId,
+      userId,
+      playerId: player.id,
+      teamNumber: auction.nominatingTeam,
+      openingBid,
+    });
+
+    // The unique index on open nominations rejects one made at the same moment
+    let nomination;
+    try {
+      [nomination] = await db
+        .insert(auctionNominations)
+        .values({
+          draftId,
+          playerId: player.id,
+          nominatingTeam: auction.nominatingTeam,
+          currentBid: openingBid,
+          highBidder: auction.nominatingTeam,
+        })
+        .returning();
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return NextResponse.json({ error: 'Another player is already up for bidding' }, { status: 409 });
+      }
+      throw error;
+    }
+
+    await db.insert(auctionBids).values({
+      nominationId: nomination.id,
+      teamNumber: auction.nominatingTeam,
+      amount: openingBid,
+    });
+
+    if (draft.status === 'setup') {
+      await db
+        .update(drafts)
+        .set({ status: 'in_progress' })
+        .where(eq(drafts.id, draftId));
+    }
+
+    return NextResponse.json({
+      nomination: {
+        ...nomination,
+        player: {
+          id: player.id,
+          fullName: player.fullName,
+          team: player.team,
+          position: player.position,
+        },
+      },
+    }, { status: 201 });
+  } catch (error) {
+    log.error('Error nominating player', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to nominate player' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/drafts/[id]/nominations - Withdraw the open nomination
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    // Verify draft access
+    const access = await getDraftAccess(draftId, userId);
+
+    if (!access) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    // Members can only withdraw their own team's nomination
+    const [cancelled] = await db
+      .update(auctionNominations)
+      .set({ status: 'cancelled', closedAt: new Date() })
+      .where(and(
+        eq(auctionNominations.draftId, draftId),
+        eq(auctionNominations.status, 'open'),
+        access.role === 'commissioner' ? undefined : eq(auctionNominations.nominatingTeam, access.teamNumber ?? 0)
+      ))
+      .returning();
+
+    if (!cancelled) {
+      return NextResponse.json({ error: 'No open nomination you can withdraw' }, { status: 400 });
+    }
+
+    log.info('Nomination withdrawn', { nominationId: cancelled.id, draftId, userId });
+
+    return NextResponse.json({ success: true, cancelledNominationId: cancelled.id });
+  } catch (error) {
+    log.error('Error withdrawing nomination', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to withdraw nomination' },
+      { status: 500 }
+    );
+  }
+}
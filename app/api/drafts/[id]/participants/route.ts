@@ -0,0 +1,283 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, isUniqueViolation } from '@/lib/db';
+import { draftParticipants, userProfile } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { eq, and } from 'drizzle-orm';
+import { logger, generateRequestId, formatError } from '@/lib/logger';
+import { getClaimedTeams, getDraftAccess } from '@/lib/draft-access';
+import { z } from 'zod';
+
+// Validation schema for claiming a team. Commissioners may pass a userId to
+// assign a team to another participant, or change their role.
+const updateParticipantSchema = z.object({
+  userId: z.string().min(1).optional(),
+  teamNumber: z.number().int().min(1).max(20).nullable().optional(), // null releases the team
+  role: z.enum(['commissioner', 'member']).optional(),
+});
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/drafts/[id]/participants - List who is drafting which team
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    const access = await getDraftAccess(draftId, userId);
+
+    if (!access) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    const { draft } = access;
+
+    log.info('Fetching draft participants', { draftId, userId });
+
+    const [participants, [ownerProfile], claimedTeams] = await Promise.all([
+      db
+        .select({ participant: draftParticipants, displayName: userProfile.displayName })
+        .from(draftParticipants)
+        .leftJoin(userProfile, eq(draftParticipants.userId, userProfile.userId))
+        .where(eq(draftParticipants.draftId, draftId))
+        .orderBy(draftParticipants.joinedAt),
+      db
+        .select({ displayName: userProfile.displayName })
+        .from(userProfile)
+        .where(eq(userProfile.userId, draft.userId)),
+      getClaimedTeams(draft),
+    ]);
+
+    return NextResponse.json({
+      participants: [
+        {
+          userId: draft.userId,
+          displayName: ownerProfile?.displayName ?? null,
+          role: 'commissioner',
+          isOwner: true,
+          teamNumber: draft.draftPosition,
+        },
+        ...participants.map(({ participant, displayName }) => ({
+          userId: participant.userId,
+          displayName,
+          role: participant.role,
+          isOwner: false,
+          teamNumber: participant.teamNumber,
+        })),
+      ],
+      openTeams: Array.from({ length: draft.numTeams }, (_, i) => i + 1).filter(team => !claimedTeams.has(team)),
+    });
+  } catch (error) {
+    log.error('Error fetching draft participants', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch draft participants' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/drafts/[id]/participants - Claim a team, or as commissioner assign teams and roles
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    const access = await getDraftAccess(draftId, userId);
+
+    if (!access) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    const { draft } = access;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = updateParticipantSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const updateData = validationResult.data;
+    const targetUserId = updateData.userId ?? userId;
+
+    if (targetUserId !== userId && access.role !== 'commissioner') {
+      return NextResponse.json({ error: 'Only the commissioner can assign other teams' }, { status: 403 });
+    }
+
+    if (updateData.role !== undefined && !access.isOwner) {
+      return NextResponse.json({ error: 'Only the draft owner can change roles' }, { status: 403 });
+    }
+
+    // The owner drafts from the draft position; change it on the draft instead
+    if (targetUserId === draft.userId) {
+      return NextResponse.json({ error: 'The draft owner drafts from the draft position' }, { status: 400 });
+    }
+
+    const [participant] = await db
+      .select()
+      .from(draftParticipants)
+      .where(and(eq(draftParticipants.draftId, draftId), eq(draftParticipants.userId, targetUserId)));
+
+    if (!participant) {
+      return NextResponse.json({ error: 'Participant not found' }, { status: 404 });
+    }
+
+    const teamNumber = updateData.teamNumber;
+
+    // Once the draft starts, only the commissioner moves people between teams
+    if (teamNumber !== undefined && draft.status !== 'setup' && access.role !== 'commissioner') {
+      return NextResponse.json(
+        { error: 'Teams can only be claimed before the draft starts; ask the commissioner' },
+        { status: 403 }
+      );
+    }
+
+    if (teamNumber !== undefined && teamNumber !== null) {
+      if (teamNumber > draft.numTeams) {
+        return NextResponse.json({ error: 'Team number cannot exceed number of teams' }, { status: 400 });
+      }
+
+      const claimedBy = (await getClaimedTeams(draft)).get(teamNumber);
+      if (claimedBy && claimedBy !== targetUserId) {
+        return NextResponse.json({ error: 'Team has already been claimed' }, { status: 409 });
+      }
+    }
+
+    log.info('Updating draft participant', {
+      draftId,
+      userId,
+      targetUserId,
+      teamNumber,
+      role: updateData.role,
+    });
+
+    // The unique index on the draft's teams rejects a claim that lost a race
+    let updatedParticipant;
+    try {
+      [updatedParticipant] = await db
+        .update(draftParticipants)
+        .set({
+          ...(teamNumber !== undefined && { teamNumber }),
+          ...(updateData.role !== undefined && { role: updateData.role }),
+        })
+        .where(eq(draftParticipants.id, participant.id))
+        .returning();
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return NextResponse.json({ error: 'Team has already been claimed' }, { status: 409 });
+      }
+      throw error;
+    }
+
+    return NextResponse.json({ participant: updatedParticipant });
+  } catch (error) {
+    log.error('Error updating draft participant', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to update draft participant' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/drafts/[id]/participants?userId=... - Leave a draft, or remove a participant as commissioner
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    const targetUserId = new URL(request.url).searchParams.get('userId') || userId;
+
+    const access = await getDraftAccess(draftId, userId);
+
+    if (!access) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    if (targetUserId !== userId && access.role !== 'commissioner') {
+      return NextResponse.json({ error: 'Only the commissioner can remove participants' }, { status: 403 });
+    }
+
+    if (targetUserId === access.draft.userId) {
+      return NextResponse.json({ error: 'The draft owner cannot leave the draft' }, { status: 400 });
+    }
+
+    const [removed] = await db
+      .delete(draftParticipants)
+      .where(and(eq(draftParticipants.draftId, draftId), eq(draftParticipants.userId, targetUserId)))
+      .returning();
+
+    if (!removed) {
+      return NextResponse.json({ error: 'Participant not found' }, { status: 404 });
+    }
+
+    log.info('Participant removed from draft', { draftId, userId, targetUserId });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error('Error removing draft participant', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to remove draft participant' },
+      { status: 500 }
+    );
+  }
+}
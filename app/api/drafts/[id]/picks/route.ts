@@ -1,19 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
-import { drafts, draftPicks, players } from '@/lib/db/schema';
+import { db, isUniqueViolation } from '@/lib/db';
+import { drafts, draftPicks, players, auctionNominations } from '@/lib/db/schema';
 import { auth } from '@/lib/auth';
-import { eq, and, desc } from 'drizzle-orm';
+import { eq, and, desc, gte } from 'drizzle-orm';
 import { logger, generateRequestId, formatError } from '@/lib/logger';
+import { getNextOpenSlot, getSlotMismatches } from '@/lib/draft-order';
+import { claimPickClock, getOnTheClock, getPickOwners, getTakenPickNumbers, recordPick, restorePickClock } from '@/lib/draft-picks';
+import { isMockDraft, runBotPicks, runExpiredPick } from '@/lib/draft-bots';
+import { publishBoardChange, publishDraftEvent } from '@/lib/draft-events';
+import { resetPickClock } from '@/lib/draft-clock';
+import { canActForTeam, getDraftAccess } from '@/lib/draft-access';
 import { z } from 'zod';
 
-// Validation schema for making a pick
+// Validation schema for making a pick. The slot fields are optional: the
+// server decides who is on the clock, and rejects claims that disagree.
 const makePickSchema = z.object({
   playerId: z.string().uuid(),
-  teamNumber: z.number().int().min(1).max(20),
-  round: z.number().int().min(1),
-  pickNumber: z.number().int().min(1),
-  pickInRound: z.number().int().min(1),
-  isUserPick: z.boolean().default(false),
+  teamNumber: z.number().int().min(1).max(20).optional(),
+  round: z.number().int().min(1).optional(),
+  pickNumber: z.number().int().min(1).optional(),
+  pickInRound: z.number().int().min(1).optional(),
+  price: z.number().int().min(0).optional(), // Auction drafts: must match the winning bid
 });
 
 type RouteParams = { params: Promise<{ id: string }> };
@@ -43,13 +50,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
     }
 
-    // Verify draft ownership
-    const [draft] = await db
-      .select()
-      .from(drafts)
-      .where(and(eq(drafts.id, draftId), eq(drafts.userId, userId)));
+    // Verify the user owns or participates in the draft
+    const access = await getDraftAccess(draftId, userId);
 
-    if (!draft) {
+    if (!access) {
       return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
     }
 
@@ -75,6 +79,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         team: player.team,
         position: player.position,
         positions: player.positions,
+        injuryStatus: player.injuryStatus,
       } : null,
     }));
 
@@ -113,16 +118,19 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
     }
 
-    // Verify draft ownership and status
-    const [draft] = await db
-      .select()
-      .from(drafts)
-      .where(and(eq(drafts.id, draftId), eq(drafts.userId, userId)));
+    // Make the automatic pick first if the clock has run out, so this pick
+    // goes to the slot really on the clock
+    await runExpiredPick(draftId);
+
+    // Verify draft access and status
+    const access = await getDraftAccess(draftId, userId);
 
-    if (!draft) {
+    if (!access) {
       return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
     }
 
+    const { draft } = access;
+
     if (draft.status === 'completed') {
       return NextResponse.json({ error: 'Draft is already completed' }, { status: 400 });
     }
@@ -160,49 +168,132 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Player already drafted' }, { status: 400 });
     }
 
+    // Work out which slot is on the clock from the picks already made and traded slots
+    const [takenPickNumbers, owners] = await Promise.all([
+      getTakenPickNumbers(draftId),
+      getPickOwners(draftId),
+    ]);
+
+    const slot = getNextOpenSlot(draft, takenPickNumbers, owners);
+
+    if (!slot) {
+      return NextResponse.json({ error: 'Draft is already completed' }, { status: 400 });
+    }
+
+    // Auction picks go to the high bidder of the open nomination; every other
+    // draft type gives the slot to the team the pick order puts on the clock
+    let teamNumber = slot.teamNumber;
+    let price: number | null = null;
+    let nominationId: string | null = null;
+
+    if (draft.draftType === 'auction') {
+      // Closing the bidding is the auctioneer's job
+      if (access.role !== 'commissioner') {
+        return NextResponse.json({ error: 'Only the commissioner can close the bidding' }, { status: 403 });
+      }
+
+      const [nomination] = await db
+        .select()
+        .from(auctionNominations)
+        .where(and(eq(auctionNominations.draftId, draftId), eq(auctionNominations.status, 'open')));
+
+      if (!nomination || nomination.playerId !== pickData.playerId) {
+        return NextResponse.json({ error: 'Player is not currently nominated' }, { status: 400 });
+      }
+
+      if ((pickData.teamNumber !== undefined && pickData.teamNumber !== nomination.highBidder) ||
+        (pickData.price !== undefined && pickData.price !== nomination.currentBid)) {
+        return NextResponse.json(
+          {
+            error: 'Pick does not match the winning bid',
+            expected: { teamNumber: nomination.highBidder, price: nomination.currentBid },
+          },
+          { status: 400 }
+        );
+      }
+
+      teamNumber = nomination.highBidder;
+      price = nomination.currentBid;
+      nominationId = nomination.id;
+    } else {
+      if (isMockDraft(draft) && slot.teamNumber !== draft.draftPosition) {
+        return NextResponse.json(
+          { error: 'CPU teams are on the clock; simulate their picks first', expected: slot },
+          { status: 400 }
+        );
+      }
+
+      if (!canActForTeam(access, slot.teamNumber)) {
+        return NextResponse.json(
+          { error: 'Only the team on the clock or the commissioner can pick', expected: slot },
+          { status: 403 }
+        );
+      }
+
+      const mismatches = getSlotMismatches(slot, pickData);
+      if (mismatches.length > 0) {
+        log.info('Rejected out-of-turn pick', { draftId, userId, mismatches });
+        return NextResponse.json(
+          {
+            error: mismatches.includes('teamNumber') ? 'Pick is out of turn' : 'Pick does not match the current slot',
+            expected: slot,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
     log.info('Making draft pick', {
       draftId,
       userId,
       playerId: pickData.playerId,
-      teamNumber: pickData.teamNumber,
-      pickNumber: pickData.pickNumber,
+      teamNumber,
+      pickNumber: slot.pickNumber,
+      price,
     });
 
-    // Create the pick
-    const [newPick] = await db
-      .insert(draftPicks)
-      .values({
-        draftId,
-        playerId: pickData.playerId,
-        teamNumber: pickData.teamNumber,
-        round: pickData.round,
-        pickNumber: pickData.pickNumber,
-        pickInRound: pickData.pickInRound,
-        isUserPick: pickData.isUserPick,
-      })
-      .returning();
+    // Stop the clock so the automatic pick can't take the slot meanwhile
+    if (!await claimPickClock(draftId)) {
+      return NextResponse.json({ error: 'The pick clock ran out; the pick was made automatically' }, { status: 409 });
+    }
 
-    // Update draft state
-    await db
-      .update(drafts)
-      .set({
-        status: 'in_progress',
-        currentRound: pickData.round,
-        currentPick: pickData.pickNumber + 1,
-      })
-      .where(eq(drafts.id, draftId));
+    // Create the pick and advance the draft. The unique indexes on slot and
+    // player reject a pick that lost a race with another one.
+    let recorded;
+    try {
+      recorded = await recordPick(
+        draft,
+        { playerId: pickData.playerId, slot, teamNumber, price },
+        { takenPickNumbers, owners }
+      );
+    } catch (error) {
+      // The pick never landed, so the slot still needs a running clock
+      await restorePickClock(draftId);
+
+      if (isUniqueViolation(error)) {
+        log.info('Rejected conflicting pick', { draftId, userId, pickNumber: slot.pickNumber, playerId: pickData.playerId });
+        return NextResponse.json(
+          { error: 'Another pick was made at the same time; refresh the board and try again' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    const { pick: newPick, nextSlot, draft: updatedDraft } = recorded;
 
-    // Check if draft is complete
-    const totalPicks = draft.numTeams * draft.rosterSize;
-    if (pickData.pickNumber >= totalPicks) {
+    if (nominationId) {
       await db
-        .update(drafts)
-        .set({ status: 'completed' })
-        .where(eq(drafts.id, draftId));
+        .update(auctionNominations)
+        .set({ status: 'sold', closedAt: new Date() })
+        .where(eq(auctionNominations.id, nominationId));
     }
 
     log.info('Draft pick made', { pickId: newPick.id, draftId });
 
+    // Mock drafts: let the bots pick until the user is back on the clock
+    const botPicks = nextSlot ? await runBotPicks(updatedDraft) : [];
+
     return NextResponse.json({
       pick: {
         ...newPick,
@@ -213,6 +304,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           position: player.position,
         },
       },
+      botPicks,
+      // Auction slots only number the sales; nobody is on the clock
+      onTheClock: draft.draftType === 'auction' ? null : botPicks.length > 0 ? await getOnTheClock(draft) : nextSlot,
     }, { status: 201 });
   } catch (error) {
     log.error('Error making draft pick', formatError(error));
@@ -224,7 +318,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 }
 
 /**
- * DELETE /api/drafts/[id]/picks - Undo the last pick (if it's the user's pick)
+ * DELETE /api/drafts/[id]/picks - Undo the last pick (your own team's, or any as commissioner)
+ * In mock drafts, also undoes the bot picks made after it
  */
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   const requestId = generateRequestId();
@@ -248,21 +343,26 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
     }
 
-    // Verify draft ownership
-    const [draft] = await db
-      .select()
-      .from(drafts)
-      .where(and(eq(drafts.id, draftId), eq(drafts.userId, userId)));
+    // Verify draft access
+    const access = await getDraftAccess(draftId, userId);
 
-    if (!draft) {
+    if (!access) {
       return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
     }
 
-    // Get the last pick
+    const { draft } = access;
+
+    // In mock drafts the bots have usually picked since the user did, so undo
+    // goes back to the user's last pick and takes every bot pick after it too
+    const mockDraft = isMockDraft(draft);
+
+    // Get the last pick (keepers are set during setup and never undone here)
     const [lastPick] = await db
       .select()
       .from(draftPicks)
-      .where(eq(draftPicks.draftId, draftId))
+      .where(mockDraft
+        ? and(eq(draftPicks.draftId, draftId), eq(draftPicks.isKeeper, false), eq(draftPicks.isUserPick, true))
+        : and(eq(draftPicks.draftId, draftId), eq(draftPicks.isKeeper, false)))
       .orderBy(desc(draftPicks.pickNumber))
       .limit(1);
 
@@ -270,31 +370,68 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'No picks to undo' }, { status: 400 });
     }
 
-    // Only allow undoing user's own picks
-    if (!lastPick.isUserPick) {
+    // Participants can only undo their own team's picks; the commissioner can undo any
+    if (!canActForTeam(access, lastPick.teamNumber)) {
       return NextResponse.json({ error: 'Can only undo your own picks' }, { status: 403 });
     }
 
     log.info('Undoing draft pick', { pickId: lastPick.id, draftId, userId });
 
-    // Delete the pick
-    await db
+    // Delete the pick, plus any later bot picks in a mock draft
+    const undonePicks = await db
       .delete(draftPicks)
-      .where(eq(draftPicks.id, lastPick.id));
+      .where(mockDraft
+        ? and(eq(draftPicks.draftId, draftId), eq(draftPicks.isKeeper, false), gte(draftPicks.pickNumber, lastPick.pickNumber))
+        : eq(draftPicks.id, lastPick.id))
+      .returning({ id: draftPicks.id, pickNumber: draftPicks.pickNumber });
+
+    // Auction picks reopen the nominating team's turn; the refund follows
+    // from the pick no longer counting against the team's budget
+    if (draft.draftType === 'auction') {
+      await db
+        .update(auctionNominations)
+        .set({ status: 'cancelled' })
+        .where(and(
+          eq(auctionNominations.draftId, draftId),
+          eq(auctionNominations.playerId, lastPick.playerId),
+          eq(auctionNominations.status, 'sold')
+        ));
+    }
 
-    // Update draft state
-    await db
+    // Back to setup once no regular picks remain
+    const [remainingPick] = await db
+      .select({ id: draftPicks.id })
+      .from(draftPicks)
+      .where(and(eq(draftPicks.draftId, draftId), eq(draftPicks.isKeeper, false)))
+      .limit(1);
+
+    // Update draft state; the reopened pick gets a fresh clock, and the
+    // clock stops if the draft is back in setup
+    const onTheClock = draft.draftType === 'auction' ? null : await getOnTheClock(draft);
+    const [updatedDraft] = await db
       .update(drafts)
       .set({
-        status: lastPick.pickNumber === 1 ? 'setup' : 'in_progress',
+        status: remainingPick ? 'in_progress' : 'setup',
         currentRound: lastPick.round,
         currentPick: lastPick.pickNumber,
+        ...resetPickClock(draft, remainingPick ? onTheClock : null),
       })
-      .where(eq(drafts.id, draftId));
+      .where(eq(drafts.id, draftId))
+      .returning();
+
+    await publishDraftEvent(draftId, 'pick-undone', {
+      pickIds: undonePicks.map(p => p.id),
+      pickNumbers: undonePicks.map(p => p.pickNumber),
+    });
+    await publishBoardChange(updatedDraft, onTheClock, draft.status);
 
     log.info('Draft pick undone', { pickId: lastPick.id, draftId });
 
-    return NextResponse.json({ success: true, undonePickId: lastPick.id });
+    return NextResponse.json({
+      success: true,
+      undonePickId: lastPick.id,
+      undoneBotPickIds: undonePicks.map(p => p.id).filter(id => id !== lastPick.id),
+    });
   } catch (error) {
     log.error('Error undoing draft pick', formatError(error));
     return NextResponse.json(
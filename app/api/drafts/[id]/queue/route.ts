@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { draftPicks, players } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { eq, and, inArray } from 'drizzle-orm';
+import { logger, generateRequestId, formatError } from '@/lib/logger';
+import { getDraftAccess } from '@/lib/draft-access';
+import { getDraftQueue, setDraftQueue, MAX_QUEUE_LENGTH } from '@/lib/draft-queue';
+import { z } from 'zod';
+
+// Validation schema for saving a queue. The list replaces the whole queue, so
+// reordering and removing players are both done by sending the new order.
+const updateQueueSchema = z.object({
+  playerIds: z.array(z.string().uuid()).max(MAX_QUEUE_LENGTH)
+    .refine(ids => new Set(ids).size === ids.length, 'Players can only be queued once'),
+});
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/drafts/[id]/queue - Get the user's queue of targeted players
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    const access = await getDraftAccess(draftId, userId);
+
+    if (!access) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    log.info('Fetching draft queue', { draftId, userId });
+
+    const queue = await getDraftQueue(draftId, userId);
+
+    return NextResponse.json({ queue });
+  } catch (error) {
+    log.error('Error fetching draft queue', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch draft queue' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/drafts/[id]/queue - Save the user's queue in the given order, minus
+ * any players drafted in the meantime
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    const access = await getDraftAccess(draftId, userId);
+
+    if (!access) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    const { draft } = access;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = updateQueueSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { playerIds } = validationResult.data;
+    let queuedIds = playerIds;
+
+    if (playerIds.length > 0) {
+      const [sportPlayers, draftedPlayers] = await Promise.all([
+        db
+          .select({ id: players.id })
+          .from(players)
+          .where(and(inArray(players.id, playerIds), eq(players.sport, draft.sport))),
+        db
+          .select({ playerId: draftPicks.playerId })
+          .from(draftPicks)
+          .where(and(eq(draftPicks.draftId, draftId), inArray(draftPicks.playerId, playerIds))),
+      ]);
+
+      if (sportPlayers.length !== playerIds.length) {
+        return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+      }
+
+      // Players drafted since the client last refreshed drop out of the queue
+      const draftedIds = new Set(draftedPlayers.map(pick => pick.playerId));
+      queuedIds = playerIds.filter(id => !draftedIds.has(id));
+    }
+
+    log.info('Saving draft queue', { draftId, userId, queueLength: queuedIds.length });
+
+    await setDraftQueue(draftId, userId, queuedIds);
+    const queue = await getDraftQueue(draftId, userId);
+
+    return NextResponse.json({ queue });
+  } catch (error) {
+    log.error('Error saving draft queue', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to save draft queue' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { draftPicks, players } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { eq } from 'drizzle-orm';
+import { logger, generateRequestId, formatError } from '@/lib/logger';
+import { getDraftAccess } from '@/lib/draft-access';
+import { computeRankings } from '@/lib/rankings';
+import { withLeaguePoints } from '@/lib/scoring';
+import { z } from 'zod';
+
+// Validation schema for query parameters
+const rankingsQuerySchema = z.object({
+  position: z.string().trim().toUpperCase().optional(),
+  available: z.enum(['true', 'false']).default('false'),
+  limit: z.coerce.number().int().min(1).max(500).default(200),
+});
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/drafts/[id]/rankings - Value over replacement and tiers for the draft's league
+ *
+ * Query params:
+ * - position: Only players valued at this position (e.g. RB, SS, C)
+ * - available: true to leave out players already picked
+ * - limit: Max players returned (default: 200, max: 500)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = rankingsQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { position, available, limit } = validation.data;
+
+    const access = await getDraftAccess(draftId, userId);
+
+    if (!access) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    const { draft } = access;
+
+    log.info('Computing draft rankings', { draftId, userId, position, available });
+
+    // Value is measured against the whole pool, drafted players included
+    const [pool, picks] = await Promise.all([
+      db.select().from(players).where(eq(players.sport, draft.sport)),
+      db.select({ playerId: draftPicks.playerId }).from(draftPicks).where(eq(draftPicks.draftId, draftId)),
+    ]);
+    const draftedIds = new Set(picks.map(pick => pick.playerId));
+
+    const rankings = computeRankings(draft, withLeaguePoints(pool, draft));
+
+    const rankedPlayers = rankings.players
+      .filter(ranking => !position || ranking.position === position)
+      .filter(ranking => available === 'false' || !draftedIds.has(ranking.player.id))
+      .slice(0, limit)
+      .map(ranking => ({ ...ranking, drafted: draftedIds.has(ranking.player.id) }));
+
+    return NextResponse.json({
+      replacementLevels: rankings.replacementLevels,
+      starters: rankings.starters,
+      rankings: rankedPlayers,
+    });
+  } catch (error) {
+    log.error('Error computing draft rankings', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to compute draft rankings' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,47 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { drafts, draftPicks, players } from '@/lib/db/schema';
+import { draftPicks, players } from '@/lib/db/schema';
 import { auth } from '@/lib/auth';
 import { eq, and, notInArray } from 'drizzle-orm';
 import { logger, generateRequestId, formatError } from '@/lib/logger';
 import { aiRateLimit } from '@/lib/rate-limit';
 import { checkAIAccess } from '@/lib/subscription';
-import { generateRecommendations, type DraftContext } from '@/lib/draft-ai';
+import {
+  generateRecommendations,
+  getRecommendationCandidateIds,
+  streamRecommendations,
+  type DraftContext,
+} from '@/lib/draft-ai';
+import { getTeamPickOutlook } from '@/lib/draft-order';
+import { getPickOwners } from '@/lib/draft-picks';
+import { getDraftAccess } from '@/lib/draft-access';
+import { getDraftQueue } from '@/lib/draft-queue';
+import { withLeaguePoints } from '@/lib/scoring';
+import { getPuntError } from '@/lib/categories';
+import { getAdpTrends, getTopAdpPlayerIds, ADP_SOURCES } from '@/lib/adp';
+import { getRecentInjuryNews } from '@/lib/player-news';
+import { getSeasonSummaries } from '@/lib/player-stats';
+import { createSSEMessage } from '@/lib/analyze-common';
+
+export const runtime = 'nodejs'; // Use Node.js runtime for streaming
+
+// Best players by the chosen ADP source added to the candidates
+const SOURCE_CANDIDATE_POOL = 60;
 
 type RouteParams = { params: Promise<{ id: string }> };
 
 /**
  * GET /api/drafts/[id]/recommendations - Get AI-powered draft recommendations
+ *
+ * Query params:
+ * - punt: Category leagues only; comma-separated categories the user is conceding
+ * - adpSource: Use ADP from this source only, e.g. community for FantasyBlock community ADP
+ * - stream: true to get Server-Sent Events instead of JSON: a `recommendation`
+ *   event for each pick as soon as it's ready, then `complete` with the full
+ *   response (or `error`)
+ *
+ * `source` in the response is "ai", or "fallback" when the recommendations
+ * were ranked without AI because none is configured or its answer was unusable.
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
   const requestId = generateRequestId();
@@ -63,17 +93,39 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Verify draft ownership
-    const [draft] = await db
-      .select()
-      .from(drafts)
-      .where(and(eq(drafts.id, draftId), eq(drafts.userId, userId)));
+    // Verify the user owns or participates in the draft
+    const access = await getDraftAccess(draftId, userId);
 
-    if (!draft) {
+    if (!access) {
       return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
     }
 
-    log.info('Generating draft recommendations', { draftId, userId });
+    const { draft } = access;
+
+    if (access.teamNumber === null) {
+      return NextResponse.json({ error: 'Claim a team to get recommendations' }, { status: 400 });
+    }
+
+    const userTeamNumber = access.teamNumber;
+
+    // Category leagues: categories the user is punting, e.g. ?punt=FT%,TO
+    const puntCategories = (new URL(request.url).searchParams.get('punt') ?? '')
+      .split(',')
+      .map(name => name.trim().toUpperCase())
+      .filter(Boolean);
+    const puntError = puntCategories.length > 0 ? getPuntError(draft.sport, puntCategories) : null;
+
+    if (puntError) {
+      return NextResponse.json({ error: puntError }, { status: 400 });
+    }
+
+    const adpSource = new URL(request.url).searchParams.get('adpSource')?.toLowerCase() || undefined;
+
+    if (adpSource && !(ADP_SOURCES as readonly string[]).includes(adpSource)) {
+      return NextResponse.json({ error: 'Invalid adpSource' }, { status: 400 });
+    }
+
+    log.info('Generating draft recommendations', { draftId, userId, puntCategories });
 
     // Get all picks for this draft
     const picksWithPlayers = await db
@@ -85,7 +137,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       .leftJoin(players, eq(draftPicks.playerId, players.id))
       .where(eq(draftPicks.draftId, draftId));
 
-    // Get drafted player IDs
+    // Get drafted player IDs (keepers are stored as picks, so they are excluded too)
     const draftedPlayerIds = picksWithPlayers.map(p => p.pick.playerId);
 
     // Get available players (not drafted)
@@ -109,9 +161,47 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     // Get user's roster (their team's picks)
     const userRoster = picksWithPlayers
-      .filter(p => p.pick.teamNumber === draft.draftPosition && p.player)
+      .filter(p => p.pick.teamNumber === userTeamNumber && p.player)
       .map(p => p.player!);
 
+    // Work out which open picks the user owns after trades (auctions have no pick slots)
+    const pickOutlook = draft.draftType === 'auction'
+      ? { upcoming: [], acquired: [], tradedAway: [] }
+      : getTeamPickOutlook(
+        draft,
+        userTeamNumber,
+        picksWithPlayers.map(p => p.pick.pickNumber),
+        await getPickOwners(draftId)
+      );
+
+    const userQueue = withLeaguePoints(await getDraftQueue(draftId, userId), draft);
+
+    // Projections are scored with this league's settings
+    const leaguePlayers = withLeaguePoints(availablePlayers, draft);
+
+    // Only the players the prompt and fallback can rank need their trends,
+    // news and stats, not the whole pool
+    const sourceTopIds = adpSource
+      ? await getTopAdpPlayerIds(draft.sport, adpSource, { limit: SOURCE_CANDIDATE_POOL, excludeIds: draftedPlayerIds })
+      : [];
+    const candidateIds = getRecommendationCandidateIds(leaguePlayers, draft, [
+      ...userQueue.map(player => player.id),
+      ...sourceTopIds,
+    ]);
+
+    // ADP for this draft's format and league size, with its weekly trend
+    const adpTrends = await getAdpTrends(candidateIds, {
+      format: draft.scoringType,
+      numTeams: draft.numTeams,
+      source: adpSource,
+    });
+
+    const [playerNews, seasonStats] = await Promise.all([
+      getRecentInjuryNews(candidateIds),
+      // Last season and its change from the one before, for citing real numbers
+      getSeasonSummaries(candidateIds, 1),
+    ]);
+
     // Build draft context
     const context: DraftContext = {
       draft,
@@ -119,12 +209,69 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         ...p.pick,
         player: p.player,
       })),
-      availablePlayers,
+      availablePlayers: leaguePlayers,
       userRoster,
       currentPick: draft.currentPick || 1,
-      userTeamNumber: draft.draftPosition,
+      userTeamNumber,
+      userUpcomingPicks: pickOutlook.upcoming,
+      userTradedAwayPicks: pickOutlook.tradedAway,
+      userQueue,
+      puntCategories,
+      adpTrends,
+      adpSource,
+      playerNews,
+      seasonStats,
+    };
+
+    const draftContext = {
+      currentPick: context.currentPick,
+      userRosterSize: userRoster.length,
+      userPicksRemaining: pickOutlook.upcoming.length,
+      availablePlayersCount: availablePlayers.length,
     };
 
+    if (new URL(request.url).searchParams.get('stream') === 'true') {
+      // Create a TransformStream for SSE
+      const encoder = new TextEncoder();
+      const stream = new TransformStream();
+      const writer = stream.writable.getWriter();
+      const sendEvent = (type: string, data: unknown) => {
+        const event = { type, data, timestamp: new Date() };
+        return writer.write(encoder.encode(createSSEMessage(event)));
+      };
+
+      (async () => {
+        try {
+          const result = await streamRecommendations(context, recommendation => sendEvent('recommendation', recommendation));
+
+          log.info('Recommendations streamed', {
+            draftId,
+            userId,
+            recommendationCount: result.recommendations.length,
+            source: result.source,
+          });
+
+          await sendEvent('complete', { ...result, draftContext });
+        } catch (error) {
+          // Writes fail once the client has gone away
+          if (!request.signal.aborted) {
+            log.error('Error streaming recommendations', formatError(error));
+            await sendEvent('error', { message: 'Failed to generate recommendations' }).catch(() => {});
+          }
+        } finally {
+          await writer.close().catch(() => {});
+        }
+      })();
+
+      return new Response(stream.readable, {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+        },
+      });
+    }
+
     // Generate recommendations
     const result = await generateRecommendations(context);
 
@@ -132,15 +279,12 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       draftId,
       userId,
       recommendationCount: result.recommendations.length,
+      source: result.source,
     });
 
     return NextResponse.json({
       ...result,
-      draftContext: {
-        currentPick: context.currentPick,
-        userRosterSize: userRoster.length,
-        availablePlayersCount: availablePlayers.length,
-      },
+      draftContext,
     });
   } catch (error) {
     log.error('Error generating recommendations', formatError(error));
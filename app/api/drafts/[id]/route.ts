@@ -4,6 +4,15 @@ import { drafts, draftPicks } from '@/lib/db/schema';
 import { auth } from '@/lib/auth';
 import { eq, and } from 'drizzle-orm';
 import { logger, generateRequestId, formatError } from '@/lib/logger';
+import { draftSettingsSchema } from '@/lib/draft-settings';
+import { getOnTheClock, getPickOwners } from '@/lib/draft-picks';
+import { getDraftOrder } from '@/lib/draft-order';
+import { getAuctionState } from '@/lib/draft-auction';
+import { publishBoardChange } from '@/lib/draft-events';
+import { getClaimedTeams, getDraftAccess } from '@/lib/draft-access';
+import { getClockState, resetPickClock } from '@/lib/draft-clock';
+import { runExpiredPick } from '@/lib/draft-bots';
+import { getRosterSlotsError } from '@/lib/roster-slots';
 import { z } from 'zod';
 
 // Validation schema for updating a draft
@@ -16,7 +25,7 @@ const updateDraftSchema = z.object({
   status: z.enum(['setup', 'in_progress', 'completed', 'abandoned']).optional(),
   currentRound: z.number().int().min(1).optional(),
   currentPick: z.number().int().min(1).optional(),
-  settings: z.record(z.unknown()).optional(),
+  settings: draftSettingsSchema.optional(),
 });
 
 type RouteParams = { params: Promise<{ id: string }> };
@@ -48,16 +57,39 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     log.info('Fetching draft', { draftId, userId });
 
-    const [draft] = await db
-      .select()
-      .from(drafts)
-      .where(and(eq(drafts.id, draftId), eq(drafts.userId, userId)));
+    // Owners and participants can both view the draft
+    const access = await getDraftAccess(draftId, userId);
 
-    if (!draft) {
+    if (!access) {
       return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ draft });
+    // Make any pick whose clock has run out before reporting the board
+    const autoPicks = await runExpiredPick(draftId);
+    const draft = autoPicks.length > 0
+      ? (await db.select().from(drafts).where(eq(drafts.id, draftId)))[0]
+      : access.draft;
+    const viewer = { role: access.role, isOwner: access.isOwner, teamNumber: access.teamNumber };
+
+    if (draft.draftType === 'auction') {
+      return NextResponse.json({
+        draft,
+        viewer,
+        onTheClock: null,
+        order: [],
+        auction: await getAuctionState(draft),
+      });
+    }
+
+    const owners = await getPickOwners(draftId);
+
+    return NextResponse.json({
+      draft,
+      viewer,
+      onTheClock: await getOnTheClock(draft),
+      clock: getClockState(draft),
+      order: getDraftOrder(draft, owners),
+    });
   } catch (error) {
     log.error('Error fetching draft', formatError(error));
     return NextResponse.json(
@@ -125,14 +157,68 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // Roster slots have to suit the sport and cover the whole roster
+    const rosterSlots = updateData.settings?.rosterSlots;
+    if (rosterSlots) {
+      const rosterSlotsError = getRosterSlotsError(
+        existingDraft.sport,
+        rosterSlots,
+        updateData.rosterSize ?? existingDraft.rosterSize
+      );
+      if (rosterSlotsError) {
+        return NextResponse.json({ error: rosterSlotsError }, { status: 400 });
+      }
+    }
+
+    // The owner's team can't move onto a team a participant has claimed
+    if (updateData.draftPosition !== undefined && updateData.draftPosition !== existingDraft.draftPosition) {
+      const claimedBy = (await getClaimedTeams(existingDraft)).get(updateData.draftPosition);
+      if (claimedBy && claimedBy !== userId) {
+        return NextResponse.json(
+          { error: 'Draft position has been claimed by a participant' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Keepers and picks are tied to slots computed from the team count and roster size
+    if ((updateData.numTeams !== undefined && updateData.numTeams !== existingDraft.numTeams) ||
+      (updateData.rosterSize !== undefined && updateData.rosterSize !== existingDraft.rosterSize)) {
+      const [existingPick] = await db
+        .select({ id: draftPicks.id })
+        .from(draftPicks)
+        .where(eq(draftPicks.draftId, draftId))
+        .limit(1);
+
+      if (existingPick) {
+        return NextResponse.json(
+          { error: 'Cannot change team count or roster size once keepers or picks exist' },
+          { status: 400 }
+        );
+      }
+    }
+
     log.info('Updating draft', { draftId, userId, updates: Object.keys(updateData) });
 
+    // Starting the draft starts the first pick's clock; leaving it stops the clock
+    const mergedDraft = { ...existingDraft, ...updateData };
+    const statusChanged = updateData.status !== undefined && updateData.status !== existingDraft.status;
+    const clock = statusChanged && (updateData.status === 'in_progress' || existingDraft.status === 'in_progress')
+      ? resetPickClock(mergedDraft, updateData.status === 'in_progress' ? await getOnTheClock(mergedDraft) : null)
+      : {};
+
     const [updatedDraft] = await db
       .update(drafts)
-      .set(updateData)
+      .set({ ...updateData, ...clock })
       .where(and(eq(drafts.id, draftId), eq(drafts.userId, userId)))
       .returning();
 
+    if (updatedDraft.status !== existingDraft.status) {
+      // Auction slots only number the sales; nobody is on the clock
+      const onTheClock = updatedDraft.draftType === 'auction' ? null : await getOnTheClock(updatedDraft);
+      await publishBoardChange(updatedDraft, onTheClock, existingDraft.status);
+    }
+
     return NextResponse.json({ draft: updatedDraft });
   } catch (error) {
     log.error('Error updating draft', formatError(error));
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { drafts } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { eq, and } from 'drizzle-orm';
+import { logger, generateRequestId, formatError } from '@/lib/logger';
+import { isMockDraft, runBotPicks } from '@/lib/draft-bots';
+import { getOnTheClock } from '@/lib/draft-picks';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/drafts/[id]/simulate - Make CPU picks in a mock draft until the user is on the clock
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    // Verify draft ownership, mode and status
+    const [draft] = await db
+      .select()
+      .from(drafts)
+      .where(and(eq(drafts.id, draftId), eq(drafts.userId, userId)));
+
+    if (!draft) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    if (!isMockDraft(draft)) {
+      return NextResponse.json({ error: 'Only mock drafts have CPU teams' }, { status: 400 });
+    }
+
+    if (draft.status === 'completed') {
+      return NextResponse.json({ error: 'Draft is already completed' }, { status: 400 });
+    }
+
+    log.info('Simulating CPU picks', { draftId, userId });
+
+    const botPicks = await runBotPicks(draft);
+
+    return NextResponse.json({
+      botPicks,
+      onTheClock: await getOnTheClock(draft),
+    });
+  } catch (error) {
+    log.error('Error simulating CPU picks', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to simulate CPU picks' },
+      { status: 500 }
+    );
+  }
+}
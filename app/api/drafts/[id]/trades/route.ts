@@ -0,0 +1,308 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { draftPickOwners, type Draft, type DraftPick } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { eq, and } from 'drizzle-orm';
+import { logger, generateRequestId, formatError } from '@/lib/logger';
+import { getDraftAccess } from '@/lib/draft-access';
+import { getNextOpenSlot, getPickSlot, getTeamSlotsInRound, type PickSlot } from '@/lib/draft-order';
+import { getOnTheClock, getPickOwners, getTakenPickNumbers, syncCurrentPick } from '@/lib/draft-picks';
+import { runBotPicks } from '@/lib/draft-bots';
+import { z } from 'zod';
+
+// Validation schema for trading a pick. Identify the slot either by overall
+// pick number, or by round plus the team that currently owns it.
+const tradePickSchema = z.object({
+  pickNumber: z.number().int().min(1).optional(),
+  round: z.number().int().min(1).optional(),
+  fromTeam: z.number().int().min(1).max(20).optional(),
+  toTeam: z.number().int().min(1).max(20),
+}).refine(
+  data => data.pickNumber !== undefined || (data.round !== undefined && data.fromTeam !== undefined),
+  { message: 'Provide pickNumber, or round and fromTeam' }
+);
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/drafts/[id]/trades - List traded picks
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    // Verify draft access
+    const access = await getDraftAccess(draftId, userId);
+
+    if (!access) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    log.info('Fetching traded picks', { draftId, userId });
+
+    const trades = await db
+      .select()
+      .from(draftPickOwners)
+      .where(eq(draftPickOwners.draftId, draftId))
+      .orderBy(draftPickOwners.pickNumber);
+
+    return NextResponse.json({ trades });
+  } catch (error) {
+    log.error('Error fetching traded picks', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch traded picks' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Bring the board up to date after a slot changes hands: the draft points at
+ * the slot on the clock, a traded slot that is on the clock gets a fresh
+ * clock for its new team, and in running mock drafts the bots pick if a CPU
+ * team is now up
+ */
+async function syncAfterTrade(draft: Draft, tradedSlotOnClock: boolean): Promise<{ onTheClock: PickSlot | null; botPicks: DraftPick[] }> {
+  const onTheClock = await syncCurrentPick(draft, { resetClock: tradedSlotOnClock });
+  const botPicks = draft.status === 'in_progress' ? await runBotPicks(draft) : [];
+
+  return { onTheClock: botPicks.length > 0 ? await getOnTheClock(draft) : onTheClock, botPicks };
+}
+
+/**
+ * POST /api/drafts/[id]/trades - Record a traded pick
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    // Verify draft access, type and status
+    const access = await getDraftAccess(draftId, userId);
+
+    if (!access) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    const { draft } = access;
+
+    if (access.role !== 'commissioner') {
+      return NextResponse.json({ error: 'Only the commissioner can manage traded picks' }, { status: 403 });
+    }
+
+    if (draft.draftType === 'auction') {
+      return NextResponse.json({ error: 'Auction drafts do not have tradeable picks' }, { status: 400 });
+    }
+
+    if (draft.status === 'completed' || draft.status === 'abandoned') {
+      return NextResponse.json({ error: 'Draft is no longer active' }, { status: 400 });
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = tradePickSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const tradeData = validationResult.data;
+
+    if (tradeData.toTeam > draft.numTeams) {
+      return NextResponse.json({ error: 'Team number cannot exceed number of teams' }, { status: 400 });
+    }
+
+    const [takenPickNumbers, owners] = await Promise.all([
+      getTakenPickNumbers(draftId),
+      getPickOwners(draftId),
+    ]);
+
+    // Resolve the traded slot
+    let slot: PickSlot | null;
+    if (tradeData.pickNumber !== undefined) {
+      slot = getPickSlot(draft, tradeData.pickNumber, owners);
+    } else {
+      slot = getTeamSlotsInRound(draft, tradeData.fromTeam!, tradeData.round!, owners)
+        .find(s => !takenPickNumbers.includes(s.pickNumber)) ?? null;
+    }
+
+    if (!slot) {
+      return NextResponse.json({ error: 'Pick not found' }, { status: 404 });
+    }
+
+    if (tradeData.fromTeam !== undefined && tradeData.fromTeam !== slot.teamNumber) {
+      return NextResponse.json(
+        { error: 'Pick is not owned by that team', expected: { teamNumber: slot.teamNumber } },
+        { status: 400 }
+      );
+    }
+
+    if (takenPickNumbers.includes(slot.pickNumber)) {
+      return NextResponse.json({ error: 'Pick has already been used' }, { status: 400 });
+    }
+
+    if (tradeData.toTeam === slot.teamNumber) {
+      return NextResponse.json({ error: 'Team already owns that pick' }, { status: 400 });
+    }
+
+    log.info('Trading pick', {
+      draftId,
+      userId,
+      pickNumber: slot.pickNumber,
+      fromTeam: slot.teamNumber,
+      toTeam: tradeData.toTeam,
+    });
+
+    // Trading a pick back to its original team simply clears the override
+    if (tradeData.toTeam === slot.originalTeamNumber) {
+      await db
+        .delete(draftPickOwners)
+        .where(and(eq(draftPickOwners.draftId, draftId), eq(draftPickOwners.pickNumber, slot.pickNumber)));
+    } else {
+      await db
+        .insert(draftPickOwners)
+        .values({
+          draftId,
+          pickNumber: slot.pickNumber,
+          originalTeam: slot.originalTeamNumber,
+          ownerTeam: tradeData.toTeam,
+        })
+        .onConflictDoUpdate({
+          target: [draftPickOwners.draftId, draftPickOwners.pickNumber],
+          set: { ownerTeam: tradeData.toTeam },
+        });
+    }
+
+    const { onTheClock, botPicks } = await syncAfterTrade(
+      draft,
+      getNextOpenSlot(draft, takenPickNumbers, owners)?.pickNumber === slot.pickNumber
+    );
+
+    return NextResponse.json({
+      slot: { ...slot, teamNumber: tradeData.toTeam },
+      onTheClock,
+      botPicks,
+    }, { status: 201 });
+  } catch (error) {
+    log.error('Error trading pick', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to trade pick' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/drafts/[id]/trades?pickNumber=... - Revert a traded pick to its original team
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: draftId } = await params;
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Validate UUID format
+    if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    const pickNumber = parseInt(new URL(request.url).searchParams.get('pickNumber') || '', 10);
+    if (!Number.isInteger(pickNumber) || pickNumber < 1) {
+      return NextResponse.json({ error: 'Invalid pick number' }, { status: 400 });
+    }
+
+    // Verify draft access
+    const access = await getDraftAccess(draftId, userId);
+
+    if (!access) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    const { draft } = access;
+
+    if (access.role !== 'commissioner') {
+      return NextResponse.json({ error: 'Only the commissioner can manage traded picks' }, { status: 403 });
+    }
+
+    const [takenPickNumbers, owners] = await Promise.all([
+      getTakenPickNumbers(draftId),
+      getPickOwners(draftId),
+    ]);
+    if (takenPickNumbers.includes(pickNumber)) {
+      return NextResponse.json({ error: 'Pick has already been used' }, { status: 400 });
+    }
+
+    const [reverted] = await db
+      .delete(draftPickOwners)
+      .where(and(eq(draftPickOwners.draftId, draftId), eq(draftPickOwners.pickNumber, pickNumber)))
+      .returning();
+
+    if (!reverted) {
+      return NextResponse.json({ error: 'Pick has not been traded' }, { status: 404 });
+    }
+
+    log.info('Traded pick reverted', { draftId, userId, pickNumber });
+
+    const { onTheClock, botPicks } = await syncAfterTrade(
+      draft,
+      getNextOpenSlot(draft, takenPickNumbers, owners)?.pickNumber === pickNumber
+    );
+
+    return NextResponse.json({ success: true, slot: getPickSlot(draft, pickNumber), onTheClock, botPicks });
+  } catch (error) {
+    log.error('Error reverting traded pick', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to revert traded pick' },
+      { status: 500 }
+    );
+  }
+}
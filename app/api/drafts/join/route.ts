@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { drafts, draftInvites, draftParticipants } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { eq, and, isNull } from 'drizzle-orm';
+import { logger, generateRequestId, formatError } from '@/lib/logger';
+import { getInviteError } from '@/lib/draft-access';
+import { z } from 'zod';
+
+// Validation schema for accepting an invite
+const joinDraftSchema = z.object({
+  token: z.string().min(1),
+});
+
+/**
+ * POST /api/drafts/join - Accept a draft invite and join as a participant
+ */
+export async function POST(request: NextRequest) {
+  const requestId = generateRequestId();
+  const log = {
+    info: (msg: string, data?: Record<string, unknown>) => logger.info(msg, { ...data, requestId }),
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = joinDraftSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const [invite] = await db
+      .select()
+      .from(draftInvites)
+      .where(eq(draftInvites.token, validationResult.data.token));
+
+    if (!invite) {
+      return NextResponse.json({ error: 'Invite not found' }, { status: 404 });
+    }
+
+    const [draft] = await db
+      .select()
+      .from(drafts)
+      .where(eq(drafts.id, invite.draftId));
+
+    if (!draft) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    // The commissioner, and anyone who already joined, just goes to the draft
+    if (draft.userId === userId) {
+      return NextResponse.json({ draftId: draft.id, joined: false });
+    }
+
+    const [existingParticipant] = await db
+      .select()
+      .from(draftParticipants)
+      .where(and(eq(draftParticipants.draftId, draft.id), eq(draftParticipants.userId, userId)));
+
+    if (existingParticipant) {
+      return NextResponse.json({ draftId: draft.id, joined: false, participant: existingParticipant });
+    }
+
+    const inviteError = getInviteError(invite, session.user);
+    if (inviteError) {
+      return NextResponse.json({ error: inviteError }, { status: 400 });
+    }
+
+    if (draft.status === 'completed' || draft.status === 'abandoned') {
+      return NextResponse.json({ error: 'Draft is no longer active' }, { status: 400 });
+    }
+
+    // Email invites are single use; claim it before adding the participant
+    if (invite.email) {
+      const [claimed] = await db
+        .update(draftInvites)
+        .set({ acceptedBy: userId, acceptedAt: new Date() })
+        .where(and(eq(draftInvites.id, invite.id), isNull(draftInvites.acceptedBy)))
+        .returning();
+
+      if (!claimed) {
+        return NextResponse.json({ error: 'Invite has already been used' }, { status: 400 });
+      }
+    }
+
+    const [participant] = await db
+      .insert(draftParticipants)
+      .values({
+        draftId: draft.id,
+        userId,
+        role: 'member',
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    log.info('Participant joined draft', { draftId: draft.id, userId, inviteId: invite.id });
+
+    return NextResponse.json({ draftId: draft.id, joined: true, participant }, { status: 201 });
+  } catch (error) {
+    log.error('Error joining draft', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to join draft' },
+      { status: 500 }
+    );
+  }
+}
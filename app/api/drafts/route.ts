@@ -2,10 +2,13 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { drafts } from '@/lib/db/schema';
 import { auth } from '@/lib/auth';
-import { eq, desc } from 'drizzle-orm';
+import { eq, desc, or, inArray } from 'drizzle-orm';
 import { logger, generateRequestId, formatError } from '@/lib/logger';
 import { draftRateLimit, getClientIP } from '@/lib/rate-limit';
 import { checkDraftAccess, getSubscriptionStatus } from '@/lib/subscription';
+import { draftSettingsSchema } from '@/lib/draft-settings';
+import { getJoinedDraftIds } from '@/lib/draft-access';
+import { getDraftedSlotCount, getRosterSlotsError } from '@/lib/roster-slots';
 import { z } from 'zod';
 
 // Validation schema for creating a draft
@@ -16,8 +19,8 @@ const createDraftSchema = z.object({
   numTeams: z.number().int().min(4).max(20).default(12),
   draftPosition: z.number().int().min(1).max(20).default(1),
   scoringType: z.enum(['standard', 'ppr', 'half_ppr', 'points', 'categories']).default('points'),
-  rosterSize: z.number().int().min(5).max(25).default(13),
-  settings: z.record(z.unknown()).optional(),
+  rosterSize: z.number().int().min(5).max(25).optional(), // Defaults to the roster slots' size, or 13
+  settings: draftSettingsSchema.optional(),
 });
 
 /**
@@ -40,10 +43,14 @@ export async function GET(request: NextRequest) {
     const userId = session.user.id;
     log.info('Fetching drafts', { userId });
 
+    // Drafts the user owns plus shared drafts they have joined
+    const joinedDraftIds = await getJoinedDraftIds(userId);
     const userDrafts = await db
       .select()
       .from(drafts)
-      .where(eq(drafts.userId, userId))
+      .where(joinedDraftIds.length > 0
+        ? or(eq(drafts.userId, userId), inArray(drafts.id, joinedDraftIds))
+        : eq(drafts.userId, userId))
       .orderBy(desc(drafts.createdAt));
 
     // Include subscription status in response
@@ -140,6 +147,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Roster slots have to suit the sport and cover the whole roster
+    const rosterSlots = draftData.settings?.rosterSlots;
+    const rosterSize = draftData.rosterSize ?? (rosterSlots ? getDraftedSlotCount(rosterSlots) : 13);
+
+    if (rosterSlots) {
+      if (rosterSize < 5 || rosterSize > 25) {
+        return NextResponse.json({ error: 'Roster size must be between 5 and 25' }, { status: 400 });
+      }
+
+      const rosterSlotsError = getRosterSlotsError(draftData.sport, rosterSlots, rosterSize);
+      if (rosterSlotsError) {
+        return NextResponse.json({ error: rosterSlotsError }, { status: 400 });
+      }
+    }
+
     log.info('Creating draft', { userId, sport: draftData.sport, draftType: draftData.draftType });
 
     // Create the draft
@@ -153,7 +175,7 @@ export async function POST(request: NextRequest) {
         numTeams: draftData.numTeams,
         draftPosition: draftData.draftPosition,
         scoringType: draftData.scoringType,
-        rosterSize: draftData.rosterSize,
+        rosterSize,
         settings: draftData.settings,
         status: 'setup',
       })
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { players } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { eq } from 'drizzle-orm';
+import { logger, generateRequestId, formatError } from '@/lib/logger';
+import { getPlayerNews } from '@/lib/player-news';
+import { z } from 'zod';
+
+// Validation schema for query parameters
+const playerNewsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  before: z.coerce.date().optional(),
+});
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/players/[id]/news - A player's news and status timeline, newest first
+ *
+ * Query params:
+ * - limit: Max entries returned (default: 20, max: 100)
+ * - before: Only entries older than this time, for paging back
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: playerId } = await params;
+  const log = {
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Validate UUID format
+    if (!playerId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid player ID' }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = playerNewsQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const [player] = await db
+      .select({ id: players.id, fullName: players.fullName, team: players.team, status: players.status, injuryStatus: players.injuryStatus })
+      .from(players)
+      .where(eq(players.id, playerId));
+
+    if (!player) {
+      return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+    }
+
+    const news = await getPlayerNews(playerId, validation.data);
+
+    return NextResponse.json({ player, news });
+  } catch (error) {
+    log.error('Error fetching player news', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch player news' },
+      { status: 500 }
+    );
+  }
+}
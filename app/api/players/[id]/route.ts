@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { players } from '@/lib/db/schema';
+import { auth } from '@/lib/auth';
+import { eq } from 'drizzle-orm';
+import { logger, generateRequestId, formatError } from '@/lib/logger';
+import { getKeyStats, getSeasonSummaries } from '@/lib/player-stats';
+import { getPlayerNews } from '@/lib/player-news';
+import { getProjectedStats } from '@/lib/scoring';
+
+// Seasons of stats returned
+const MAX_SEASONS = 5;
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/players/[id] - A player's card: bio, projection, season stats and recent news
+ *
+ * Seasons are newest first, each with totals, games played, per-game
+ * averages (rates such as FG% or AVG as they are) and the change in each
+ * from the season before. `keyStats` lists the stats to lead with.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const { id: playerId } = await params;
+  const log = {
+    error: (msg: string, data?: Record<string, unknown>) => logger.error(msg, { ...data, requestId }),
+  };
+
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Validate UUID format
+    if (!playerId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+      return NextResponse.json({ error: 'Invalid player ID' }, { status: 400 });
+    }
+
+    const [player] = await db.select().from(players).where(eq(players.id, playerId));
+
+    if (!player) {
+      return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+    }
+
+    const [seasons, news] = await Promise.all([
+      getSeasonSummaries([player.id], MAX_SEASONS),
+      getPlayerNews(player.id, { limit: 5 }),
+    ]);
+    const metadata = (player.metadata ?? {}) as Record<string, unknown>;
+
+    return NextResponse.json({
+      player,
+      bio: {
+        age: player.age,
+        yearsExp: typeof metadata.yearsExp === 'number' ? metadata.yearsExp : null,
+        height: typeof metadata.height === 'string' ? metadata.height : null,
+        weight: typeof metadata.weight === 'string' ? metadata.weight : null,
+        college: typeof metadata.college === 'string' ? metadata.college : null,
+      },
+      projection: getProjectedStats(player),
+      keyStats: getKeyStats(player.sport),
+      seasons: seasons.get(player.id) ?? [],
+      news,
+    });
+  } catch (error) {
+    log.error('Error fetching player', formatError(error));
+    return NextResponse.json(
+      { error: 'Failed to fetch player' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { players } from '@/lib/db/schema';
+import { players, draftPicks, adpRecords } from '@/lib/db/schema';
 import { auth } from '@/lib/auth';
-import { eq, and, ilike, or, sql, desc, asc } from 'drizzle-orm';
+import { eq, and, or, sql, desc, asc, gte, notInArray, inArray, getTableColumns } from 'drizzle-orm';
 import { logger, generateRequestId, formatError } from '@/lib/logger';
+import { getDraftAccess } from '@/lib/draft-access';
+import { getPositionFilter } from '@/lib/roster-slots';
+import { getLeaguePointsSql, getScoringTable } from '@/lib/scoring';
+import { getAdpTrends, ADP_SOURCES, type AdpFormat } from '@/lib/adp';
+import { searchPlayers } from '@/lib/player-search';
 
 const DEFAULT_PAGE_SIZE = 50;
 const MAX_PAGE_SIZE = 100;
@@ -13,13 +18,25 @@ const MAX_PAGE_SIZE = 100;
  *
  * Query params:
  * - sport: NBA, NFL, MLB (default: NBA)
- * - search: Search by player name
- * - position: Filter by position (PG, SG, SF, PF, C, G, F)
+ * - search: Fuzzy search by name, nickname or team, ignoring accents and small
+ *   typos; results come best match first unless sortBy is given
+ * - position: Filter by position or lineup slot (PG, G, UTIL; QB, FLEX, DST; SS, OF, SP...)
  * - team: Filter by team abbreviation
+ * - draftId: Exclude players already picked in this draft (must be the user's draft),
+ *   and score projectedPoints with the draft's league scoring
  * - page: Page number (default: 1)
  * - limit: Results per page (default: 50, max: 100)
- * - sortBy: adp, fullName, team, position (default: adp)
- * - sortOrder: asc, desc (default: asc for adp, asc for fullName)
+ * - minProjectedPoints: Only players projected for at least this many points
+ * - sortBy: adp, projectedPoints, fullName, team, position (default: adp)
+ * - sortOrder: asc, desc (default: desc for projectedPoints, asc otherwise)
+ * - adpSource: Use ADP from this source only (sleeper, espn, yahoo, or community for
+ *   FantasyBlock community ADP); sortBy=adp then sorts by it
+ * - adpFormat: Scoring format for adpTrend (default: the draft's, when draftId is set)
+ * - adpTeams: League size for adpTrend (default: the draft's, when draftId is set)
+ *
+ * Each player includes adpTrend: their latest ADP for the format, the change
+ * over the last week (positive when rising) and rising/falling/steady, or
+ * null without ADP history.
  */
 export async function GET(request: NextRequest) {
   const requestId = generateRequestId();
@@ -42,28 +59,51 @@ export async function GET(request: NextRequest) {
     const search = searchParams.get('search')?.trim();
     const position = searchParams.get('position')?.toUpperCase();
     const team = searchParams.get('team')?.toUpperCase();
+    const draftId = searchParams.get('draftId');
     const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10));
     const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('limit') || String(DEFAULT_PAGE_SIZE), 10)));
     const sortBy = searchParams.get('sortBy') || 'adp';
-    const sortOrder = searchParams.get('sortOrder') || 'asc';
+    const sortOrder = searchParams.get('sortOrder') || (sortBy === 'projectedPoints' ? 'desc' : 'asc');
+    const minProjectedPoints = searchParams.get('minProjectedPoints');
+    const adpSource = searchParams.get('adpSource')?.toLowerCase() || undefined;
+    let adpFormat = searchParams.get('adpFormat')?.toLowerCase() as AdpFormat | undefined;
+    let adpTeams = searchParams.get('adpTeams') ? parseInt(searchParams.get('adpTeams')!, 10) : undefined;
 
     const offset = (page - 1) * limit;
 
+    if (!['NBA', 'NFL', 'MLB'].includes(sport)) {
+      return NextResponse.json({ error: 'Invalid sport' }, { status: 400 });
+    }
+
+    if (adpSource && !(ADP_SOURCES as readonly string[]).includes(adpSource)) {
+      return NextResponse.json({ error: 'Invalid adpSource' }, { status: 400 });
+    }
+
+    if (adpFormat && !['standard', 'ppr', 'half_ppr', 'points', 'categories'].includes(adpFormat)) {
+      return NextResponse.json({ error: 'Invalid adpFormat' }, { status: 400 });
+    }
+
+    if (adpTeams !== undefined && !(adpTeams >= 2 && adpTeams <= 20)) {
+      return NextResponse.json({ error: 'Invalid adpTeams' }, { status: 400 });
+    }
+
     log.info('Fetching players', { sport, search, position, team, page, limit });
 
     // Build conditions
     const conditions = [eq(players.sport, sport)];
 
-    if (search) {
-      conditions.push(ilike(players.fullName, `%${search}%`));
-    }
-
     if (position) {
+      const positionFilter = getPositionFilter(sport, position);
+
+      if (!positionFilter) {
+        return NextResponse.json({ error: `Invalid position for ${sport}` }, { status: 400 });
+      }
+
       // Check both position and positions array
       conditions.push(
         or(
-          eq(players.position, position),
-          sql`${players.positions}::jsonb ? ${position}`
+          inArray(players.position, positionFilter),
+          sql`${players.positions}::jsonb ?| array[${sql.join(positionFilter.map(pos => sql`${pos}`), sql`, `)}]`
         )!
       );
     }
@@ -72,6 +112,40 @@ export async function GET(request: NextRequest) {
       conditions.push(eq(players.team, team));
     }
 
+    // Consensus projection, or the draft's league points when there is one
+    let projectedPoints = getLeaguePointsSql(null);
+
+    if (draftId) {
+      if (!draftId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+        return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+      }
+
+      const access = await getDraftAccess(draftId, session.user.id);
+      if (!access) {
+        return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+      }
+
+      projectedPoints = getLeaguePointsSql(getScoringTable(access.draft));
+      adpFormat ??= access.draft.scoringType;
+      adpTeams ??= access.draft.numTeams;
+
+      conditions.push(notInArray(
+        players.id,
+        db
+          .select({ playerId: draftPicks.playerId })
+          .from(draftPicks)
+          .where(eq(draftPicks.draftId, draftId))
+      ));
+    }
+
+    if (minProjectedPoints) {
+      const minPoints = Number(minProjectedPoints);
+      if (!Number.isFinite(minPoints)) {
+        return NextResponse.json({ error: 'Invalid minProjectedPoints' }, { status: 400 });
+      }
+      conditions.push(gte(projectedPoints, minPoints));
+    }
+
     // Build sort
     let orderByClause;
     const direction = sortOrder === 'desc' ? desc : asc;
@@ -86,33 +160,75 @@ export async function GET(request: NextRequest) {
       case 'position':
         orderByClause = direction(players.position);
         break;
+      case 'projectedPoints':
+        // Players without a projection go last either way
+        orderByClause = sql`${projectedPoints} ${sortOrder === 'desc' ? sql`DESC` : sql`ASC`} NULLS LAST`;
+        break;
       case 'adp':
       default:
-        // For ADP, nulls should be last
-        orderByClause = sql`${players.adp} ${sortOrder === 'desc' ? sql`DESC` : sql`ASC`} NULLS LAST`;
+        // For ADP, nulls should be last. A source's ADP prefers records for
+        // the format and league size asked for, like adpTrend does.
+        orderByClause = adpSource
+          ? sql`(
+            select ${adpRecords.adp} from ${adpRecords}
+            where ${adpRecords.playerId} = ${players.id} and ${adpRecords.source} = ${adpSource}
+            order by ${adpFormat ? sql`${adpRecords.format} = ${adpFormat} desc, ` : sql``}${adpTeams ? sql`${adpRecords.numTeams} = ${adpTeams} desc, ` : sql``}${adpRecords.recordedOn} desc
+            limit 1
+          ) ${sortOrder === 'desc' ? sql`DESC` : sql`ASC`} NULLS LAST`
+          : sql`${players.adp} ${sortOrder === 'desc' ? sql`DESC` : sql`ASC`} NULLS LAST`;
         break;
     }
 
-    // Execute query
-    const playerResults = await db
-      .select()
-      .from(players)
-      .where(and(...conditions))
-      .orderBy(orderByClause)
-      .limit(limit)
-      .offset(offset);
-
-    // Get total count for pagination
-    const [{ count }] = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(players)
-      .where(and(...conditions));
-
-    const totalCount = Number(count);
+    let playerResults;
+    let totalCount;
+
+    if (search) {
+      // Fuzzy matching happens here rather than in SQL, so match against every
+      // player the other filters allow and paginate the matches
+      const candidates = await db
+        .select({ ...getTableColumns(players), projectedPoints })
+        .from(players)
+        .where(and(...conditions))
+        .orderBy(orderByClause);
+
+      const matches = searchPlayers(candidates, search);
+      // Keep the requested order when there is one; relevance otherwise
+      const matched = new Set(matches.map(match => match.player));
+      const ordered = searchParams.has('sortBy')
+        ? candidates.filter(player => matched.has(player))
+        : [...matched];
+
+      playerResults = ordered.slice(offset, offset + limit);
+      totalCount = ordered.length;
+    } else {
+      // Execute query
+      playerResults = await db
+        .select({ ...getTableColumns(players), projectedPoints })
+        .from(players)
+        .where(and(...conditions))
+        .orderBy(orderByClause)
+        .limit(limit)
+        .offset(offset);
+
+      // Get total count for pagination
+      const [{ count }] = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(players)
+        .where(and(...conditions));
+
+      totalCount = Number(count);
+    }
+
     const totalPages = Math.ceil(totalCount / limit);
 
+    const adpTrends = await getAdpTrends(playerResults.map(player => player.id), {
+      format: adpFormat,
+      numTeams: adpTeams,
+      source: adpSource,
+    });
+
     return NextResponse.json({
-      players: playerResults,
+      players: playerResults.map(player => ({ ...player, adpTrend: adpTrends.get(player.id) ?? null })),
       pagination: {
         page,
         limit,
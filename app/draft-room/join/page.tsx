@@ -0,0 +1,66 @@
+'use client';
+
+import { useEffect, useRef, Suspense } from 'react';
+import { useSession } from '@/lib/auth-client';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { Card } from '@/components/ui/card';
+import { useJoinDraft } from '@/hooks/useDraft';
+
+function JoinDraftContent() {
+  const { data: session, isPending } = useSession();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const joinDraft = useJoinDraft();
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    if (isPending) return;
+
+    if (!session) {
+      const returnUrl = `/draft-room/join?token=${encodeURIComponent(token || '')}`;
+      router.push(`/login?from=${encodeURIComponent(returnUrl)}`);
+      return;
+    }
+
+    // Accept the invite once, then head to the draft
+    if (token && !attempted.current) {
+      attempted.current = true;
+      joinDraft.mutate(token, {
+        onSuccess: ({ draftId }) => router.replace(`/draft-room?draftId=${draftId}`),
+      });
+    }
+  }, [isPending, session, token, router, joinDraft]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <Card className="p-8 text-center max-w-md">
+        {!token ? (
+          <p className="text-zinc-900 font-medium">This invite link is missing its token</p>
+        ) : joinDraft.error ? (
+          <>
+            <p className="text-zinc-900 font-medium">{joinDraft.error.message}</p>
+            <Link href="/draft-room" className="text-sm text-orange-600 mt-2 inline-block">
+              Go to your drafts
+            </Link>
+          </>
+        ) : (
+          <p className="text-lg">Joining draft...</p>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+export default function JoinDraftPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    }>
+      <JoinDraftContent />
+    </Suspense>
+  );
+}
@@ -1,127 +1,459 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, Suspense } from 'react';
 import { useSession } from '@/lib/auth-client';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Clock, Users, Target, Lightbulb, Search } from 'lucide-react';
-
-interface Player {
-  id: string;
-  name: string;
-  position: string;
-  team: string;
-  rank: number;
-  projected: number;
-  drafted: boolean;
+import { Users, Target, Lightbulb, Search, Undo2, RefreshCw, Clock, ListOrdered, ChevronUp, ChevronDown, X, Plus, Check, AlertTriangle, Info } from 'lucide-react';
+import { getDraftSettings } from '@/lib/draft-settings';
+import { fillRosterSlots, getPlayerPositions, getRosterSlots } from '@/lib/roster-slots';
+import { formatCategoryLine } from '@/lib/mlb';
+import {
+  useDrafts,
+  useDraft,
+  useDraftPicks,
+  useAvailablePlayers,
+  useDraftRecommendations,
+  useCategoryRankings,
+  useMakePick,
+  useUndoPick,
+  useSimulatePicks,
+  useDraftEvents,
+  useDraftParticipants,
+  useClaimTeam,
+  useCreateInvite,
+  usePickClock,
+  useDraftQueue,
+  useUpdateDraftQueue,
+  usePlayerDetail,
+  type DraftViewer,
+} from '@/hooks/useDraft';
+import type { ClockState } from '@/lib/draft-clock';
+
+// Position filters offered for each sport
+const SPORT_POSITIONS: Record<string, string[]> = {
+  NBA: ['ALL', 'PG', 'SG', 'SF', 'PF', 'C'],
+  NFL: ['ALL', 'QB', 'RB', 'WR', 'TE', 'FLEX', 'K', 'DST'],
+  MLB: ['ALL', 'C', '1B', '2B', 'SS', '3B', 'OF', 'SP', 'RP'],
+};
+
+function DraftList() {
+  const { data, isLoading } = useDrafts();
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-zinc-900">Your Drafts</h1>
+          <Link href="/draft-setup">
+            <Button className="btn-firecrawl-orange">New Draft</Button>
+          </Link>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12 text-zinc-500">Loading drafts...</div>
+        ) : data?.drafts.length ? (
+          <div className="space-y-3">
+            {data.drafts.map(draft => (
+              <Link key={draft.id} href={`/draft-room?draftId=${draft.id}`}>
+                <Card className="p-4 hover:shadow-md transition-shadow mb-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-zinc-900">{draft.leagueName || `${draft.sport} ${draft.draftType} draft`}</p>
+                      <p className="text-sm text-zinc-600">
+                        {draft.numTeams} teams • Position {draft.draftPosition} • {draft.scoringType}
+                      </p>
+                    </div>
+                    <Badge variant="outline">{draft.status.replace('_', ' ')}</Badge>
+                  </div>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        ) : (
+          <Card className="p-8 text-center text-zinc-500">
+            <p>No drafts yet</p>
+            <p className="text-sm mt-1">Set up a draft to get started</p>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
 }
 
-interface DraftPick {
-  round: number;
-  pick: number;
-  teamIndex: number;
-  player?: Player;
+function LeagueMembers({ draftId, viewer }: { draftId: string; viewer: DraftViewer }) {
+  const [inviteEmail, setInviteEmail] = useState('');
+  const { data } = useDraftParticipants(draftId);
+  const claimTeam = useClaimTeam(draftId);
+  const createInvite = useCreateInvite(draftId);
+  const isCommissioner = viewer.role === 'commissioner';
+
+  const handleInvite = () => {
+    createInvite.mutate(
+      { email: inviteEmail.trim() || undefined },
+      { onSuccess: () => setInviteEmail('') }
+    );
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <Users className="w-5 h-5 text-orange-500" />
+        <h2 className="text-xl font-semibold">League</h2>
+      </div>
+
+      <div className="space-y-2">
+        {data?.participants.map(participant => (
+          <div key={participant.userId} className="flex items-center justify-between text-sm">
+            <span className="text-zinc-900">
+              {participant.displayName || (participant.isOwner ? 'Commissioner' : 'Member')}
+            </span>
+            <span className="text-zinc-500">
+              {participant.teamNumber ? `Team ${participant.teamNumber}` : 'No team yet'}
+              {participant.role === 'commissioner' && ' • Commish'}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {!viewer.isOwner && viewer.teamNumber === null && (
+        <div className="mt-4">
+          <p className="text-sm text-zinc-600 mb-2">Claim the team you are drafting for</p>
+          <div className="flex flex-wrap gap-2">
+            {data?.openTeams.map(team => (
+              <Button
+                key={team}
+                variant="outline"
+                size="sm"
+                disabled={claimTeam.isPending}
+                onClick={() => claimTeam.mutate({ teamNumber: team })}
+              >
+                Team {team}
+              </Button>
+            ))}
+          </div>
+          {claimTeam.error && (
+            <p className="text-sm text-red-600 mt-2">{claimTeam.error.message}</p>
+          )}
+        </div>
+      )}
+
+      {isCommissioner && (
+        <div className="mt-4 pt-4 border-t">
+          <p className="text-sm text-zinc-600 mb-2">Invite league members by email, or leave blank for a link</p>
+          <div className="flex gap-2">
+            <Input
+              type="email"
+              placeholder="friend@example.com"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+            />
+            <Button onClick={handleInvite} disabled={createInvite.isPending} className="bg-orange-500 hover:bg-orange-600">
+              Invite
+            </Button>
+          </div>
+          {createInvite.data && (
+            <div className="mt-2 text-xs text-zinc-600 break-all">
+              {createInvite.data.emailSent ? 'Invite sent. ' : ''}Share this link: {createInvite.data.invite.url}
+            </div>
+          )}
+          {createInvite.error && (
+            <p className="text-sm text-red-600 mt-2">{createInvite.error.message}</p>
+          )}
+        </div>
+      )}
+    </Card>
+  );
 }
 
-export default function DraftRoomPage() {
-  const { data: session, isPending } = useSession();
-  const router = useRouter();
-  
-  // Draft state
-  const [currentPick, setCurrentPick] = useState(1);
-  const [currentRound, setCurrentRound] = useState(1);
-  const [timeRemaining, setTimeRemaining] = useState(90); // 90 seconds per pick
+function PickClock({ draftId, clock, isCommissioner }: {
+  draftId: string;
+  clock: ClockState;
+  isCommissioner: boolean;
+}) {
+  const pickClock = usePickClock(draftId);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick once a second while the clock runs
+  useEffect(() => {
+    if (!clock.running) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [clock.running]);
+
+  const remaining = clock.deadline
+    ? Math.max(0, Math.ceil((new Date(clock.deadline).getTime() - now) / 1000))
+    : clock.remainingSeconds ?? clock.pickTimeSeconds ?? 0;
+  const minutes = Math.floor(remaining / 60);
+  const seconds = String(remaining % 60).padStart(2, '0');
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Clock className={`w-5 h-5 ${clock.running && remaining <= 10 ? 'text-red-500' : 'text-zinc-500'}`} />
+      <span className="text-sm font-medium text-zinc-900 tabular-nums">
+        {minutes}:{seconds}
+      </span>
+      {clock.paused && <span className="text-xs text-zinc-500">Paused</span>}
+      {isCommissioner && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => pickClock.mutate(clock.running ? 'pause' : 'resume')}
+          disabled={pickClock.isPending}
+        >
+          {clock.running ? 'Pause' : clock.paused ? 'Resume' : 'Start'}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function PlayerCard({ playerId, onClose }: { playerId: string; onClose: () => void }) {
+  const { data, isLoading, error } = usePlayerDetail(playerId);
+
+  if (isLoading || !data) {
+    return (
+      <Card className="p-6">
+        <p className="text-sm text-zinc-500">{error ? error.message : 'Loading player...'}</p>
+      </Card>
+    );
+  }
+
+  const { player, bio, keyStats, seasons, news } = data;
+  const stats = keyStats.filter(stat => seasons.some(season => season.perGame[stat] !== undefined));
+  const formatStat = (value: number) => (Math.abs(value) < 1 && value !== 0 ? value.toFixed(3) : value.toFixed(1));
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start justify-between mb-3">
+        <div>
+          <h2 className="text-xl font-semibold">{player.fullName}</h2>
+          <p className="text-sm text-zinc-600">
+            {player.position || '-'} • {player.team || 'FA'}
+            {player.injuryStatus && <span className="text-red-500 ml-1">({player.injuryStatus})</span>}
+          </p>
+          <p className="text-xs text-zinc-500">
+            {[
+              bio.age !== null && `Age ${bio.age}`,
+              bio.yearsExp !== null && `${bio.yearsExp} yrs exp`,
+              bio.height && `${bio.height} in`,
+              bio.weight && `${bio.weight} lbs`,
+              bio.college,
+            ].filter(Boolean).join(' • ')}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-zinc-400 hover:text-zinc-600" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {seasons.length > 0 && stats.length > 0 ? (
+        <table className="w-full text-xs mb-3">
+          <thead>
+            <tr className="text-zinc-500">
+              <th className="text-left font-medium">Season</th>
+              <th className="text-right font-medium">G</th>
+              {stats.map(stat => <th key={stat} className="text-right font-medium">{stat}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {seasons.map(season => (
+              <tr key={season.season} className="text-zinc-900">
+                <td>{season.season}</td>
+                <td className="text-right">{season.gamesPlayed ?? '-'}</td>
+                {stats.map(stat => {
+                  const change = season.change?.[stat];
+                  return (
+                    <td
+                      key={stat}
+                      className="text-right"
+                      title={change !== undefined ? `${change > 0 ? '+' : ''}${formatStat(change)} vs ${season.previousSeason}` : undefined}
+                    >
+                      {season.perGame[stat] !== undefined ? formatStat(season.perGame[stat]) : '-'}
+                      {change !== undefined && change !== 0 && (
+                        <span className={change > 0 ? 'text-green-600' : 'text-red-500'}>{change > 0 ? '▲' : '▼'}</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-sm text-zinc-500 mb-3">No season stats imported</p>
+      )}
+
+      {news.length > 0 && (
+        <div className="space-y-1">
+          {news.map(item => (
+            <p key={item.id} className="text-xs text-zinc-600">
+              {item.createdAt && <span className="text-zinc-400 mr-1">{new Date(item.createdAt).toLocaleDateString()}</span>}
+              {item.headline}
+            </p>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+function DraftRoom({ draftId }: { draftId: string }) {
+  const [searchInput, setSearchInput] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedPosition, setSelectedPosition] = useState('ALL');
-  
-  // Mock data - in real app this would come from API/database
-  const numTeams = 12;
-  const numRounds = 16;
-  const userTeamIndex = 5; // User is team 6 (0-indexed)
-  
-  // Mock players data
-  const [players, setPlayers] = useState<Player[]>([
-    { id: '1', name: 'Christian McCaffrey', position: 'RB', team: 'SF', rank: 1, projected: 285, drafted: false },
-    { id: '2', name: 'Austin Ekeler', position: 'RB', team: 'LAC', rank: 2, projected: 265, drafted: false },
-    { id: '3', name: 'Josh Allen', position: 'QB', team: 'BUF', rank: 3, projected: 315, drafted: false },
-    { id: '4', name: 'Cooper Kupp', position: 'WR', team: 'LAR', rank: 4, projected: 245, drafted: false },
-    { id: '5', name: 'Derrick Henry', position: 'RB', team: 'TEN', rank: 5, projected: 255, drafted: false },
-    { id: '6', name: 'Stefon Diggs', position: 'WR', team: 'BUF', rank: 6, projected: 235, drafted: false },
-    { id: '7', name: 'Davante Adams', position: 'WR', team: 'LV', rank: 7, projected: 230, drafted: false },
-    { id: '8', name: 'Travis Kelce', position: 'TE', team: 'KC', rank: 8, projected: 195, drafted: false },
-    { id: '9', name: 'Nick Chubb', position: 'RB', team: 'CLE', rank: 9, projected: 225, drafted: false },
-    { id: '10', name: 'Alvin Kamara', position: 'RB', team: 'NO', rank: 10, projected: 220, drafted: false },
-  ]);
-
-  const [draftBoard, setDraftBoard] = useState<DraftPick[]>([]);
-  const [userRoster, setUserRoster] = useState<Player[]>([]);
-
-  // Initialize draft board
+  const [sortBy, setSortBy] = useState<'adp' | 'projectedPoints'>('adp');
+  const [adpSource, setAdpSource] = useState('');
+  const [puntCategories, setPuntCategories] = useState<string[]>([]);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [dismissedAlerts, setDismissedAlerts] = useState<string[]>([]);
+  const [selectedPlayerId, setSelectedPlayerId] = useState<string | null>(null);
+
+  const { data: draftData, isLoading: draftLoading, error: draftError } = useDraft(draftId);
+  const { data: picksData } = useDraftPicks(draftId);
+  const makePick = useMakePick(draftId);
+  const undoPick = useUndoPick(draftId);
+  const simulatePicks = useSimulatePicks(draftId);
+  const { connected, playerStatusEvents } = useDraftEvents(draftId);
+  const { data: queueData } = useDraftQueue(draftId);
+  const updateQueue = useUpdateDraftQueue(draftId);
+
+  const draft = draftData?.draft;
+  const onTheClock = draftData?.onTheClock ?? null;
+  const picks = useMemo(() => picksData?.picks ?? [], [picksData]);
+  const isMock = draft ? getDraftSettings(draft).mockDraft === true : false;
+  const isAuction = draft?.draftType === 'auction';
+  const isComplete = draft?.status === 'completed';
+  const myTeam = draftData?.viewer.teamNumber ?? null;
+  const isCommissioner = draftData?.viewer.role === 'commissioner';
+  const isUserTurn = !!draft && !isAuction && myTeam !== null && onTheClock?.teamNumber === myTeam;
+
+  const { data: playersData, isFetching: playersLoading } = useAvailablePlayers(draftId, {
+    sport: draft?.sport,
+    search: searchTerm,
+    position: selectedPosition === 'ALL' ? undefined : selectedPosition,
+    sortBy,
+    adpSource: adpSource || undefined,
+  });
+
+  const {
+    data: recommendations,
+    isFetching: recommendationsLoading,
+    isStale: recommendationsStale,
+    error: recommendationsError,
+    refetch: refetchRecommendations,
+    streamedRecommendations,
+  } = useDraftRecommendations(draftId, isUserTurn, {
+    puntCategories,
+    adpSource: adpSource || undefined,
+  });
+  // Show picks as they stream in, replacing the last set once the first arrives
+  const streamingRecommendations = recommendationsLoading && streamedRecommendations.length > 0;
+  const shownRecommendations = streamingRecommendations ? streamedRecommendations : recommendations?.recommendations;
+
+  const isCategoryLeague = draft?.scoringType === 'categories' && draft.sport !== 'NFL';
+  const { data: categoryData } = useCategoryRankings(draftId, puntCategories, isCategoryLeague);
+
+  // Debounce player search
   useEffect(() => {
-    const board: DraftPick[] = [];
-    for (let round = 1; round <= numRounds; round++) {
-      for (let pick = 1; pick <= numTeams; pick++) {
-        const teamIndex = round % 2 === 1 ? pick - 1 : numTeams - pick; // Snake draft logic
-        board.push({
-          round,
-          pick: (round - 1) * numTeams + pick,
-          teamIndex
-        });
-      }
-    }
-    setDraftBoard(board);
-  }, []);
+    const timeout = setTimeout(() => setSearchTerm(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
 
-  // Timer countdown
+  // Mock drafts: let the CPU teams pick whenever one of them is on the clock
   useEffect(() => {
-    const timer = setInterval(() => {
-      setTimeRemaining(prev => prev > 0 ? prev - 1 : 90);
-    }, 1000);
-    return () => clearInterval(timer);
-  }, [currentPick]);
-
-  // Allow access without authentication for demo purposes
-  // Users can explore the draft UI and later be prompted to register
-
-  const isUserTurn = draftBoard.find(pick => pick.pick === currentPick)?.teamIndex === userTeamIndex;
-  
-  const positions = ['ALL', 'QB', 'RB', 'WR', 'TE', 'K', 'DST'];
-
-  const filteredPlayers = players.filter(player => {
-    const matchesSearch = player.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         player.team.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesPosition = selectedPosition === 'ALL' || player.position === selectedPosition;
-    return !player.drafted && matchesSearch && matchesPosition;
-  });
+    if (isMock && onTheClock && !isUserTurn && !simulatePicks.isPending && !simulatePicks.isError) {
+      simulatePicks.mutate();
+    }
+  }, [isMock, onTheClock, isUserTurn, simulatePicks]);
+
+  const picksBySlot = useMemo(
+    () => new Map(picks.map(pick => [pick.pickNumber, pick])),
+    [picks]
+  );
+
+  const userRoster = picks.filter(pick => pick.teamNumber === myTeam);
+  // Fit the user's picks into the draft's lineup slots
+  const lineup = draft
+    ? fillRosterSlots(
+      draft.sport,
+      getRosterSlots(draft),
+      userRoster.flatMap(pick => pick.player ? [{ ...pick.player, pick }] : [])
+    )
+    : null;
+  const recentPicks = [...picks].sort((a, b) => b.pickNumber - a.pickNumber).slice(0, 10);
+  const positions = SPORT_POSITIONS[draft?.sport ?? 'NBA'] ?? SPORT_POSITIONS.NBA;
+  // Only the team on the clock may pick, though the commissioner can pick for anyone outside mock drafts
+  const canPick = !!onTheClock && !isAuction && !isComplete && !makePick.isPending &&
+    (isUserTurn || (isCommissioner && !isMock));
 
-  const aiRecommendations = filteredPlayers.slice(0, 3); // Top 3 available players as AI suggestions
-
-  const handleDraftPlayer = (player: Player) => {
-    if (!isUserTurn) return;
-    
-    // Update player as drafted
-    setPlayers(prev => prev.map(p => 
-      p.id === player.id ? { ...p, drafted: true } : p
-    ));
-    
-    // Add to user roster
-    setUserRoster(prev => [...prev, player]);
-    
-    // Move to next pick
-    setCurrentPick(prev => prev + 1);
-    setTimeRemaining(90);
+  const handleDraftPlayer = (playerId: string) => {
+    if (!canPick || !onTheClock) return;
+
+    setActionError(null);
+    makePick.mutate(
+      { playerId, pickNumber: onTheClock.pickNumber, teamNumber: onTheClock.teamNumber },
+      { onError: error => setActionError(error.message) }
+    );
+  };
+
+  const queue = queueData?.queue ?? [];
+  const queuedIds = new Set(queue.map(player => player.id));
+
+  // Status changes for players on the user's roster or in their queue
+  const statusAlerts = playerStatusEvents.filter(event =>
+    !dismissedAlerts.includes(event.id)
+    && (queuedIds.has(event.playerId) || userRoster.some(pick => pick.playerId === event.playerId))
+  );
+
+  const saveQueue = (playerIds: string[]) => {
+    setActionError(null);
+    updateQueue.mutate(playerIds, { onError: error => setActionError(error.message) });
   };
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  const handleToggleQueued = (playerId: string) => {
+    const ids = queue.map(player => player.id);
+    saveQueue(queuedIds.has(playerId) ? ids.filter(id => id !== playerId) : [...ids, playerId]);
   };
 
+  const handleMoveQueued = (index: number, offset: -1 | 1) => {
+    const ids = queue.map(player => player.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    saveQueue(ids);
+  };
+
+  const handleUndo = () => {
+    setActionError(null);
+    undoPick.mutate(undefined, { onError: error => setActionError(error.message) });
+  };
+
+  if (draftLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-lg">Loading draft...</div>
+      </div>
+    );
+  }
+
+  if (draftError || !draft) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Card className="p-8 text-center">
+          <p className="text-zinc-900 font-medium">{draftError?.message || 'Draft not found'}</p>
+          <Link href="/draft-room" className="text-sm text-orange-600 mt-2 inline-block">
+            Back to your drafts
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  const rounds = Array.from({ length: draft.rosterSize }, (_, i) => i + 1);
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -129,23 +461,41 @@ export default function DraftRoomPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
           <div className="flex items-center justify-between">
             <div>
-              <h1 className="text-2xl font-bold text-zinc-900">Draft Room</h1>
-              <p className="text-sm text-zinc-600">Round {currentRound} • Pick {currentPick}</p>
+              <h1 className="text-2xl font-bold text-zinc-900">{draft.leagueName || 'Draft Room'}</h1>
+              <p className="text-sm text-zinc-600">
+                {isComplete
+                  ? 'Draft complete'
+                  : onTheClock
+                    ? `Round ${onTheClock.round} • Pick ${onTheClock.pickNumber} • Team ${onTheClock.teamNumber} on the clock`
+                    : `${draft.sport} ${draft.draftType} draft`}
+              </p>
             </div>
-            
+
             <div className="flex items-center space-x-6">
+              {draftData.clock?.pickTimeSeconds && onTheClock && !isComplete && (
+                <PickClock draftId={draftId} clock={draftData.clock} isCommissioner={isCommissioner} />
+              )}
+
               <div className="flex items-center space-x-2">
-                <Clock className="w-5 h-5 text-orange-500" />
-                <span className={`text-lg font-mono ${timeRemaining < 30 ? 'text-red-500' : 'text-zinc-900'}`}>
-                  {formatTime(timeRemaining)}
-                </span>
+                <span className={`w-2 h-2 rounded-full ${connected ? 'bg-green-500' : 'bg-zinc-300'}`} />
+                <span className="text-sm text-zinc-600">{connected ? 'Live' : 'Offline'}</span>
               </div>
-              
+
               <div className="flex items-center space-x-2">
                 <Users className="w-5 h-5 text-zinc-500" />
-                <span className="text-sm text-zinc-600">{numTeams} Teams</span>
+                <span className="text-sm text-zinc-600">{draft.numTeams} Teams</span>
               </div>
-              
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleUndo}
+                disabled={undoPick.isPending || picks.length === 0}
+              >
+                <Undo2 className="w-4 h-4 mr-1" />
+                Undo
+              </Button>
+
               {isUserTurn && (
                 <Badge className="bg-orange-500 text-white">
                   Your Turn!
@@ -153,54 +503,156 @@ export default function DraftRoomPage() {
               )}
             </div>
           </div>
+          {actionError && (
+            <p className="text-sm text-red-600 mt-2">{actionError}</p>
+          )}
+          {statusAlerts.map(alert => (
+            <div key={alert.id} className="flex items-center justify-between mt-2 px-3 py-2 rounded-md bg-amber-50 border border-amber-200">
+              <span className="flex items-center text-sm text-amber-800">
+                <AlertTriangle className="w-4 h-4 mr-2" />
+                {alert.headline}
+                <span className="ml-1 text-amber-600">
+                  ({queuedIds.has(alert.playerId) ? 'in your queue' : 'on your roster'})
+                </span>
+              </span>
+              <button
+                onClick={() => setDismissedAlerts(previous => [...previous, alert.id])}
+                className="text-amber-600 hover:text-amber-800"
+                title="Dismiss"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
         </div>
       </div>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          
+
           {/* Left Column - AI Recommendations & Available Players */}
           <div className="lg:col-span-2 space-y-6">
-            
+
             {/* AI Recommendations */}
             <Card className="p-6">
-              <div className="flex items-center space-x-2 mb-4">
-                <Lightbulb className="w-5 h-5 text-orange-500" />
-                <h2 className="text-xl font-semibold">AI Recommendations</h2>
-                {isUserTurn && <Badge variant="outline">Your Turn</Badge>}
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center space-x-2">
+                  <Lightbulb className="w-5 h-5 text-orange-500" />
+                  <h2 className="text-xl font-semibold">AI Recommendations</h2>
+                  {isUserTurn && <Badge variant="outline">Your Turn</Badge>}
+                </div>
+                {isUserTurn && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => refetchRecommendations()}
+                    disabled={recommendationsLoading}
+                  >
+                    <RefreshCw className={`w-4 h-4 ${recommendationsLoading ? 'animate-spin' : ''}`} />
+                  </Button>
+                )}
               </div>
-              
-              {isUserTurn ? (
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  {aiRecommendations.map((player, index) => (
-                    <div
-                      key={player.id}
-                      className="bg-gradient-to-r from-orange-50 to-yellow-50 border border-orange-200 rounded-lg p-4 cursor-pointer hover:shadow-md transition-shadow"
-                      onClick={() => handleDraftPlayer(player)}
-                    >
-                      <div className="flex items-center justify-between mb-2">
-                        <Badge className={`${index === 0 ? 'bg-orange-500' : index === 1 ? 'bg-orange-400' : 'bg-orange-300'} text-white`}>
-                          #{index + 1} Pick
-                        </Badge>
-                        <span className="text-xs text-zinc-500">#{player.rank}</span>
-                      </div>
-                      <h3 className="font-semibold text-zinc-900">{player.name}</h3>
-                      <p className="text-sm text-zinc-600">{player.position} • {player.team}</p>
-                      <p className="text-xs text-orange-600 mt-1">Proj: {player.projected} pts</p>
-                      {index === 0 && (
-                        <p className="text-xs text-orange-700 mt-2 font-medium">
-                          🎯 Best value at this pick position
-                        </p>
-                      )}
-                    </div>
-                  ))}
+
+              {/* Category leagues: the team's z-score profile, and categories to punt */}
+              {isCategoryLeague && categoryData && (
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                  <span className="text-sm text-zinc-600">Punt:</span>
+                  {categoryData.categories.map(category => {
+                    const punted = puntCategories.includes(category);
+                    const value = categoryData.team?.profile[category];
+                    return (
+                      <Button
+                        key={category}
+                        variant={punted ? "default" : "outline"}
+                        size="sm"
+                        title={punted ? `Count ${category} again` : `Punt ${category}`}
+                        onClick={() => setPuntCategories(punted
+                          ? puntCategories.filter(name => name !== category)
+                          : [...puntCategories, category])}
+                        className={punted ? "bg-zinc-700 hover:bg-zinc-800 line-through" : ""}
+                      >
+                        {category}
+                        {value !== undefined && (
+                          <span className={`ml-1 text-xs ${value < 0 ? 'text-red-500' : 'text-green-600'}`}>
+                            {value >= 0 ? '+' : ''}{value.toFixed(1)}
+                          </span>
+                        )}
+                      </Button>
+                    );
+                  })}
                 </div>
-              ) : (
+              )}
+
+              {isAuction ? (
                 <div className="text-center py-8 text-zinc-500">
-                  <p>Waiting for Team {(draftBoard.find(pick => pick.pick === currentPick)?.teamIndex || 0) + 1} to pick...</p>
-                  <p className="text-sm mt-2">AI recommendations will appear when it's your turn</p>
+                  <p>Auction bidding happens through nominations and bids</p>
+                  <p className="text-sm mt-2">Sold players appear on the board as they are won</p>
                 </div>
-              )}
+              ) : !isUserTurn ? (
+                <div className="text-center py-8 text-zinc-500">
+                  <p>
+                    {isComplete
+                      ? 'The draft is over'
+                      : `Waiting for Team ${onTheClock?.teamNumber ?? '-'} to pick...`}
+                  </p>
+                  {!isComplete && (
+                    <p className="text-sm mt-2">AI recommendations will appear when it's your turn</p>
+                  )}
+                </div>
+              ) : recommendationsLoading && !shownRecommendations ? (
+                <div className="text-center py-8 text-zinc-500">Analyzing the board...</div>
+              ) : recommendationsError ? (
+                <div className="text-center py-8 text-zinc-500">
+                  <p>{recommendationsError.message}</p>
+                </div>
+              ) : shownRecommendations ? (
+                <div className="space-y-4">
+                  {streamingRecommendations || !recommendations ? (
+                    <p className="text-sm text-zinc-500">Analyzing the board...</p>
+                  ) : (
+                    <>
+                      <p className="text-sm text-zinc-600">{recommendations.strategy}</p>
+                      {recommendationsStale && (
+                        <p className="text-xs text-amber-600">The board has changed since these were made; refresh for new picks</p>
+                      )}
+                      {recommendations.source === 'fallback' && (
+                        <p className="text-xs text-zinc-500">AI was unavailable, so these are ranked by ADP and projected value</p>
+                      )}
+                    </>
+                  )}
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {shownRecommendations.slice(0, 3).map((rec, index) => (
+                      <div
+                        key={rec.playerId}
+                        className="bg-gradient-to-r from-orange-50 to-yellow-50 border border-orange-200 rounded-lg p-4 cursor-pointer hover:shadow-md transition-shadow"
+                        onClick={() => handleDraftPlayer(rec.playerId)}
+                      >
+                        <div className="flex items-center justify-between mb-2">
+                          <Badge className={`${index === 0 ? 'bg-orange-500' : index === 1 ? 'bg-orange-400' : 'bg-orange-300'} text-white`}>
+                            #{index + 1} Pick
+                          </Badge>
+                          <span className="text-xs text-zinc-500">{rec.score}/100</span>
+                        </div>
+                        <h3 className="font-semibold text-zinc-900">{rec.playerName}</h3>
+                        <p className="text-sm text-zinc-600">{rec.position} • {rec.team || 'FA'}</p>
+                        <p className="text-xs text-orange-700 mt-2">{rec.reasoning}</p>
+                        {rec.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {rec.tags.map(tag => (
+                              <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  {!streamingRecommendations && recommendations && recommendations.rosterAnalysis.needs.length > 0 && (
+                    <p className="text-xs text-zinc-500">
+                      Needs: {recommendations.rosterAnalysis.needs.join(', ')}
+                    </p>
+                  )}
+                </div>
+              ) : null}
             </Card>
 
             {/* Available Players */}
@@ -208,12 +660,28 @@ export default function DraftRoomPage() {
               <div className="flex items-center justify-between mb-4">
                 <h2 className="text-xl font-semibold">Available Players</h2>
                 <div className="flex items-center space-x-2">
+                  <select
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+                    value={sortBy}
+                    onChange={(e) => setSortBy(e.target.value as 'adp' | 'projectedPoints')}
+                  >
+                    <option value="adp">Sort by ADP</option>
+                    <option value="projectedPoints">Sort by Projection</option>
+                  </select>
+                  <select
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+                    value={adpSource}
+                    onChange={(e) => setAdpSource(e.target.value)}
+                  >
+                    <option value="">Market ADP</option>
+                    <option value="community">Community ADP</option>
+                  </select>
                   <div className="relative">
                     <Search className="w-4 h-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-zinc-400" />
                     <Input
                       placeholder="Search players..."
-                      value={searchTerm}
-                      onChange={(e) => setSearchTerm(e.target.value)}
+                      value={searchInput}
+                      onChange={(e) => setSearchInput(e.target.value)}
                       className="pl-10 w-64"
                     />
                   </div>
@@ -221,7 +689,7 @@ export default function DraftRoomPage() {
               </div>
 
               {/* Position Filter */}
-              <div className="flex space-x-2 mb-4">
+              <div className="flex flex-wrap gap-2 mb-4">
                 {positions.map(pos => (
                   <Button
                     key={pos}
@@ -236,57 +704,130 @@ export default function DraftRoomPage() {
               </div>
 
               {/* Players List */}
-              <div className="space-y-2 max-h-96 overflow-y-auto">
-                {filteredPlayers.slice(0, 20).map((player, index) => (
+              <div className={`space-y-2 max-h-96 overflow-y-auto ${playersLoading ? 'opacity-60' : ''}`}>
+                {playersData?.players.length ? playersData.players.map(player => (
                   <div
                     key={player.id}
                     className={`flex items-center justify-between p-3 rounded-lg border hover:bg-gray-50 transition-colors ${
-                      isUserTurn ? 'cursor-pointer hover:border-orange-300' : ''
+                      canPick ? 'cursor-pointer hover:border-orange-300' : ''
                     }`}
-                    onClick={() => isUserTurn && handleDraftPlayer(player)}
+                    onClick={() => handleDraftPlayer(player.id)}
                   >
                     <div className="flex items-center space-x-3">
-                      <span className="text-sm text-zinc-500 w-8">#{player.rank}</span>
+                      <span
+                        className="text-sm text-zinc-500 w-14"
+                        title={player.adpTrend && player.adpTrend.change !== null
+                          ? `ADP ${player.adpTrend.adp}, ${player.adpTrend.change > 0 ? 'up' : 'down'} ${Math.abs(player.adpTrend.change)} over the last week`
+                          : undefined}
+                      >
+                        {player.adp ? `#${player.adp}` : '-'}
+                        {player.adpTrend?.trend === 'rising' && <span className="text-green-600 ml-1">▲</span>}
+                        {player.adpTrend?.trend === 'falling' && <span className="text-red-500 ml-1">▼</span>}
+                      </span>
                       <div>
-                        <p className="font-medium text-zinc-900">{player.name}</p>
-                        <p className="text-sm text-zinc-600">{player.position} • {player.team}</p>
+                        <p className="font-medium text-zinc-900">{player.fullName}</p>
+                        <p className="text-sm text-zinc-600">
+                          {player.position || '-'} • {player.team || 'FA'}
+                          {player.injuryStatus && (
+                            <span className="text-red-500 ml-1">({player.injuryStatus})</span>
+                          )}
+                        </p>
+                        {draft.sport === 'MLB' && formatCategoryLine(player) && (
+                          <p className="text-xs text-zinc-500">{formatCategoryLine(player)}</p>
+                        )}
                       </div>
                     </div>
-                    <div className="text-right">
-                      <p className="text-sm font-medium text-zinc-900">{player.projected} pts</p>
-                      {isUserTurn && index < 3 && (
-                        <Badge variant="outline" className="text-xs mt-1">
-                          AI Suggested
-                        </Badge>
-                      )}
+                    <div className="flex items-center space-x-3">
+                      <div className="text-right">
+                        {player.projectedPoints !== null && (
+                          <p className="text-sm font-medium text-zinc-900">{player.projectedPoints} pts</p>
+                        )}
+                        {recommendations?.recommendations.some(rec => rec.playerId === player.id) && isUserTurn && (
+                          <Badge variant="outline" className="text-xs mt-1">
+                            AI Suggested
+                          </Badge>
+                        )}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Player card"
+                        onClick={event => {
+                          event.stopPropagation();
+                          setSelectedPlayerId(player.id);
+                        }}
+                      >
+                        <Info className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title={queuedIds.has(player.id) ? 'Remove from queue' : 'Add to queue'}
+                        disabled={updateQueue.isPending}
+                        onClick={event => {
+                          event.stopPropagation();
+                          handleToggleQueued(player.id);
+                        }}
+                      >
+                        {queuedIds.has(player.id)
+                          ? <Check className="w-4 h-4 text-orange-500" />
+                          : <Plus className="w-4 h-4" />}
+                      </Button>
                     </div>
                   </div>
-                ))}
+                )) : (
+                  <div className="text-center py-6 text-zinc-500">
+                    {playersLoading ? 'Loading players...' : 'No players found'}
+                  </div>
+                )}
               </div>
             </Card>
           </div>
 
-          {/* Right Column - Draft Board & User Roster */}
+          {/* Right Column - User Roster & Recent Picks */}
           <div className="space-y-6">
-            
+
+            {selectedPlayerId && (
+              <PlayerCard playerId={selectedPlayerId} onClose={() => setSelectedPlayerId(null)} />
+            )}
+
             {/* User Roster */}
             <Card className="p-6">
               <div className="flex items-center space-x-2 mb-4">
                 <Target className="w-5 h-5 text-orange-500" />
                 <h2 className="text-xl font-semibold">Your Team</h2>
               </div>
-              
-              {userRoster.length > 0 ? (
+
+              {userRoster.length > 0 && lineup ? (
                 <div className="space-y-2">
-                  {userRoster.map((player, index) => (
-                    <div key={player.id} className="flex items-center justify-between p-2 bg-orange-50 rounded-lg">
-                      <div>
-                        <p className="font-medium text-zinc-900">{player.name}</p>
-                        <p className="text-sm text-zinc-600">{player.position} • {player.team}</p>
+                  {[
+                    ...lineup.slots,
+                    ...lineup.overflow.map(player => ({ slot: '-', player })),
+                  ].map(({ slot, player }, index) => (
+                    <div
+                      key={player?.pick.id ?? `${slot}-${index}`}
+                      className={`flex items-center justify-between p-2 rounded-lg ${player ? 'bg-orange-50' : 'border border-dashed'}`}
+                    >
+                      <div className="flex items-center space-x-3">
+                        <span className="text-xs font-medium text-zinc-500 w-10">{slot}</span>
+                        {player ? (
+                          <div>
+                            <p className="font-medium text-zinc-900">{player.fullName}</p>
+                            <p className="text-sm text-zinc-600">
+                              {getPlayerPositions(player).join('/') || '-'} • {player.team || 'FA'}
+                            </p>
+                          </div>
+                        ) : (
+                          <p className="text-sm text-zinc-400">Empty</p>
+                        )}
                       </div>
-                      <Badge className="bg-orange-500 text-white">
-                        Round {index + 1}
-                      </Badge>
+                      {player && (
+                        <Badge className="bg-orange-500 text-white">
+                          {player.pick.isKeeper
+                            ? 'Keeper'
+                            : player.pick.price !== null ? `$${player.pick.price}` : `Round ${player.pick.round}`}
+                        </Badge>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -298,27 +839,167 @@ export default function DraftRoomPage() {
               )}
             </Card>
 
-            {/* Mini Draft Board */}
+            {/* Draft Queue */}
+            <Card className="p-6">
+              <div className="flex items-center space-x-2 mb-4">
+                <ListOrdered className="w-5 h-5 text-orange-500" />
+                <h2 className="text-xl font-semibold">Your Queue</h2>
+              </div>
+
+              {queue.length > 0 ? (
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {queue.map((player, index) => (
+                    <div key={player.id} className="flex items-center justify-between p-2 rounded-lg border">
+                      <div
+                        className={`flex items-center space-x-2 ${canPick ? 'cursor-pointer' : ''}`}
+                        onClick={() => handleDraftPlayer(player.id)}
+                      >
+                        <span className="text-sm text-zinc-500 w-5">{index + 1}</span>
+                        <div>
+                          <p className="text-sm font-medium text-zinc-900">{player.fullName}</p>
+                          <p className="text-xs text-zinc-600">{player.position || '-'} • {player.team || 'FA'}</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Move up"
+                          disabled={index === 0 || updateQueue.isPending}
+                          onClick={() => handleMoveQueued(index, -1)}
+                        >
+                          <ChevronUp className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Move down"
+                          disabled={index === queue.length - 1 || updateQueue.isPending}
+                          onClick={() => handleMoveQueued(index, 1)}
+                        >
+                          <ChevronDown className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Remove from queue"
+                          disabled={updateQueue.isPending}
+                          onClick={() => handleToggleQueued(player.id)}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-center py-6 text-zinc-500">
+                  <p>No players queued</p>
+                  <p className="text-sm mt-1">Auto-picks take the top player in your queue</p>
+                </div>
+              )}
+            </Card>
+
+            {/* League Members - shared drafts only */}
+            {!isMock && <LeagueMembers draftId={draftId} viewer={draftData.viewer} />}
+
+            {/* Recent Picks */}
             <Card className="p-6">
               <h2 className="text-xl font-semibold mb-4">Recent Picks</h2>
               <div className="space-y-2 max-h-64 overflow-y-auto">
-                {draftBoard.slice(0, currentPick - 1).reverse().slice(0, 10).map((pick, index) => (
-                  <div key={`${pick.round}-${pick.pick}`} className="flex items-center justify-between p-2 text-sm">
+                {recentPicks.length > 0 ? recentPicks.map(pick => (
+                  <div key={pick.id} className="flex items-center justify-between p-2 text-sm">
                     <span className="text-zinc-600">
-                      {pick.round}.{pick.pick} Team {pick.teamIndex + 1}
+                      {pick.round}.{pick.pickInRound} Team {pick.teamNumber}
                     </span>
-                    {pick.player ? (
-                      <span className="font-medium">{pick.player.name}</span>
-                    ) : (
-                      <span className="text-zinc-400">-</span>
-                    )}
+                    <span className="font-medium">{pick.player?.fullName ?? '-'}</span>
                   </div>
-                ))}
+                )) : (
+                  <p className="text-sm text-zinc-400 text-center py-4">No picks yet</p>
+                )}
               </div>
             </Card>
           </div>
         </div>
+
+        {/* Draft Board */}
+        {!isAuction && (
+          <Card className="p-6 mt-6">
+            <h2 className="text-xl font-semibold mb-4">Draft Board</h2>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs border-collapse">
+                <tbody>
+                  {rounds.map(round => (
+                    <tr key={round}>
+                      <td className="p-2 font-medium text-zinc-500 whitespace-nowrap">R{round}</td>
+                      {draftData.order.filter(slot => slot.round === round).map(slot => {
+                        const pick = picksBySlot.get(slot.pickNumber);
+                        const isCurrent = onTheClock?.pickNumber === slot.pickNumber;
+                        const isUserSlot = slot.teamNumber === myTeam;
+
+                        return (
+                          <td
+                            key={slot.pickNumber}
+                            className={`p-2 border min-w-[96px] align-top ${
+                              isCurrent ? 'bg-orange-100 border-orange-400' : isUserSlot ? 'bg-orange-50' : ''
+                            }`}
+                          >
+                            <div className="text-zinc-400">
+                              {slot.pickNumber} • T{slot.teamNumber}
+                              {slot.teamNumber !== slot.originalTeamNumber && ` (from T${slot.originalTeamNumber})`}
+                            </div>
+                            <div className="font-medium text-zinc-900 truncate">
+                              {pick?.player?.fullName ?? ''}
+                            </div>
+                            {pick?.player?.position && (
+                              <div className="text-zinc-500">{pick.player.position}{pick.isKeeper ? ' • K' : ''}{pick.isAutoPick ? ' • Auto' : ''}</div>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+function DraftRoomContent() {
+  const { data: session, isPending } = useSession();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const draftId = searchParams.get('draftId');
+
+  useEffect(() => {
+    if (!isPending && !session) {
+      router.push('/login');
+    }
+  }, [isPending, session, router]);
+
+  if (isPending || !session) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  return draftId ? <DraftRoom draftId={draftId} /> : <DraftList />;
+}
+
+export default function DraftRoomPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    }>
+      <DraftRoomContent />
+    </Suspense>
+  );
+}
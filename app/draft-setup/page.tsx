@@ -7,6 +7,14 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import Link from 'next/link';
+import { useCreateDraft } from '@/hooks/useDraft';
+import {
+  getDefaultRosterSlots,
+  getDraftedSlotCount,
+  getSportRosterSlots,
+  type RosterSlots,
+  type Sport,
+} from '@/lib/roster-slots';
 
 export default function DraftSetupPage() {
   const { data: session, isPending } = useSession();
@@ -19,6 +27,8 @@ export default function DraftSetupPage() {
     draftPosition: 1,
     scoringType: 'standard'
   });
+  const [customRosterSlots, setCustomRosterSlots] = useState<RosterSlots | null>(null); // Null keeps the sport's defaults
+  const createDraft = useCreateDraft();
 
   // Redirect to login if not authenticated
   if (isPending) {
@@ -82,14 +92,53 @@ export default function DraftSetupPage() {
     }
   ];
 
+  const sportKey = selectedSport ? selectedSport.toUpperCase() as Sport : null;
+  const rosterSlots = customRosterSlots ?? (sportKey ? getDefaultRosterSlots(sportKey, 13) : null);
+
+  // Football leagues score receptions; basketball and baseball use points or categories
+  const scoringTypes = selectedSport === 'nfl'
+    ? [
+      { value: 'standard', label: 'Standard' },
+      { value: 'ppr', label: 'PPR (Point Per Reception)' },
+      { value: 'half_ppr', label: 'Half PPR' },
+    ]
+    : [
+      { value: 'points', label: 'Points' },
+      { value: 'categories', label: selectedSport === 'mlb' ? 'Categories (5x5 Roto)' : 'Categories' },
+    ];
+
+  const handleSelectSport = (sportId: string) => {
+    setSelectedSport(sportId);
+    setCustomRosterSlots(null);
+    setLeagueSettings({
+      ...leagueSettings,
+      scoringType: sportId === 'nfl' ? 'ppr' : sportId === 'mlb' ? 'categories' : 'points',
+    });
+  };
+
   const handleContinue = () => {
     if (!selectedSport || !selectedDraftType) {
       alert('Please select both sport and draft type');
       return;
     }
-    
-    // TODO: Save draft settings and navigate to draft room
-    router.push('/draft-room');
+
+    createDraft.mutate(
+      {
+        sport: selectedSport.toUpperCase() as 'NBA' | 'NFL' | 'MLB',
+        draftType: selectedDraftType as 'snake' | 'auction' | 'linear',
+        leagueName: leagueSettings.name || undefined,
+        numTeams: leagueSettings.teams,
+        draftPosition: leagueSettings.draftPosition,
+        scoringType: leagueSettings.scoringType,
+        ...(customRosterSlots && {
+          rosterSize: getDraftedSlotCount(customRosterSlots),
+          settings: { rosterSlots: customRosterSlots },
+        }),
+      },
+      {
+        onSuccess: ({ draft }) => router.push(`/draft-room?draftId=${draft.id}`),
+      }
+    );
   };
 
   return (
@@ -144,7 +193,7 @@ export default function DraftSetupPage() {
                     ? 'ring-2 ring-orange-500 bg-orange-50'
                     : 'hover:shadow-md'
                 }`}
-                onClick={() => setSelectedSport(sport.id)}
+                onClick={() => handleSelectSport(sport.id)}
               >
                 <div className="text-center">
                   <div className="w-16 h-16 bg-orange-100 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -243,15 +292,46 @@ export default function DraftSetupPage() {
                   value={leagueSettings.scoringType}
                   onChange={(e) => setLeagueSettings({...leagueSettings, scoringType: e.target.value})}
                 >
-                  <option value="standard">Standard</option>
-                  <option value="ppr">PPR (Point Per Reception)</option>
-                  <option value="half-ppr">Half PPR</option>
+                  {scoringTypes.map(type => (
+                    <option key={type.value} value={type.value}>{type.label}</option>
+                  ))}
                 </select>
               </div>
             </div>
           </Card>
         </div>
 
+        {/* Roster Slots */}
+        {sportKey && rosterSlots && (
+          <div className="mb-12">
+            <h2 className="text-2xl font-bold text-zinc-900 mb-6">Roster Slots</h2>
+            <Card className="p-6">
+              <div className="grid grid-cols-3 md:grid-cols-6 gap-4">
+                {getSportRosterSlots(sportKey).map(slot => (
+                  <div key={slot}>
+                    <label className="block text-sm font-medium text-zinc-700 mb-2">
+                      {slot}
+                    </label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={10}
+                      value={rosterSlots[slot] ?? 0}
+                      onChange={(e) => setCustomRosterSlots({
+                        ...rosterSlots,
+                        [slot]: Math.min(10, Math.max(0, parseInt(e.target.value) || 0)),
+                      })}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-sm text-zinc-600 mt-4">
+                {getDraftedSlotCount(rosterSlots)} players drafted per team. BN is the bench; IL spots aren&apos;t drafted.
+              </p>
+            </Card>
+          </div>
+        )}
+
         {/* Import Options */}
         <div className="mb-12">
           <Card className="p-6 bg-blue-50 border-blue-200">
@@ -275,6 +355,9 @@ export default function DraftSetupPage() {
         </div>
 
         {/* Action Buttons */}
+        {createDraft.error && (
+          <p className="text-center text-sm text-red-600 mb-4">{createDraft.error.message}</p>
+        )}
         <div className="flex gap-4 justify-center">
           <Link href="/">
             <Button variant="outline" className="px-8">
@@ -284,9 +367,9 @@ export default function DraftSetupPage() {
           <Button 
             onClick={handleContinue}
             className="btn-firecrawl-orange px-8"
-            disabled={!selectedSport || !selectedDraftType}
+            disabled={!selectedSport || !selectedDraftType || createDraft.isPending}
           >
-            Continue to Draft Room
+            {createDraft.isPending ? 'Creating Draft...' : 'Continue to Draft Room'}
           </Button>
         </div>
       </div>
@@ -0,0 +1,633 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSession } from '@/lib/auth-client';
+import { SSEParser } from '@/lib/sse-parser';
+import type { Draft, DraftPick, Player, PlayerNews } from '@/lib/db/schema';
+import type { PickSlot } from '@/lib/draft-order';
+import type { AuctionState } from '@/lib/draft-auction';
+import type { PlayerRecommendation, RecommendationsResult } from '@/lib/draft-ai';
+import type { CategoryRanking } from '@/lib/categories';
+import type { AdpTrend } from '@/lib/adp';
+import type { DraftRole } from '@/lib/draft-access';
+import type { ClockState } from '@/lib/draft-clock';
+import type { DraftStreamEvent, PlayerStatusData } from '@/lib/draft-events';
+import type { DraftSettings } from '@/lib/draft-settings';
+import type { SeasonSummary } from '@/lib/player-stats';
+
+export interface DraftViewer {
+  role: DraftRole;
+  isOwner: boolean;
+  teamNumber: number | null;
+}
+
+export interface DraftData {
+  draft: Draft;
+  viewer: DraftViewer;
+  onTheClock: PickSlot | null;
+  clock?: ClockState;
+  order: PickSlot[];
+  auction?: AuctionState;
+}
+
+export interface DraftPickWithPlayer extends DraftPick {
+  player: Pick<Player, 'id' | 'fullName' | 'team' | 'position' | 'positions' | 'injuryStatus'> | null;
+}
+
+export interface PlayersPage {
+  players: (Player & { adpTrend: AdpTrend | null })[];
+  pagination: {
+    page: number;
+    limit: number;
+    totalCount: number;
+    totalPages: number;
+    hasMore: boolean;
+  };
+}
+
+export interface DraftParticipantsData {
+  participants: Array<DraftViewer & { userId: string; displayName: string | null }>;
+  openTeams: number[];
+}
+
+export interface CategoryRankingsData {
+  categories: string[];
+  punted: string[];
+  team: { teamNumber: number; profile: Record<string, number>; weaknesses: string[] } | null;
+  rankings: (CategoryRanking & { drafted: boolean })[];
+}
+
+export interface PlayerDetail {
+  player: Player;
+  bio: { age: number | null; yearsExp: number | null; height: string | null; weight: string | null; college: string | null };
+  projection: Record<string, number> | null;
+  keyStats: string[];
+  seasons: SeasonSummary[];
+  news: PlayerNews[];
+}
+
+export interface RecommendationsData extends RecommendationsResult {
+  draftContext: {
+    currentPick: number;
+    userRosterSize: number;
+    userPicksRemaining: number;
+    availablePlayersCount: number;
+  };
+}
+
+/**
+ * Read the error message from a failed API response
+ */
+async function getErrorMessage(res: Response, fallback: string): Promise<string> {
+  try {
+    const body = await res.json();
+    return body.message || body.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function useDrafts() {
+  const { data: session } = useSession();
+
+  return useQuery<{ drafts: Draft[] }>({
+    queryKey: ['drafts', session?.user?.id],
+    queryFn: async () => {
+      const res = await fetch('/api/drafts');
+      if (!res.ok) {
+        throw new Error('Failed to fetch drafts');
+      }
+      return res.json();
+    },
+    enabled: !!session?.user?.id,
+  });
+}
+
+export function useDraft(draftId: string | null) {
+  const { data: session } = useSession();
+
+  return useQuery<DraftData>({
+    queryKey: ['draft', draftId],
+    queryFn: async () => {
+      const res = await fetch(`/api/drafts/${draftId}`);
+      if (!res.ok) {
+        throw new Error(await getErrorMessage(res, 'Failed to fetch draft'));
+      }
+      return res.json();
+    },
+    enabled: !!session?.user?.id && !!draftId,
+  });
+}
+
+export function useDraftPicks(draftId: string | null) {
+  const { data: session } = useSession();
+
+  return useQuery<{ picks: DraftPickWithPlayer[] }>({
+    queryKey: ['draftPicks', draftId],
+    queryFn: async () => {
+      const res = await fetch(`/api/drafts/${draftId}/picks`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch draft picks');
+      }
+      return res.json();
+    },
+    enabled: !!session?.user?.id && !!draftId,
+  });
+}
+
+export function useAvailablePlayers(
+  draftId: string | null,
+  filters: { sport?: string; search?: string; position?: string; sortBy?: 'adp' | 'projectedPoints'; adpSource?: string }
+) {
+  const { data: session } = useSession();
+
+  return useQuery<PlayersPage>({
+    queryKey: ['availablePlayers', draftId, filters],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: '50', draftId: draftId! });
+      if (filters.sport) params.set('sport', filters.sport);
+      if (filters.search) params.set('search', filters.search);
+      if (filters.position) params.set('position', filters.position);
+      if (filters.sortBy) params.set('sortBy', filters.sortBy);
+      if (filters.adpSource) params.set('adpSource', filters.adpSource);
+
+      const res = await fetch(`/api/players?${params.toString()}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch players');
+      }
+      return res.json();
+    },
+    enabled: !!session?.user?.id && !!draftId && !!filters.sport,
+    placeholderData: previous => previous,
+  });
+}
+
+export function usePlayerDetail(playerId: string | null) {
+  const { data: session } = useSession();
+
+  return useQuery<PlayerDetail>({
+    queryKey: ['player', playerId],
+    queryFn: async () => {
+      const res = await fetch(`/api/players/${playerId}`);
+      if (!res.ok) {
+        throw new Error(await getErrorMessage(res, 'Failed to fetch player'));
+      }
+      return res.json();
+    },
+    enabled: !!session?.user?.id && !!playerId,
+  });
+}
+
+export function useDraftQueue(draftId: string | null) {
+  const { data: session } = useSession();
+
+  return useQuery<{ queue: Player[] }>({
+    queryKey: ['draftQueue', draftId],
+    queryFn: async () => {
+      const res = await fetch(`/api/drafts/${draftId}/queue`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch draft queue');
+      }
+      return res.json();
+    },
+    enabled: !!session?.user?.id && !!draftId,
+  });
+}
+
+export function useUpdateDraftQueue(draftId: string | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (playerIds: string[]): Promise<{ queue: Player[] }> => {
+      const res = await fetch(`/api/drafts/${draftId}/queue`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ playerIds }),
+      });
+
+      if (!res.ok) {
+        throw new Error(await getErrorMessage(res, 'Failed to save draft queue'));
+      }
+
+      return res.json();
+    },
+    onSuccess: data => {
+      queryClient.setQueryData(['draftQueue', draftId], data);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['draftQueue', draftId] });
+    },
+  });
+}
+
+/**
+ * Recommendations for the user's pick, streamed so each one shows up as soon
+ * as it's ready. `streamedRecommendations` holds those received so far while
+ * a fetch is running; `data` is the full result once it finishes. Picks by
+ * other teams only mark the result stale (`isStale`); it is fetched again
+ * when the viewer comes back on the clock or refetches.
+ */
+export function useDraftRecommendations(
+  draftId: string | null,
+  enabled: boolean,
+  options: { puntCategories?: string[]; adpSource?: string } = {}
+) {
+  const { data: session } = useSession();
+  const { puntCategories = [], adpSource } = options;
+  const [streamedRecommendations, setStreamedRecommendations] = useState<PlayerRecommendation[]>([]);
+
+  const query = useQuery<RecommendationsData>({
+    queryKey: ['draftRecommendations', draftId, puntCategories, adpSource],
+    queryFn: async ({ signal }) => {
+      const params = new URLSearchParams({ stream: 'true' });
+      if (puntCategories.length > 0) params.set('punt', puntCategories.join(','));
+      if (adpSource) params.set('adpSource', adpSource);
+
+      setStreamedRecommendations([]);
+
+      const res = await fetch(`/api/drafts/${draftId}/recommendations?${params.toString()}`, { signal });
+      if (!res.ok || !res.body) {
+        throw new Error(await getErrorMessage(res, 'Failed to fetch recommendations'));
+      }
+
+      const reader = res.body.getReader();
+      const parser = new SSEParser();
+      const decoder = new TextDecoder();
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        for (const event of parser.parse(decoder.decode(value, { stream: true }))) {
+          if (!event.data) continue;
+          const { data } = JSON.parse(event.data);
+
+          switch (event.event) {
+            case 'recommendation':
+              setStreamedRecommendations(previous => [...previous, data as PlayerRecommendation]);
+              break;
+            case 'complete':
+              return data as RecommendationsData;
+            case 'error':
+              throw new Error(data.message);
+          }
+        }
+      }
+
+      throw new Error('Failed to fetch recommendations');
+    },
+    enabled: !!session?.user?.id && !!draftId && enabled,
+    retry: false,
+    staleTime: Infinity, // Refetched explicitly whenever a pick changes the board
+  });
+
+  return { ...query, streamedRecommendations };
+}
+
+export function useCategoryRankings(draftId: string | null, puntCategories: string[], enabled: boolean) {
+  const { data: session } = useSession();
+
+  return useQuery<CategoryRankingsData>({
+    queryKey: ['categoryRankings', draftId, puntCategories],
+    queryFn: async () => {
+      const params = new URLSearchParams({ available: 'true', limit: '25' });
+      if (puntCategories.length > 0) params.set('punt', puntCategories.join(','));
+
+      const res = await fetch(`/api/drafts/${draftId}/category-rankings?${params.toString()}`);
+      if (!res.ok) {
+        throw new Error(await getErrorMessage(res, 'Failed to fetch category rankings'));
+      }
+      return res.json();
+    },
+    enabled: !!session?.user?.id && !!draftId && enabled,
+    placeholderData: previous => previous,
+  });
+}
+
+export function useCreateDraft() {
+  const queryClient = useQueryClient();
+  const { data: session } = useSession();
+
+  return useMutation({
+    mutationFn: async (settings: {
+      sport: 'NBA' | 'NFL' | 'MLB';
+      draftType: 'snake' | 'auction' | 'linear';
+      leagueName?: string;
+      numTeams: number;
+      draftPosition: number;
+      scoringType: string;
+      rosterSize?: number;
+      settings?: DraftSettings;
+    }): Promise<{ draft: Draft }> => {
+      const res = await fetch('/api/drafts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(settings),
+      });
+
+      if (!res.ok) {
+        throw new Error(await getErrorMessage(res, 'Failed to create draft'));
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['drafts', session?.user?.id] });
+    },
+  });
+}
+
+export function useDraftParticipants(draftId: string | null) {
+  const { data: session } = useSession();
+
+  return useQuery<DraftParticipantsData>({
+    queryKey: ['draftParticipants', draftId],
+    queryFn: async () => {
+      const res = await fetch(`/api/drafts/${draftId}/participants`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch draft participants');
+      }
+      return res.json();
+    },
+    enabled: !!session?.user?.id && !!draftId,
+  });
+}
+
+export function useClaimTeam(draftId: string | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (claim: { teamNumber: number | null; userId?: string }) => {
+      const res = await fetch(`/api/drafts/${draftId}/participants`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(claim),
+      });
+
+      if (!res.ok) {
+        throw new Error(await getErrorMessage(res, 'Failed to claim team'));
+      }
+
+      return res.json();
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['draftParticipants', draftId] });
+      queryClient.invalidateQueries({ queryKey: ['draft', draftId] });
+    },
+  });
+}
+
+export function useCreateInvite(draftId: string | null) {
+  return useMutation({
+    mutationFn: async (invite: { email?: string }): Promise<{ invite: { url: string }; emailSent: boolean }> => {
+      const res = await fetch(`/api/drafts/${draftId}/invites`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(invite),
+      });
+
+      if (!res.ok) {
+        throw new Error(await getErrorMessage(res, 'Failed to create invite'));
+      }
+
+      return res.json();
+    },
+  });
+}
+
+export function useJoinDraft() {
+  const queryClient = useQueryClient();
+  const { data: session } = useSession();
+
+  return useMutation({
+    mutationFn: async (token: string): Promise<{ draftId: string; joined: boolean }> => {
+      const res = await fetch('/api/drafts/join', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token }),
+      });
+
+      if (!res.ok) {
+        throw new Error(await getErrorMessage(res, 'Failed to join draft'));
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['drafts', session?.user?.id] });
+    },
+  });
+}
+
+/**
+ * Refresh everything that depends on the board after a pick changes it
+ */
+function invalidateDraftBoard(
+  queryClient: ReturnType<typeof useQueryClient>,
+  draftId: string | null,
+  { recommendations = true }: { recommendations?: boolean } = {}
+) {
+  queryClient.invalidateQueries({ queryKey: ['draft', draftId] });
+  queryClient.invalidateQueries({ queryKey: ['draftPicks', draftId] });
+  queryClient.invalidateQueries({ queryKey: ['availablePlayers', draftId] });
+  queryClient.invalidateQueries({ queryKey: ['draftQueue', draftId] }); // Drafted players leave the queue
+  queryClient.invalidateQueries({ queryKey: ['categoryRankings', draftId] });
+  if (recommendations) {
+    queryClient.invalidateQueries({ queryKey: ['draftRecommendations', draftId] });
+  }
+}
+
+export function useMakePick(draftId: string | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (pick: { playerId: string; pickNumber?: number; teamNumber?: number }) => {
+      const res = await fetch(`/api/drafts/${draftId}/picks`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(pick),
+      });
+
+      if (!res.ok) {
+        throw new Error(await getErrorMessage(res, 'Failed to make pick'));
+      }
+
+      return res.json();
+    },
+    onSettled: () => invalidateDraftBoard(queryClient, draftId),
+  });
+}
+
+export function useUndoPick(draftId: string | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/drafts/${draftId}/picks`, {
+        method: 'DELETE',
+      });
+
+      if (!res.ok) {
+        throw new Error(await getErrorMessage(res, 'Failed to undo pick'));
+      }
+
+      return res.json();
+    },
+    onSettled: () => invalidateDraftBoard(queryClient, draftId),
+  });
+}
+
+export function useSimulatePicks(draftId: string | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/drafts/${draftId}/simulate`, {
+        method: 'POST',
+      });
+
+      if (!res.ok) {
+        throw new Error(await getErrorMessage(res, 'Failed to simulate picks'));
+      }
+
+      return res.json();
+    },
+    onSettled: () => invalidateDraftBoard(queryClient, draftId),
+  });
+}
+
+export function usePickClock(draftId: string | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (action: 'pause' | 'resume') => {
+      const res = await fetch(`/api/drafts/${draftId}/clock`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action }),
+      });
+
+      if (!res.ok) {
+        throw new Error(await getErrorMessage(res, 'Failed to update pick clock'));
+      }
+
+      return res.json();
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['draft', draftId] });
+    },
+  });
+}
+
+// Delay before reopening a dropped draft event stream
+const EVENT_STREAM_RETRY_DELAY = 3000;
+
+export type PlayerStatusEvent = PlayerStatusData & { id: string };
+
+// Most player status events kept for alerts
+const MAX_PLAYER_STATUS_EVENTS = 20;
+
+/**
+ * Keep the board in sync with picks made elsewhere by following the draft's
+ * event stream, resuming from the last event seen after a reconnect. Also
+ * collects status changes for players drafted or queued in the draft,
+ * newest first.
+ */
+export function useDraftEvents(draftId: string | null) {
+  const queryClient = useQueryClient();
+  const { data: session } = useSession();
+  const [connected, setConnected] = useState(false);
+  const [playerStatusEvents, setPlayerStatusEvents] = useState<PlayerStatusEvent[]>([]);
+  const userId = session?.user?.id;
+
+  useEffect(() => {
+    if (!userId || !draftId) return;
+
+    const controller = new AbortController();
+    let lastEventId: string | undefined;
+    let retryTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = async () => {
+      try {
+        const res = await fetch(`/api/drafts/${draftId}/events`, {
+          headers: lastEventId ? { 'Last-Event-ID': lastEventId } : undefined,
+          signal: controller.signal,
+        });
+
+        if (!res.ok || !res.body) {
+          throw new Error(await getErrorMessage(res, 'Failed to connect to draft events'));
+        }
+
+        setConnected(true);
+        // Catch up on anything that changed before the stream opened
+        invalidateDraftBoard(queryClient, draftId);
+
+        const reader = res.body.getReader();
+        const parser = new SSEParser();
+        const decoder = new TextDecoder();
+
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          const events = parser.parse(decoder.decode(value, { stream: true }));
+          for (const event of events) {
+            if (event.id) {
+              lastEventId = event.id;
+            }
+          }
+
+          const statusEvents = events
+            .filter(event => event.event === 'player-status' && event.id && event.data)
+            .map(event => ({ ...(JSON.parse(event.data!) as DraftStreamEvent<PlayerStatusData>).data, id: event.id! }));
+          if (statusEvents.length > 0) {
+            setPlayerStatusEvents(previous => [...statusEvents.reverse(), ...previous].slice(0, MAX_PLAYER_STATUS_EVENTS));
+          }
+
+          // Recommendations are a costly AI call, so other teams' picks only
+          // mark them out of date: they're fetched again when the viewer comes
+          // on the clock or asks for a refresh. Clock and status events don't
+          // change who is available at all.
+          if (events.length > 0) {
+            invalidateDraftBoard(queryClient, draftId, { recommendations: false });
+            if (events.some(event => ['pick-made', 'pick-undone', 'player-status'].includes(event.event ?? ''))) {
+              queryClient.invalidateQueries({ queryKey: ['draftRecommendations', draftId], refetchType: 'none' });
+            }
+          }
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Draft event stream error:', error);
+      }
+
+      setConnected(false);
+
+      // The server closes streams periodically; reconnect and replay what was missed
+      if (!controller.signal.aborted) {
+        retryTimeout = setTimeout(connect, EVENT_STREAM_RETRY_DELAY);
+      }
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      clearTimeout(retryTimeout);
+    };
+  }, [draftId, userId, queryClient]);
+
+  return { connected, playerStatusEvents };
+}
@@ -0,0 +1,21 @@
+/**
+ * Admin Access
+ *
+ * Admins are the accounts whose email is listed in ADMIN_EMAILS
+ * (comma-separated). There are no admin roles in the database.
+ */
+
+/**
+ * Whether a signed-in user is an admin
+ */
+export function isAdmin(user: { email?: string | null }): boolean {
+  const email = user.email?.trim().toLowerCase();
+  if (!email) {
+    return false;
+  }
+
+  return (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .includes(email);
+}
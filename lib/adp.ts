@@ -0,0 +1,298 @@
+/**
+ * ADP History
+ *
+ * Average draft position recorded per source (Sleeper, ESPN, Yahoo, our own
+ * completed drafts), scoring format, league size and date. `players.adp` is
+ * kept as the latest market ADP: each source's most recent value, averaged.
+ * A trend compares each source's latest ADP with its ADP about a week
+ * earlier; rising players are being drafted sooner, falling ones later.
+ */
+
+import { db, UPDATE_BATCH_SIZE } from '@/lib/db';
+import { adpRecords, players, type AdpRecord, type Draft } from '@/lib/db/schema';
+import { and, asc, desc, eq, gte, inArray, notInArray, sql } from 'drizzle-orm';
+import { logger } from '@/lib/logger';
+
+export const ADP_SOURCES = ['sleeper', 'espn', 'yahoo', 'community'] as const;
+
+export type AdpSource = typeof ADP_SOURCES[number];
+export type AdpFormat = Draft['scoringType'];
+
+// Days between the two ADPs a trend compares
+export const ADP_TREND_DAYS = 7;
+
+// How far back trends look for records
+const ADP_HISTORY_DAYS = 90;
+
+// An ADP must move this share of itself, and at least a pick, to be a trend
+const TREND_SHARE = 0.05;
+
+export interface AdpEntry {
+  playerId: string;
+  adp: number;
+  minPick?: number;
+  maxPick?: number;
+  stdDev?: number;
+  sampleSize?: number;
+}
+
+export interface AdpRange {
+  minPick: number;
+  maxPick: number;
+  stdDev: number | null;
+  sampleSize: number | null;
+}
+
+export interface AdpTrend {
+  adp: number; // Latest, averaged across sources
+  previousAdp: number | null; // About ADP_TREND_DAYS earlier
+  change: number | null; // Picks earlier than before; negative when falling
+  trend: 'rising' | 'falling' | 'steady' | null;
+  sources: Record<string, number>; // Latest ADP by source
+  ranges: Record<string, AdpRange>; // Pick spread by source, for sources that publish it
+  format: AdpFormat | null; // Format the records are for, null when none matched the one asked for
+  numTeams: number | null; // League size the records are for, likewise
+  recordedOn: string;
+}
+
+/**
+ * A date (YYYY-MM-DD) shifted by a number of days
+ */
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+/**
+ * Today's date (YYYY-MM-DD, UTC)
+ */
+export function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Store a source's ADP for one format, league size and date, replacing any
+ * values it already had for that day
+ */
+export async function recordAdp(record: {
+  source: string;
+  format: AdpFormat;
+  numTeams: number;
+  recordedOn: string;
+  entries: AdpEntry[];
+}): Promise<number> {
+  const values = record.entries.map(entry => ({
+    playerId: entry.playerId,
+    source: record.source,
+    format: record.format,
+    numTeams: record.numTeams,
+    adp: entry.adp,
+    minPick: entry.minPick ?? null,
+    maxPick: entry.maxPick ?? null,
+    stdDev: entry.stdDev ?? null,
+    sampleSize: entry.sampleSize ?? null,
+    recordedOn: record.recordedOn,
+  }));
+
+  for (let i = 0; i < values.length; i += 500) {
+    await db
+      .insert(adpRecords)
+      .values(values.slice(i, i + 500))
+      .onConflictDoUpdate({
+        target: [adpRecords.playerId, adpRecords.source, adpRecords.format, adpRecords.numTeams, adpRecords.recordedOn],
+        set: {
+          adp: sql`excluded.adp`,
+          minPick: sql`excluded.min_pick`,
+          maxPick: sql`excluded.max_pick`,
+          stdDev: sql`excluded.std_dev`,
+          sampleSize: sql`excluded.sample_size`,
+        },
+      });
+  }
+
+  logger.info('ADP recorded', { source: record.source, format: record.format, numTeams: record.numTeams, count: values.length });
+
+  return values.length;
+}
+
+/**
+ * Set every player's `adp` to their latest market ADP: each source's most
+ * recent value, whatever the format, averaged
+ */
+export async function refreshPlayerAdp(sport: Draft['sport']): Promise<number> {
+  const latest = await db
+    .selectDistinctOn([adpRecords.playerId, adpRecords.source], {
+      playerId: adpRecords.playerId,
+      adp: adpRecords.adp,
+    })
+    .from(adpRecords)
+    .innerJoin(players, eq(adpRecords.playerId, players.id))
+    .where(eq(players.sport, sport))
+    .orderBy(adpRecords.playerId, adpRecords.source, desc(adpRecords.recordedOn));
+
+  const byPlayer = new Map<string, number[]>();
+  for (const { playerId, adp } of latest) {
+    byPlayer.set(playerId, [...(byPlayer.get(playerId) ?? []), adp]);
+  }
+
+  const updates = [...byPlayer].map(([playerId, values]) =>
+    sql`(${playerId}::uuid, ${Math.round(values.reduce((sum, value) => sum + value, 0) / values.length)}::integer)`
+  );
+
+  // One UPDATE ... FROM (VALUES ...) per batch rather than one per player
+  await db.transaction(async (tx) => {
+    for (let i = 0; i < updates.length; i += UPDATE_BATCH_SIZE) {
+      await tx.execute(sql`
+        update ${players}
+        set adp = v.adp
+        from (values ${sql.join(updates.slice(i, i + UPDATE_BATCH_SIZE), sql`, `)}) as v(id, adp)
+        where ${players.id} = v.id
+      `);
+    }
+  });
+
+  return byPlayer.size;
+}
+
+/**
+ * A player's latest ADP and trend from their records. Sources are compared
+ * with themselves, so one that drafts everyone later doesn't look like a fall.
+ */
+export function summarizeAdp(
+  records: (Pick<AdpRecord, 'source' | 'adp' | 'recordedOn'> & Partial<Pick<AdpRecord, 'minPick' | 'maxPick' | 'stdDev' | 'sampleSize'>>)[],
+  days = ADP_TREND_DAYS
+): Omit<AdpTrend, 'format' | 'numTeams'> | null {
+  const bySource = new Map<string, typeof records>();
+  for (const record of records) {
+    bySource.set(record.source, [...(bySource.get(record.source) ?? []), record]);
+  }
+
+  const sources: Record<string, number> = {};
+  const ranges: Record<string, AdpRange> = {};
+  const changes: number[] = [];
+  const previous: number[] = [];
+  let recordedOn = '';
+
+  for (const [source, history] of bySource) {
+    const sorted = [...history].sort((a, b) => b.recordedOn.localeCompare(a.recordedOn));
+    const [latest] = sorted;
+    const before = sorted.find(record => record.recordedOn <= shiftDate(latest.recordedOn, -days));
+
+    sources[source] = latest.adp;
+    if (typeof latest.minPick === 'number' && typeof latest.maxPick === 'number') {
+      ranges[source] = {
+        minPick: latest.minPick,
+        maxPick: latest.maxPick,
+        stdDev: latest.stdDev ?? null,
+        sampleSize: latest.sampleSize ?? null,
+      };
+    }
+    if (latest.recordedOn > recordedOn) recordedOn = latest.recordedOn;
+    if (before) {
+      previous.push(before.adp);
+      changes.push(before.adp - latest.adp);
+    }
+  }
+
+  const values = Object.values(sources);
+  if (values.length === 0) {
+    return null;
+  }
+
+  const adp = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const change = changes.length > 0 ? changes.reduce((sum, value) => sum + value, 0) / changes.length : null;
+  const threshold = Math.max(1, adp * TREND_SHARE);
+
+  return {
+    adp: Math.round(adp * 10) / 10,
+    previousAdp: previous.length > 0 ? Math.round((previous.reduce((sum, value) => sum + value, 0) / previous.length) * 10) / 10 : null,
+    change: change === null ? null : Math.round(change * 10) / 10,
+    trend: change === null ? null : change >= threshold ? 'rising' : change <= -threshold ? 'falling' : 'steady',
+    sources,
+    ranges,
+    recordedOn,
+  };
+}
+
+/**
+ * Latest ADP and trend for each player, for a format and league size when
+ * given. Players with no records for the league size fall back to the
+ * format's, then to any records at all.
+ */
+export async function getAdpTrends(
+  playerIds: string[],
+  options: { format?: AdpFormat; numTeams?: number; source?: string } = {}
+): Promise<Map<string, AdpTrend>> {
+  const trends = new Map<string, AdpTrend>();
+  const since = shiftDate(today(), -ADP_HISTORY_DAYS);
+
+  const scopes: Array<{ format: AdpFormat | null; numTeams: number | null }> = [
+    ...(options.format && options.numTeams ? [{ format: options.format, numTeams: options.numTeams }] : []),
+    ...(options.format ? [{ format: options.format, numTeams: null }] : []),
+    { format: null, numTeams: null },
+  ];
+
+  let remaining = playerIds;
+
+  for (const scope of scopes) {
+    if (remaining.length === 0) break;
+
+    const conditions = [inArray(adpRecords.playerId, remaining), gte(adpRecords.recordedOn, since)];
+    if (options.source) conditions.push(eq(adpRecords.source, options.source));
+    if (scope.format) conditions.push(eq(adpRecords.format, scope.format));
+    if (scope.numTeams) conditions.push(eq(adpRecords.numTeams, scope.numTeams));
+
+    const records = await db.select().from(adpRecords).where(and(...conditions));
+
+    const byPlayer = new Map<string, AdpRecord[]>();
+    for (const record of records) {
+      byPlayer.set(record.playerId, [...(byPlayer.get(record.playerId) ?? []), record]);
+    }
+
+    for (const [playerId, history] of byPlayer) {
+      const summary = summarizeAdp(history);
+      if (summary) {
+        trends.set(playerId, { ...summary, ...scope });
+      }
+    }
+
+    remaining = remaining.filter(id => !trends.has(id));
+  }
+
+  return trends;
+}
+
+/**
+ * Ids of the players with the best latest ADP from one source, leaving out
+ * `excludeIds` (e.g. players already drafted). For narrowing a pool before
+ * loading trends when ranking by that source.
+ */
+export async function getTopAdpPlayerIds(
+  sport: Draft['sport'],
+  source: string,
+  options: { limit: number; excludeIds?: string[] }
+): Promise<string[]> {
+  const conditions = [
+    eq(players.sport, sport),
+    eq(adpRecords.source, source),
+    gte(adpRecords.recordedOn, shiftDate(today(), -ADP_HISTORY_DAYS)),
+  ];
+  if (options.excludeIds?.length) conditions.push(notInArray(adpRecords.playerId, options.excludeIds));
+
+  const latest = db
+    .selectDistinctOn([adpRecords.playerId], { playerId: adpRecords.playerId, adp: adpRecords.adp })
+    .from(adpRecords)
+    .innerJoin(players, eq(adpRecords.playerId, players.id))
+    .where(and(...conditions))
+    .orderBy(adpRecords.playerId, desc(adpRecords.recordedOn))
+    .as('latest');
+
+  const rows = await db
+    .select({ playerId: latest.playerId })
+    .from(latest)
+    .orderBy(asc(latest.adp))
+    .limit(options.limit);
+
+  return rows.map(row => row.playerId);
+}
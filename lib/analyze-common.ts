@@ -405,11 +405,15 @@ export function getAvailableProviders() {
 }
 
 /**
- * Create SSE message with proper format
+ * Create SSE message with proper format. Pass an id for streams that support
+ * resuming from Last-Event-ID.
  */
-export function createSSEMessage(event: SSEEvent): string {
+export function createSSEMessage(event: SSEEvent | { type?: string }, id?: string | number): string {
   // Ensure proper SSE format with event type
   const lines: string[] = [];
+  if (id !== undefined) {
+    lines.push(`id: ${id}`);
+  }
   if (event.type) {
     lines.push(`event: ${event.type}`);
   }
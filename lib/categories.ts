@@ -0,0 +1,201 @@
+/**
+ * Category League Rankings
+ *
+ * Z-scores per scoring category for category (roto / head-to-head) leagues.
+ * Means and spreads come from the draftable pool, the players a league
+ * would actually roster by ADP. Percentage categories (FG%, FT%, AVG, ERA,
+ * WHIP) are weighted by volume: a player's impact is how far their rate is
+ * from the pool's times their attempts, so a 90% free throw shooter on two
+ * attempts a night counts for less than one on eight. Punted categories are
+ * left out of the total.
+ */
+
+import type { Draft, Player } from '@/lib/db/schema';
+import { getPlayerCategories, HITTING_CATEGORIES, PITCHING_CATEGORIES, type MlbCategory } from '@/lib/mlb';
+import { getProjectedStats } from '@/lib/scoring';
+
+export interface CategoryDefinition {
+  name: string;
+  stat: string; // Stat line key holding the value
+  volume?: string; // Percentage categories: the attempts weighting them
+  made?: string; // Percentage categories: makes, when the line has no rate
+  lowerIsBetter?: boolean;
+}
+
+export interface CategoryRanking {
+  player: Player;
+  zScores: Record<string, number>;
+  total: number; // Sum of z-scores, punted categories excluded
+  rank: number;
+}
+
+export interface CategoryRankings {
+  categories: string[];
+  punted: string[];
+  players: CategoryRanking[]; // Best total first
+}
+
+const NBA_CATEGORIES: CategoryDefinition[] = [
+  { name: 'PTS', stat: 'PTS' },
+  { name: 'REB', stat: 'REB' },
+  { name: 'AST', stat: 'AST' },
+  { name: 'STL', stat: 'STL' },
+  { name: 'BLK', stat: 'BLK' },
+  { name: '3PM', stat: '3PM' },
+  { name: 'FG%', stat: 'FG%', volume: 'FGA', made: 'FGM' },
+  { name: 'FT%', stat: 'FT%', volume: 'FTA', made: 'FTM' },
+  { name: 'TO', stat: 'TO', lowerIsBetter: true },
+];
+
+const MLB_CATEGORIES: CategoryDefinition[] = [
+  ...HITTING_CATEGORIES.map(name => name === 'AVG'
+    ? { name, stat: 'AVG', volume: 'AB', made: 'H' }
+    : { name, stat: name }),
+  ...PITCHING_CATEGORIES.map(name => name === 'ERA' || name === 'WHIP'
+    ? { name, stat: name, volume: 'IP', lowerIsBetter: true }
+    : { name, stat: name }),
+];
+
+/**
+ * Scoring categories for a sport's category leagues; none for NFL
+ */
+export function getLeagueCategories(sport: Draft['sport']): CategoryDefinition[] {
+  switch (sport) {
+    case 'NBA':
+      return NBA_CATEGORIES;
+    case 'MLB':
+      return MLB_CATEGORIES;
+    default:
+      return [];
+  }
+}
+
+/**
+ * Check punted categories against the sport's, returning an error message
+ * or null when they're fine
+ */
+export function getPuntError(sport: Draft['sport'], punt: string[]): string | null {
+  const names = getLeagueCategories(sport).map(category => category.name);
+  const unknown = punt.filter(name => !names.includes(name));
+
+  if (unknown.length > 0) {
+    return `Unknown ${sport} categories: ${unknown.join(', ')}`;
+  }
+  if (names.length > 0 && punt.length >= names.length) {
+    return 'At least one category must count';
+  }
+  return null;
+}
+
+/**
+ * A player's rate, count and volume in a category, or null when they don't
+ * contribute to it
+ */
+function getCategoryValue(
+  sport: Draft['sport'],
+  category: CategoryDefinition,
+  player: Player
+): { value: number; volume: number } | null {
+  // Hitters don't pitch and pitchers don't hit, whatever their stat line says
+  if (sport === 'MLB' && !getPlayerCategories(player).includes(category.name as MlbCategory)) {
+    return null;
+  }
+
+  const stats = getProjectedStats(player);
+  if (!stats) {
+    return null;
+  }
+
+  if (!category.volume) {
+    return stats[category.stat] === undefined ? null : { value: stats[category.stat], volume: 1 };
+  }
+
+  const volume = stats[category.volume];
+  const rate = stats[category.stat] ?? (category.made && stats[category.made] !== undefined && volume
+    ? stats[category.made] / volume
+    : undefined);
+
+  return rate === undefined || !volume ? null : { value: rate, volume };
+}
+
+/**
+ * Z-scores for every player with a projected stat line. The draftable pool
+ * is the top `numTeams * rosterSize` of them by ADP.
+ */
+export function computeCategoryRankings(
+  draft: Pick<Draft, 'sport' | 'numTeams' | 'rosterSize'>,
+  players: Player[],
+  punt: string[] = []
+): CategoryRankings {
+  const categories = getLeagueCategories(draft.sport);
+  const projected = players.filter(player => getProjectedStats(player) !== null);
+  const draftable = [...projected]
+    .sort((a, b) => (a.adp ?? Infinity) - (b.adp ?? Infinity))
+    .slice(0, draft.numTeams * draft.rosterSize);
+
+  const scorers = categories.map(category => {
+    const values = draftable.flatMap(player => getCategoryValue(draft.sport, category, player) ?? []);
+    const totalVolume = values.reduce((sum, { volume }) => sum + volume, 0);
+    const poolRate = category.volume && totalVolume > 0
+      ? values.reduce((sum, { value, volume }) => sum + value * volume, 0) / totalVolume
+      : 0;
+    const impact = ({ value, volume }: { value: number; volume: number }) =>
+      category.volume ? (value - poolRate) * volume : value;
+
+    const impacts = values.map(impact);
+    const mean = impacts.reduce((sum, value) => sum + value, 0) / (impacts.length || 1);
+    const stdDev = Math.sqrt(impacts.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (impacts.length || 1));
+
+    return (player: Player) => {
+      const value = getCategoryValue(draft.sport, category, player);
+      if (!value || stdDev === 0) return 0;
+      const z = (impact(value) - mean) / stdDev;
+      return category.lowerIsBetter ? -z : z;
+    };
+  });
+
+  const ranked = projected
+    .map(player => {
+      const zScores = Object.fromEntries(
+        categories.map((category, i) => [category.name, Math.round(scorers[i](player) * 100) / 100])
+      );
+      const total = categories
+        .filter(category => !punt.includes(category.name))
+        .reduce((sum, category) => sum + zScores[category.name], 0);
+      return { player, zScores, total: Math.round(total * 100) / 100 };
+    })
+    .sort((a, b) => b.total - a.total);
+
+  return {
+    categories: categories.map(category => category.name),
+    punted: punt,
+    players: ranked.map((entry, i) => ({ ...entry, rank: i + 1 })),
+  };
+}
+
+/**
+ * A roster's strength in each category: its players' z-scores summed
+ */
+export function getCategoryProfile(roster: Pick<Player, 'id'>[], rankings: CategoryRankings): Record<string, number> {
+  const byId = new Map(rankings.players.map(ranking => [ranking.player.id, ranking]));
+  const profile = Object.fromEntries(rankings.categories.map(category => [category, 0]));
+
+  for (const player of roster) {
+    const ranking = byId.get(player.id);
+    for (const category of rankings.categories) {
+      profile[category] += ranking?.zScores[category] ?? 0;
+    }
+  }
+
+  return Object.fromEntries(Object.entries(profile).map(([category, value]) => [category, Math.round(value * 100) / 100]));
+}
+
+/**
+ * Categories a roster is weakest in, weakest first, leaving out punts
+ */
+export function getCategoryWeaknesses(profile: Record<string, number>, punt: string[] = []): string[] {
+  return Object.entries(profile)
+    .filter(([category]) => !punt.includes(category))
+    .sort((a, b) => a[1] - b[1])
+    .map(([category]) => category);
+}
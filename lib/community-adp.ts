@@ -0,0 +1,117 @@
+/**
+ * Community ADP
+ *
+ * FantasyBlock community ADP: where players actually go in drafts completed
+ * here. Picks are averaged per sport, scoring type and league size, with the
+ * earliest and latest pick and the spread, and stored as the `community` ADP
+ * source. Mock drafts (their bots pick by ADP, so they would only echo it
+ * back), auctions and keeper picks are left out.
+ */
+
+import { db } from '@/lib/db';
+import { draftPicks, drafts, type Draft } from '@/lib/db/schema';
+import { and, eq, gte, inArray, lte, sql } from 'drizzle-orm';
+import { recordAdp, refreshPlayerAdp, today, type AdpFormat } from '@/lib/adp';
+import { logger } from '@/lib/logger';
+
+export const COMMUNITY_ADP_SOURCE = 'community';
+export const COMMUNITY_ADP_LABEL = 'FantasyBlock community ADP';
+
+// Drafts a player must go in before their community ADP is published
+export const MIN_COMMUNITY_SAMPLE = 3;
+
+export interface CommunityAdpOptions {
+  sport: Draft['sport'];
+  format?: AdpFormat;
+  numTeams?: number;
+  since?: Date; // Drafts completed on or after
+  until?: Date; // Drafts completed on or before
+  minSample?: number;
+}
+
+export interface CommunityAdpRow {
+  playerId: string;
+  format: AdpFormat;
+  numTeams: number;
+  adp: number;
+  minPick: number;
+  maxPick: number;
+  stdDev: number;
+  sampleSize: number;
+}
+
+/**
+ * Average pick, range and spread per player across matching completed drafts
+ */
+export async function aggregateCommunityAdp(options: CommunityAdpOptions): Promise<CommunityAdpRow[]> {
+  const draftCount = sql<number>`count(distinct ${drafts.id})::int`;
+  const conditions = [
+    eq(drafts.sport, options.sport),
+    eq(drafts.status, 'completed'),
+    inArray(drafts.draftType, ['snake', 'linear']),
+    sql`coalesce((${drafts.settings}->>'mockDraft')::boolean, false) = false`,
+    sql`coalesce(${draftPicks.isKeeper}, false) = false`,
+  ];
+
+  if (options.format) conditions.push(eq(drafts.scoringType, options.format));
+  if (options.numTeams) conditions.push(eq(drafts.numTeams, options.numTeams));
+  // A completed draft's last update is the pick that finished it
+  if (options.since) conditions.push(gte(drafts.updatedAt, options.since));
+  if (options.until) conditions.push(lte(drafts.updatedAt, options.until));
+
+  return db
+    .select({
+      playerId: draftPicks.playerId,
+      format: drafts.scoringType,
+      numTeams: drafts.numTeams,
+      adp: sql<number>`avg(${draftPicks.pickNumber})::float8`,
+      minPick: sql<number>`min(${draftPicks.pickNumber})`,
+      maxPick: sql<number>`max(${draftPicks.pickNumber})`,
+      stdDev: sql<number>`coalesce(stddev_pop(${draftPicks.pickNumber}), 0)::float8`,
+      sampleSize: draftCount,
+    })
+    .from(draftPicks)
+    .innerJoin(drafts, eq(draftPicks.draftId, drafts.id))
+    .where(and(...conditions))
+    .groupBy(draftPicks.playerId, drafts.scoringType, drafts.numTeams)
+    .having(gte(draftCount, options.minSample ?? MIN_COMMUNITY_SAMPLE));
+}
+
+/**
+ * Aggregate completed drafts and store the result as today's community ADP,
+ * one record set per scoring type and league size
+ */
+export async function updateCommunityAdp(options: CommunityAdpOptions): Promise<{ records: number; formats: number }> {
+  const rows = await aggregateCommunityAdp(options);
+
+  const groups = new Map<string, CommunityAdpRow[]>();
+  for (const row of rows) {
+    const key = `${row.format}:${row.numTeams}`;
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+
+  for (const group of groups.values()) {
+    await recordAdp({
+      source: COMMUNITY_ADP_SOURCE,
+      format: group[0].format,
+      numTeams: group[0].numTeams,
+      recordedOn: today(),
+      entries: group.map(row => ({
+        playerId: row.playerId,
+        adp: Math.round(row.adp * 10) / 10,
+        minPick: row.minPick,
+        maxPick: row.maxPick,
+        stdDev: Math.round(row.stdDev * 10) / 10,
+        sampleSize: row.sampleSize,
+      })),
+    });
+  }
+
+  if (rows.length > 0) {
+    await refreshPlayerAdp(options.sport);
+  }
+
+  logger.info('Community ADP updated', { sport: options.sport, records: rows.length, formats: groups.size });
+
+  return { records: rows.length, formats: groups.size };
+}
@@ -0,0 +1,75 @@
+/**
+ * CSV Parsing
+ *
+ * Minimal RFC 4180 parser for the player and projection files we import:
+ * comma separated, optional double-quoted fields with "" escapes, and a
+ * header row naming the columns.
+ */
+
+/**
+ * Split CSV text into rows of fields
+ */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+/**
+ * Parse CSV text into one record per row, keyed by the trimmed header names
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(name => name.trim());
+
+  return rows.map(fields =>
+    Object.fromEntries(columns.map((column, i) => [column, (fields[i] ?? '').trim()]))
+  );
+}
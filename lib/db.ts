@@ -1,2 +1,2 @@
 // Re-export from the db folder
-export { db, pool } from './db/index';
\ No newline at end of file
+export { db, pool, isUniqueViolation, UPDATE_BATCH_SIZE } from './db/index';
\ No newline at end of file
@@ -17,5 +17,20 @@ export const db = drizzle(pool, { schema });
 // Export the pool for raw queries if needed
 export { pool };
 
+// Rows written per bulk INSERT or UPDATE ... FROM (VALUES ...) statement
+export const UPDATE_BATCH_SIZE = 500;
+
+// Postgres error code for a unique constraint violation
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Whether a query failed on a unique index, e.g. because a concurrent
+ * request inserted the same row first. Drizzle wraps the driver's error.
+ */
+export function isUniqueViolation(error: unknown): boolean {
+  const cause = error instanceof Error && error.cause ? error.cause : error;
+  return (cause as { code?: string } | null)?.code === UNIQUE_VIOLATION;
+}
+
 process.on('SIGINT', () => pool.end());
 process.on('SIGTERM', () => pool.end());
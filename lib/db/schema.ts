@@ -1,5 +1,5 @@
-import { pgTable, text, timestamp, uuid, boolean, jsonb, integer, pgEnum, index } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { pgTable, text, timestamp, uuid, boolean, jsonb, integer, serial, real, date, pgEnum, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
 
 // Enums
 export const roleEnum = pgEnum('role', ['user', 'assistant']);
@@ -8,6 +8,9 @@ export const sportEnum = pgEnum('sport', ['NBA', 'NFL', 'MLB']);
 export const draftTypeEnum = pgEnum('draft_type', ['snake', 'auction', 'linear']);
 export const scoringTypeEnum = pgEnum('scoring_type', ['standard', 'ppr', 'half_ppr', 'points', 'categories']);
 export const draftStatusEnum = pgEnum('draft_status', ['setup', 'in_progress', 'completed', 'abandoned']);
+export const nominationStatusEnum = pgEnum('nomination_status', ['open', 'sold', 'cancelled']);
+export const participantRoleEnum = pgEnum('participant_role', ['commissioner', 'member']);
+export const syncStatusEnum = pgEnum('sync_status', ['running', 'completed', 'failed']);
 
 // User Profile table - extends Better Auth user with additional fields
 export const userProfile = pgTable('user_profile', {
@@ -135,6 +138,8 @@ export const drafts = pgTable('drafts', {
   currentRound: integer('current_round').default(1),
   currentPick: integer('current_pick').default(1),
   status: draftStatusEnum('status').notNull().default('setup'),
+  pickDeadline: timestamp('pick_deadline'), // When the current pick expires; null when no clock is running
+  clockPausedRemaining: integer('clock_paused_remaining'), // Seconds left on a paused clock
   settings: jsonb('settings'), // Additional settings like roster positions
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()),
@@ -148,6 +153,7 @@ export const drafts = pgTable('drafts', {
 export const players = pgTable('players', {
   id: uuid('id').primaryKey().defaultRandom(),
   sleeperId: text('sleeper_id').unique(),
+  externalId: text('external_id'), // Id from sources other than Sleeper, e.g. MLBAM ids for MLB
   sport: sportEnum('sport').notNull().default('NBA'),
   firstName: text('first_name'),
   lastName: text('last_name'),
@@ -169,6 +175,116 @@ export const players = pgTable('players', {
   index('idx_players_position').on(table.position),
   index('idx_players_full_name').on(table.fullName),
   index('idx_players_sleeper_id').on(table.sleeperId),
+  uniqueIndex('idx_players_sport_external_id').on(table.sport, table.externalId),
+]);
+
+// Projection Sources table - how much each projection source counts toward the consensus
+export const projectionSources = pgTable('projection_sources', {
+  name: text('name').primaryKey(), // e.g. "fantasypros", "steamer"
+  weight: real('weight').notNull().default(1),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()),
+});
+
+// Player Projections table - one imported stat line per player, source and season
+export const playerProjections = pgTable('player_projections', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  playerId: uuid('player_id').notNull().references(() => players.id, { onDelete: 'cascade' }),
+  source: text('source').notNull().references(() => projectionSources.name, { onDelete: 'cascade' }),
+  season: integer('season').notNull(),
+  stats: jsonb('stats').notNull(), // Stat name -> projected value, e.g. { PTS: 1850, REB: 620 }
+  points: real('points'), // Fantasy points, when the source provides them
+  importedAt: timestamp('imported_at').defaultNow(),
+}, (table) => [
+  uniqueIndex('idx_player_projections_player_source_season').on(table.playerId, table.source, table.season),
+  index('idx_player_projections_source_season').on(table.source, table.season),
+]);
+
+// Player Season Stats table - a player's actual stat totals for a past season
+export const playerSeasonStats = pgTable('player_season_stats', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  playerId: uuid('player_id').notNull().references(() => players.id, { onDelete: 'cascade' }),
+  season: integer('season').notNull(),
+  gamesPlayed: integer('games_played'),
+  stats: jsonb('stats').notNull(), // Stat name -> season total (rates such as FG% or AVG as rates)
+  importedAt: timestamp('imported_at').defaultNow(),
+}, (table) => [
+  uniqueIndex('idx_player_season_stats_player_season').on(table.playerId, table.season),
+]);
+
+// ADP Records table - average draft position by source, format, league size
+// and date. players.adp holds the latest market ADP across sources.
+export const adpRecords = pgTable('adp_records', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  playerId: uuid('player_id').notNull().references(() => players.id, { onDelete: 'cascade' }),
+  source: text('source').notNull(), // sleeper, espn, yahoo, community
+  format: scoringTypeEnum('format').notNull(),
+  numTeams: integer('num_teams').notNull(),
+  adp: real('adp').notNull(),
+  // Spread of the picks behind the ADP, for sources that publish it (community ADP)
+  minPick: integer('min_pick'),
+  maxPick: integer('max_pick'),
+  stdDev: real('std_dev'),
+  sampleSize: integer('sample_size'), // Drafts the player was picked in
+  recordedOn: date('recorded_on', { mode: 'string' }).notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  uniqueIndex('idx_adp_records_player_source_format_date').on(table.playerId, table.source, table.format, table.numTeams, table.recordedOn),
+  index('idx_adp_records_format_date').on(table.format, table.numTeams, table.recordedOn),
+]);
+
+// Player Sync Runs table - one row per Sleeper player sync, with its counts.
+// The cursor is the last Sleeper id written, so a failed run can resume.
+export const playerSyncRuns = pgTable('player_sync_runs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  source: text('source').notNull().default('sleeper'), // sleeper, or fixture for local runs
+  sport: sportEnum('sport').notNull(),
+  status: syncStatusEnum('status').notNull().default('running'),
+  cursor: text('cursor'),
+  fetched: integer('fetched').notNull().default(0),
+  inserted: integer('inserted').notNull().default(0),
+  updated: integer('updated').notNull().default(0),
+  unchanged: integer('unchanged').notNull().default(0),
+  skipped: integer('skipped').notNull().default(0),
+  errors: jsonb('errors'), // Array of { sleeperId, message } for batches that failed
+  error: text('error'), // Why a failed run stopped
+  startedAt: timestamp('started_at').defaultNow(),
+  finishedAt: timestamp('finished_at'),
+}, (table) => [
+  index('idx_player_sync_runs_sport_started').on(table.sport, table.startedAt),
+]);
+
+// Player Changes table - team, status and injury changes a sync run found
+export const playerChanges = pgTable('player_changes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  runId: uuid('run_id').notNull().references(() => playerSyncRuns.id, { onDelete: 'cascade' }),
+  playerId: uuid('player_id').notNull().references(() => players.id, { onDelete: 'cascade' }),
+  field: text('field').notNull(), // team, status, injuryStatus
+  previousValue: text('previous_value'),
+  newValue: text('new_value'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  index('idx_player_changes_run_id').on(table.runId),
+  index('idx_player_changes_player_id').on(table.playerId, table.createdAt),
+]);
+
+// Player News table - a player's status timeline: team, status and injury
+// changes found by syncs, plus news admins add by hand
+export const playerNews = pgTable('player_news', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  playerId: uuid('player_id').notNull().references(() => players.id, { onDelete: 'cascade' }),
+  source: text('source').notNull(), // sleeper, fixture, admin
+  field: text('field'), // team, status, injuryStatus; null for news with no status change
+  previousValue: text('previous_value'),
+  newValue: text('new_value'),
+  headline: text('headline').notNull(),
+  body: text('body'),
+  runId: uuid('run_id').references(() => playerSyncRuns.id, { onDelete: 'set null' }), // Sync that found the change
+  createdBy: text('created_by'), // Admin who added it
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  index('idx_player_news_player_id').on(table.playerId, table.createdAt),
+  index('idx_player_news_created_at').on(table.createdAt),
 ]);
 
 // Draft Picks table - stores picks made during a draft
@@ -181,11 +297,112 @@ export const draftPicks = pgTable('draft_picks', {
   pickNumber: integer('pick_number').notNull(), // Overall pick number
   pickInRound: integer('pick_in_round').notNull(), // Pick number within the round
   isUserPick: boolean('is_user_pick').default(false),
+  price: integer('price'), // Winning bid for auction drafts
+  isKeeper: boolean('is_keeper').default(false), // Kept player assigned before the draft starts
+  isAutoPick: boolean('is_auto_pick').default(false), // Made by the server when the pick clock expired
   createdAt: timestamp('created_at').defaultNow(),
 }, (table) => [
   index('idx_draft_picks_draft_id').on(table.draftId),
   index('idx_draft_picks_player_id').on(table.playerId),
   index('idx_draft_picks_team_number').on(table.teamNumber),
+  // Concurrent picks for the same slot or player: only the first lands
+  uniqueIndex('idx_draft_picks_draft_pick_number').on(table.draftId, table.pickNumber),
+  uniqueIndex('idx_draft_picks_draft_player').on(table.draftId, table.playerId),
+]);
+
+// Draft Pick Owners table - traded slots that override the computed pick order
+export const draftPickOwners = pgTable('draft_pick_owners', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  draftId: uuid('draft_id').notNull().references(() => drafts.id, { onDelete: 'cascade' }),
+  pickNumber: integer('pick_number').notNull(), // Overall pick number of the traded slot
+  originalTeam: integer('original_team').notNull(),
+  ownerTeam: integer('owner_team').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  uniqueIndex('idx_draft_pick_owners_draft_pick').on(table.draftId, table.pickNumber),
+]);
+
+// Auction Nominations table - players put up for bidding in auction drafts
+export const auctionNominations = pgTable('auction_nominations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  draftId: uuid('draft_id').notNull().references(() => drafts.id, { onDelete: 'cascade' }),
+  playerId: uuid('player_id').notNull().references(() => players.id),
+  nominatingTeam: integer('nominating_team').notNull(),
+  currentBid: integer('current_bid').notNull(),
+  highBidder: integer('high_bidder').notNull(), // Team number holding the current bid
+  status: nominationStatusEnum('status').notNull().default('open'),
+  createdAt: timestamp('created_at').defaultNow(),
+  closedAt: timestamp('closed_at'),
+}, (table) => [
+  index('idx_auction_nominations_draft_id').on(table.draftId),
+  index('idx_auction_nominations_status').on(table.status),
+  // One player up for bidding at a time
+  uniqueIndex('idx_auction_nominations_draft_open').on(table.draftId).where(sql`${table.status} = 'open'`),
+]);
+
+// Auction Bids table - bid history for each nomination
+export const auctionBids = pgTable('auction_bids', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  nominationId: uuid('nomination_id').notNull().references(() => auctionNominations.id, { onDelete: 'cascade' }),
+  teamNumber: integer('team_number').notNull(),
+  amount: integer('amount').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  index('idx_auction_bids_nomination_id').on(table.nominationId),
+]);
+
+// Draft Participants table - accounts drafting in a shared draft. The draft
+// owner is the commissioner and drafts from the draft position.
+export const draftParticipants = pgTable('draft_participants', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  draftId: uuid('draft_id').notNull().references(() => drafts.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull(),
+  role: participantRoleEnum('role').notNull().default('member'),
+  teamNumber: integer('team_number'), // Claimed team, null until the participant picks one
+  joinedAt: timestamp('joined_at').defaultNow(),
+}, (table) => [
+  uniqueIndex('idx_draft_participants_draft_user').on(table.draftId, table.userId),
+  uniqueIndex('idx_draft_participants_draft_team').on(table.draftId, table.teamNumber),
+  index('idx_draft_participants_user_id').on(table.userId),
+]);
+
+// Draft Invites table - shareable links, optionally sent to an email address
+export const draftInvites = pgTable('draft_invites', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  draftId: uuid('draft_id').notNull().references(() => drafts.id, { onDelete: 'cascade' }),
+  token: text('token').notNull().unique(),
+  email: text('email'), // Null for open invite links anyone with the link can use
+  invitedBy: text('invited_by').notNull(),
+  acceptedBy: text('accepted_by'), // Email invites are single use
+  acceptedAt: timestamp('accepted_at'),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  index('idx_draft_invites_draft_id').on(table.draftId),
+]);
+
+// Draft Events table - ordered log of board changes streamed to draft watchers
+export const draftEvents = pgTable('draft_events', {
+  id: serial('id').primaryKey(), // Sequential, doubles as the SSE event id
+  draftId: uuid('draft_id').notNull().references(() => drafts.id, { onDelete: 'cascade' }),
+  type: text('type').notNull(), // pick-made, pick-undone, clock, status
+  data: jsonb('data'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  index('idx_draft_events_draft_id').on(table.draftId, table.id),
+]);
+
+// Draft Queue table - each account's ordered list of players it is targeting in a draft
+export const draftQueueEntries = pgTable('draft_queue_entries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  draftId: uuid('draft_id').notNull().references(() => drafts.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull(),
+  playerId: uuid('player_id').notNull().references(() => players.id),
+  rank: integer('rank').notNull(), // 1 = most wanted
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  uniqueIndex('idx_draft_queue_draft_user_player').on(table.draftId, table.userId, table.playerId),
+  index('idx_draft_queue_draft_user_rank').on(table.draftId, table.userId, table.rank),
 ]);
 
 // Draft relations
@@ -195,6 +412,19 @@ export const draftsRelations = relations(drafts, ({ one, many }) => ({
     references: [userProfile.userId],
   }),
   picks: many(draftPicks),
+  pickOwners: many(draftPickOwners),
+  nominations: many(auctionNominations),
+  events: many(draftEvents),
+  participants: many(draftParticipants),
+  invites: many(draftInvites),
+  queueEntries: many(draftQueueEntries),
+}));
+
+export const draftPickOwnersRelations = relations(draftPickOwners, ({ one }) => ({
+  draft: one(drafts, {
+    fields: [draftPickOwners.draftId],
+    references: [drafts.id],
+  }),
 }));
 
 export const draftPicksRelations = relations(draftPicks, ({ one }) => ({
@@ -208,8 +438,119 @@ export const draftPicksRelations = relations(draftPicks, ({ one }) => ({
   }),
 }));
 
+export const auctionNominationsRelations = relations(auctionNominations, ({ one, many }) => ({
+  draft: one(drafts, {
+    fields: [auctionNominations.draftId],
+    references: [drafts.id],
+  }),
+  player: one(players, {
+    fields: [auctionNominations.playerId],
+    references: [players.id],
+  }),
+  bids: many(auctionBids),
+}));
+
+export const auctionBidsRelations = relations(auctionBids, ({ one }) => ({
+  nomination: one(auctionNominations, {
+    fields: [auctionBids.nominationId],
+    references: [auctionNominations.id],
+  }),
+}));
+
+export const draftParticipantsRelations = relations(draftParticipants, ({ one }) => ({
+  draft: one(drafts, {
+    fields: [draftParticipants.draftId],
+    references: [drafts.id],
+  }),
+}));
+
+export const draftInvitesRelations = relations(draftInvites, ({ one }) => ({
+  draft: one(drafts, {
+    fields: [draftInvites.draftId],
+    references: [drafts.id],
+  }),
+}));
+
+export const draftEventsRelations = relations(draftEvents, ({ one }) => ({
+  draft: one(drafts, {
+    fields: [draftEvents.draftId],
+    references: [drafts.id],
+  }),
+}));
+
+export const draftQueueEntriesRelations = relations(draftQueueEntries, ({ one }) => ({
+  draft: one(drafts, {
+    fields: [draftQueueEntries.draftId],
+    references: [drafts.id],
+  }),
+  player: one(players, {
+    fields: [draftQueueEntries.playerId],
+    references: [players.id],
+  }),
+}));
+
 export const playersRelations = relations(players, ({ many }) => ({
   draftPicks: many(draftPicks),
+  projections: many(playerProjections),
+  adpRecords: many(adpRecords),
+  changes: many(playerChanges),
+  news: many(playerNews),
+  seasonStats: many(playerSeasonStats),
+}));
+
+export const playerSeasonStatsRelations = relations(playerSeasonStats, ({ one }) => ({
+  player: one(players, {
+    fields: [playerSeasonStats.playerId],
+    references: [players.id],
+  }),
+}));
+
+export const playerNewsRelations = relations(playerNews, ({ one }) => ({
+  player: one(players, {
+    fields: [playerNews.playerId],
+    references: [players.id],
+  }),
+  run: one(playerSyncRuns, {
+    fields: [playerNews.runId],
+    references: [playerSyncRuns.id],
+  }),
+}));
+
+export const playerSyncRunsRelations = relations(playerSyncRuns, ({ many }) => ({
+  changes: many(playerChanges),
+}));
+
+export const playerChangesRelations = relations(playerChanges, ({ one }) => ({
+  run: one(playerSyncRuns, {
+    fields: [playerChanges.runId],
+    references: [playerSyncRuns.id],
+  }),
+  player: one(players, {
+    fields: [playerChanges.playerId],
+    references: [players.id],
+  }),
+}));
+
+export const projectionSourcesRelations = relations(projectionSources, ({ many }) => ({
+  projections: many(playerProjections),
+}));
+
+export const adpRecordsRelations = relations(adpRecords, ({ one }) => ({
+  player: one(players, {
+    fields: [adpRecords.playerId],
+    references: [players.id],
+  }),
+}));
+
+export const playerProjectionsRelations = relations(playerProjections, ({ one }) => ({
+  player: one(players, {
+    fields: [playerProjections.playerId],
+    references: [players.id],
+  }),
+  projectionSource: one(projectionSources, {
+    fields: [playerProjections.source],
+    references: [projectionSources.name],
+  }),
 }));
 
 // Type exports for use in application
@@ -230,4 +571,32 @@ export type NewDraft = typeof drafts.$inferInsert;
 export type Player = typeof players.$inferSelect;
 export type NewPlayer = typeof players.$inferInsert;
 export type DraftPick = typeof draftPicks.$inferSelect;
-export type NewDraftPick = typeof draftPicks.$inferInsert;
\ No newline at end of file
+export type NewDraftPick = typeof draftPicks.$inferInsert;
+export type DraftPickOwner = typeof draftPickOwners.$inferSelect;
+export type NewDraftPickOwner = typeof draftPickOwners.$inferInsert;
+export type AuctionNomination = typeof auctionNominations.$inferSelect;
+export type NewAuctionNomination = typeof auctionNominations.$inferInsert;
+export type AuctionBid = typeof auctionBids.$inferSelect;
+export type NewAuctionBid = typeof auctionBids.$inferInsert;
+export type DraftEvent = typeof draftEvents.$inferSelect;
+export type NewDraftEvent = typeof draftEvents.$inferInsert;
+export type DraftParticipant = typeof draftParticipants.$inferSelect;
+export type NewDraftParticipant = typeof draftParticipants.$inferInsert;
+export type DraftInvite = typeof draftInvites.$inferSelect;
+export type NewDraftInvite = typeof draftInvites.$inferInsert;
+export type DraftQueueEntry = typeof draftQueueEntries.$inferSelect;
+export type NewDraftQueueEntry = typeof draftQueueEntries.$inferInsert;
+export type ProjectionSource = typeof projectionSources.$inferSelect;
+export type NewProjectionSource = typeof projectionSources.$inferInsert;
+export type PlayerProjection = typeof playerProjections.$inferSelect;
+export type NewPlayerProjection = typeof playerProjections.$inferInsert;
+export type AdpRecord = typeof adpRecords.$inferSelect;
+export type NewAdpRecord = typeof adpRecords.$inferInsert;
+export type PlayerSyncRun = typeof playerSyncRuns.$inferSelect;
+export type NewPlayerSyncRun = typeof playerSyncRuns.$inferInsert;
+export type PlayerChange = typeof playerChanges.$inferSelect;
+export type NewPlayerChange = typeof playerChanges.$inferInsert;
+export type PlayerNews = typeof playerNews.$inferSelect;
+export type NewPlayerNews = typeof playerNews.$inferInsert;
+export type PlayerSeasonStats = typeof playerSeasonStats.$inferSelect;
+export type NewPlayerSeasonStats = typeof playerSeasonStats.$inferInsert;
\ No newline at end of file
@@ -0,0 +1,115 @@
+/**
+ * Draft Access
+ *
+ * Who may see and act in a draft. The account that created a draft is its
+ * commissioner and drafts from the draft position; invited participants join
+ * as members, claim one of the other teams and may only pick for it.
+ */
+
+import { randomBytes } from 'crypto';
+import { db } from '@/lib/db';
+import { drafts, draftParticipants, type Draft, type DraftInvite, type DraftParticipant } from '@/lib/db/schema';
+import { and, eq, isNotNull, or } from 'drizzle-orm';
+
+export type DraftRole = DraftParticipant['role'];
+
+export interface DraftAccess {
+  draft: Draft;
+  role: DraftRole;
+  isOwner: boolean;
+  teamNumber: number | null; // Team this account drafts for, null until a member claims one
+}
+
+export const INVITE_TTL_DAYS = 7;
+
+/**
+ * Load a draft together with the requesting account's role in it, or null if
+ * the account is neither the owner nor a participant
+ */
+export async function getDraftAccess(draftId: string, userId: string): Promise<DraftAccess | null> {
+  const [row] = await db
+    .select({ draft: drafts, participant: draftParticipants })
+    .from(drafts)
+    .leftJoin(draftParticipants, and(eq(draftParticipants.draftId, drafts.id), eq(draftParticipants.userId, userId)))
+    .where(and(eq(drafts.id, draftId), or(eq(drafts.userId, userId), isNotNull(draftParticipants.id))));
+
+  if (!row) {
+    return null;
+  }
+
+  if (row.draft.userId === userId) {
+    return { draft: row.draft, role: 'commissioner', isOwner: true, teamNumber: row.draft.draftPosition };
+  }
+
+  return {
+    draft: row.draft,
+    role: row.participant!.role,
+    isOwner: false,
+    teamNumber: row.participant!.teamNumber,
+  };
+}
+
+/**
+ * Whether the account may make picks, nominations and bids for a team
+ */
+export function canActForTeam(access: DraftAccess, teamNumber: number): boolean {
+  return access.role === 'commissioner' || access.teamNumber === teamNumber;
+}
+
+/**
+ * Ids of drafts the account has joined without owning
+ */
+export async function getJoinedDraftIds(userId: string): Promise<string[]> {
+  const rows = await db
+    .select({ draftId: draftParticipants.draftId })
+    .from(draftParticipants)
+    .where(eq(draftParticipants.userId, userId));
+
+  return rows.map(row => row.draftId);
+}
+
+/**
+ * Teams already taken in a draft: the owner's draft position plus every claimed team
+ */
+export async function getClaimedTeams(draft: Draft): Promise<Map<number, string>> {
+  const rows = await db
+    .select({ userId: draftParticipants.userId, teamNumber: draftParticipants.teamNumber })
+    .from(draftParticipants)
+    .where(and(eq(draftParticipants.draftId, draft.id), isNotNull(draftParticipants.teamNumber)));
+
+  return new Map([
+    [draft.draftPosition, draft.userId],
+    ...rows.map(row => [row.teamNumber!, row.userId] as [number, string]),
+  ]);
+}
+
+/**
+ * Random, URL-safe invite token
+ */
+export function createInviteToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/**
+ * Link a draft invite points to
+ */
+export function getInviteUrl(invite: Pick<DraftInvite, 'token'>): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  return `${baseUrl}/draft-room/join?token=${encodeURIComponent(invite.token)}`;
+}
+
+/**
+ * Why an invite can't be accepted by the account, or null if it can
+ */
+export function getInviteError(invite: DraftInvite, user: { id: string; email: string }): string | null {
+  if (invite.expiresAt < new Date()) {
+    return 'Invite has expired';
+  }
+  if (invite.email && invite.acceptedBy && invite.acceptedBy !== user.id) {
+    return 'Invite has already been used';
+  }
+  if (invite.email && invite.email.toLowerCase() !== user.email.toLowerCase()) {
+    return 'Invite was sent to a different email address';
+  }
+  return null;
+}
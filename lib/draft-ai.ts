@@ -5,11 +5,42 @@
  * using AI providers (OpenAI, Anthropic, etc.)
  */
 
-import { generateText, streamText } from 'ai';
+import { generateObject, streamObject } from 'ai';
+import { z } from 'zod';
 import { openai } from '@ai-sdk/openai';
 import { anthropic } from '@ai-sdk/anthropic';
 import { logger } from '@/lib/logger';
-import type { Player, Draft, DraftPick } from '@/lib/db/schema';
+import type { Player, Draft, DraftPick, PlayerNews } from '@/lib/db/schema';
+import type { PickSlot } from '@/lib/draft-order';
+import {
+  fillRosterSlots,
+  fillsOpenStartingSlot,
+  getPlayerPositions,
+  getRosterSlots,
+  isStartingSlot,
+  summarizeRosterSlots,
+} from '@/lib/roster-slots';
+import {
+  formatCategoryLine,
+  formatCategoryValue,
+  getCategoryTotals,
+  getMlbRole,
+  HITTING_CATEGORIES,
+  PITCHING_CATEGORIES,
+} from '@/lib/mlb';
+import {
+  computeCategoryRankings,
+  getCategoryProfile,
+  getCategoryWeaknesses,
+  getLeagueCategories,
+} from '@/lib/categories';
+import { describeScoringTable } from '@/lib/scoring';
+import { computeRankings } from '@/lib/rankings';
+import type { AdpTrend } from '@/lib/adp';
+import { COMMUNITY_ADP_LABEL, COMMUNITY_ADP_SOURCE } from '@/lib/community-adp';
+import { getDraftSettings } from '@/lib/draft-settings';
+import { getKeyStats, isRateStat, type SeasonSummary } from '@/lib/player-stats';
+import { findPlayerByName } from '@/lib/player-search';
 
 export interface DraftContext {
   draft: Draft;
@@ -18,6 +49,14 @@ export interface DraftContext {
   userRoster: Player[];
   currentPick: number;
   userTeamNumber: number;
+  userUpcomingPicks?: PickSlot[]; // Open slots the user owns, including acquired picks
+  userTradedAwayPicks?: PickSlot[]; // Open slots originally the user's that another team now owns
+  userQueue?: Player[]; // Available players the user has queued, most wanted first
+  puntCategories?: string[]; // Category leagues: categories the user is conceding
+  adpTrends?: Map<string, AdpTrend>; // ADP for the draft's format and league size, with weekly trend
+  adpSource?: string; // Set when adpTrends come from a single source
+  playerNews?: Map<string, PlayerNews[]>; // Recent injury and status news, newest first
+  seasonStats?: Map<string, SeasonSummary[]>; // Past seasons' actual stats, newest first
 }
 
 export interface PlayerRecommendation {
@@ -25,6 +64,7 @@ export interface PlayerRecommendation {
   playerName: string;
   position: string;
   team: string | null;
+  projectedPoints: number | null; // In the draft's league scoring
   reasoning: string;
   score: number; // 0-100 confidence score
   tags: string[]; // e.g., "best available", "positional need", "value pick"
@@ -37,19 +77,74 @@ export interface RecommendationsResult {
     strengths: string[];
     needs: string[];
   };
+  source: 'ai' | 'fallback'; // Fallback when no provider is configured or the AI's answer was unusable
 }
 
-// NBA fantasy positions and typical roster construction
-const NBA_POSITIONS = ['PG', 'SG', 'SF', 'PF', 'C', 'G', 'F', 'UTIL'];
-const IDEAL_ROSTER_COMPOSITION = {
-  PG: 2,
-  SG: 2,
-  SF: 2,
-  PF: 2,
-  C: 2,
-  // G, F, UTIL are flex positions
+// What the model must answer with
+const aiRecommendationSchema = z.object({
+  playerId: z.string().describe('The id in square brackets before the player\'s name'),
+  playerName: z.string(),
+  reasoning: z.string(),
+  score: z.number().min(0).max(100),
+  tags: z.array(z.string()),
+});
+
+const aiRecommendationsSchema = z.object({
+  recommendations: z.array(aiRecommendationSchema).min(1).max(5),
+  strategy: z.string(),
+  rosterNeeds: z.array(z.string()),
+});
+
+type AIRecommendation = z.infer<typeof aiRecommendationSchema>;
+type AIRecommendations = z.infer<typeof aiRecommendationsSchema>;
+
+// Prompt wording that differs by sport
+const SPORT_PROMPTS: Record<Draft['sport'], { analyst: string; exampleNeeds: string[]; strategy: string[] }> = {
+  NBA: {
+    analyst: 'an expert NBA fantasy basketball analyst',
+    exampleNeeds: ['PG', 'C'],
+    strategy: [
+      'Multi-position eligibility is valuable for filling G, F and UTIL slots',
+      'Games played and injury history matter over an 82-game season',
+    ],
+  },
+  NFL: {
+    analyst: 'an expert NFL fantasy football analyst',
+    exampleNeeds: ['RB', 'WR'],
+    strategy: [
+      'RB and TE depth dries up quickly; weigh positional scarcity against the best player available',
+      'Quarterbacks go later in 1-QB leagues but early when there is a SUPERFLEX slot',
+      'Leave kickers (K) and team defenses (DST) until the last rounds unless nothing else is worth a pick',
+      'Account for bye weeks when stacking starters at the same position',
+    ],
+  },
+  MLB: {
+    analyst: 'an expert MLB fantasy baseball analyst',
+    exampleNeeds: ['SP', 'C'],
+    strategy: [
+      'Balance hitters and pitchers; starting pitching depth thins out quickly',
+      'Catcher and closers are scarce; do not reach, but do not be the last to fill them',
+      'Two-way players (e.g. DH/SP) contribute hitting and pitching stats and can fill either kind of slot',
+      'In category leagues, stolen bases and saves come from few players; target them before they run out',
+    ],
+  },
 };
 
+// Draft picks left before kickers and defenses are worth taking in NFL fallbacks
+const NFL_LATE_ROUND_PICKS = 2;
+
+// Picks past their ADP before an available player counts as falling
+const FALLING_PICKS = 3;
+
+// How many of the best-ranked players fallback recommendations choose from
+const FALLBACK_CANDIDATE_POOL = 12;
+
+// Available players, by ADP and by projection, that ADP trends, news and
+// stats are loaded for. The ADP pool covers the prompt's top 30 plus the
+// fallers and movers of the next couple of rounds.
+const CANDIDATE_ADP_POOL = 60;
+const CANDIDATE_PROJECTION_POOL = 30;
+
 /**
  * Get AI provider based on environment configuration
  */
@@ -70,35 +165,311 @@ function getAIProvider() {
 }
 
 /**
- * Analyze current roster composition
+ * Analyze current roster composition against the draft's lineup slots
  */
-function analyzeRoster(roster: Player[]): { strengths: string[]; needs: string[] } {
-  const positionCounts: Record<string, number> = {};
-
-  for (const player of roster) {
-    const pos = player.position || 'UTIL';
-    positionCounts[pos] = (positionCounts[pos] || 0) + 1;
-  }
+function analyzeRoster(roster: Player[], draft: Draft): { strengths: string[]; needs: string[] } {
+  const fill = fillRosterSlots(draft.sport, getRosterSlots(draft), roster);
 
   const strengths: string[] = [];
   const needs: string[] = [];
 
-  for (const [pos, ideal] of Object.entries(IDEAL_ROSTER_COMPOSITION)) {
-    const count = positionCounts[pos] || 0;
-    if (count >= ideal) {
-      strengths.push(`${pos} (${count})`);
-    } else if (count < ideal - 1) {
-      needs.push(`${pos} (have ${count}, need ${ideal})`);
+  for (const { slot, filled, total } of summarizeRosterSlots(fill)) {
+    if (!isStartingSlot(slot)) {
+      continue;
+    }
+    if (filled >= total) {
+      strengths.push(`${slot} (${filled})`);
+    } else {
+      needs.push(`${slot} (have ${filled}, need ${total})`);
     }
   }
 
   if (needs.length === 0) {
-    needs.push('Roster is well-balanced');
+    needs.push('Starting lineup is full; draft depth');
   }
 
   return { strengths, needs };
 }
 
+/**
+ * Describe how the user's roster fills the draft's lineup slots
+ */
+function describeLineup(roster: Player[], draft: Draft): string {
+  const fill = fillRosterSlots(draft.sport, getRosterSlots(draft), roster);
+
+  return fill.slots
+    .map(({ slot, player }) => `- ${slot}: ${player ? `${player.fullName} (${formatPositions(player)})` : '(empty)'}`)
+    .join('\n');
+}
+
+/**
+ * A player's eligible positions, e.g. "PG/SG"
+ */
+function formatPositions(player: Player): string {
+  return getPlayerPositions(player).join('/') || 'N/A';
+}
+
+/**
+ * Describe the user's remaining picks, calling out trades
+ */
+function describeUserPicks(context: DraftContext): string {
+  const { userUpcomingPicks = [], userTradedAwayPicks = [], currentPick } = context;
+
+  if (userUpcomingPicks.length === 0 && userTradedAwayPicks.length === 0) {
+    return '';
+  }
+
+  const upcoming = userUpcomingPicks.map(slot =>
+    `#${slot.pickNumber} (Round ${slot.round}${slot.originalTeamNumber !== slot.teamNumber ? `, acquired from Team ${slot.originalTeamNumber}` : ''})`
+  );
+  const tradedAway = userTradedAwayPicks.map(slot =>
+    `#${slot.pickNumber} (Round ${slot.round}, now Team ${slot.teamNumber})`
+  );
+  const nextPick = userUpcomingPicks.find(slot => slot.pickNumber > currentPick);
+
+  return `
+USER'S REMAINING PICKS (${userUpcomingPicks.length}):
+- ${upcoming.join(', ') || 'None'}
+- Picks traded away: ${tradedAway.join(', ') || 'None'}
+- Picks until the user's next turn after this one: ${nextPick ? nextPick.pickNumber - currentPick : 'none left'}
+`;
+}
+
+/**
+ * Describe the players the user has queued up
+ */
+function describeUserQueue(context: DraftContext): string {
+  const { userQueue = [] } = context;
+
+  if (userQueue.length === 0) {
+    return '';
+  }
+
+  return `
+USER'S DRAFT QUEUE (players the user is targeting, most wanted first):
+${userQueue.map((p, i) => `${i + 1}. ${describePlayer(p, context)}`).join('\n')}
+`;
+}
+
+/**
+ * MLB category leagues: the user's projected category totals and where they
+ * trail the rest of the league
+ */
+function describeCategories(context: DraftContext): string {
+  const { draft, userRoster, picks } = context;
+
+  if (draft.scoringType !== 'categories' || getLeagueCategories(draft.sport).length === 0) {
+    return '';
+  }
+
+  const punt = context.puntCategories ?? [];
+  const drafted = picks.flatMap(pick => pick.player ? [pick.player] : []);
+  const rankings = computeCategoryRankings(draft, [...context.availablePlayers, ...drafted], punt);
+  const availableIds = new Set(context.availablePlayers.map(p => p.id));
+  const topAvailable = rankings.players.filter(ranking => availableIds.has(ranking.player.id)).slice(0, 10);
+  const sections: string[] = [];
+
+  if (draft.sport === 'MLB' && userRoster.length > 0) {
+    const totals = getCategoryTotals(userRoster);
+    const hitters = userRoster.filter(p => getMlbRole(p) !== 'pitcher').length;
+    const pitchers = userRoster.filter(p => getMlbRole(p) !== 'hitter').length;
+
+    sections.push(`USER'S PROJECTED CATEGORIES (${hitters} hitters, ${pitchers} pitchers; two-way players count as both):
+- ${[...HITTING_CATEGORIES, ...PITCHING_CATEGORIES]
+    .map(category => `${category} ${totals[category] === undefined ? '-' : formatCategoryValue(category, totals[category]!)}`)
+    .join(', ')}`);
+  }
+
+  if (topAvailable.length === 0) {
+    return sections.length > 0 ? `\n${sections.join('\n')}\n` : '';
+  }
+
+  if (userRoster.length > 0) {
+    const profile = getCategoryProfile(userRoster, rankings);
+    const weaknesses = getCategoryWeaknesses(profile, punt).slice(0, 3);
+
+    sections.push(`USER'S CATEGORY PROFILE (z-scores summed over the roster; an average player is 0 in every category):
+- ${rankings.categories
+    .map(category => `${category} ${profile[category] >= 0 ? '+' : ''}${profile[category].toFixed(1)}${punt.includes(category) ? ' (punted)' : ''}`)
+    .join(', ')}
+- Weakest categories: ${weaknesses.join(', ')}`);
+  }
+
+  if (punt.length > 0) {
+    sections.push(`PUNTING: ${punt.join(', ')}. The user is conceding these categories; ignore them and favor players who are strong elsewhere.`);
+  }
+
+  sections.push(`TOP 10 AVAILABLE BY CATEGORY VALUE (total z-score${punt.length > 0 ? ' without punted categories' : ''}):
+${topAvailable.map((ranking, i) => `${i + 1}. ${describePlayer(ranking.player, context)} - z ${ranking.total.toFixed(1)}`).join('\n')}`);
+
+  return `\n${sections.join('\n\n')}\n`;
+}
+
+/**
+ * A player's ADP: for the draft's format when there's history, else the market's
+ */
+function getPlayerAdp(player: Player, context: DraftContext): number | null {
+  return context.adpTrends?.get(player.id)?.adp ?? player.adp;
+}
+
+/**
+ * A player's last season in numbers: per-game key stats and their change
+ * from the season before, e.g. "2024 (70 G): 26.4 PTS (-0.1), 12.7 REB (+0.4)"
+ */
+function describeLastSeason(player: Player, context: DraftContext): string {
+  const [last] = context.seasonStats?.get(player.id) ?? [];
+  if (!last) {
+    return '';
+  }
+
+  const format = (stat: string, value: number) => isRateStat(stat) ? value.toFixed(3) : value.toFixed(1);
+  const stats = getKeyStats(player.sport)
+    .filter(stat => last.perGame[stat] !== undefined && (isRateStat(stat) || last.perGame[stat] !== 0))
+    .slice(0, 4)
+    .map(stat => {
+      const change = last.change?.[stat];
+      return `${format(stat, last.perGame[stat])} ${stat}${change !== undefined ? ` (${change >= 0 ? '+' : ''}${format(stat, change)})` : ''}`;
+    });
+
+  return stats.length > 0
+    ? `${last.season}${last.gamesPlayed !== null ? ` (${last.gamesPlayed} G)` : ''}: ${stats.join(', ')}`
+    : '';
+}
+
+/**
+ * A player's line in the prompt, with projected categories for MLB, the
+ * ADP trend and last season's numbers when the context has them
+ */
+function describePlayer(player: Player, context: DraftContext): string {
+  const trend = context.adpTrends?.get(player.id);
+  const movement = trend?.trend === 'rising' || trend?.trend === 'falling'
+    ? ` (${trend.trend} ${Math.abs(trend.change!)} this week)`
+    : '';
+  const community = trend?.ranges[COMMUNITY_ADP_SOURCE];
+  const range = community ? ` [goes ${community.minPick}-${community.maxPick} here]` : '';
+  const projection = player.projectedPoints !== null ? ` - Proj: ${player.projectedPoints} pts` : '';
+  const injury = player.injuryStatus ? ` - ${player.injuryStatus}` : '';
+  const line = `[${player.id}] ${player.fullName} (${formatPositions(player)}) - ${player.team} - ADP: ${getPlayerAdp(player, context) ?? 'N/A'}${movement}${range}${projection}${injury}`;
+  const categories = context.draft.sport === 'MLB' ? formatCategoryLine(player) : '';
+  const lastSeason = describeLastSeason(player, context);
+  return [line, categories, lastSeason].filter(Boolean).join(' - ');
+}
+
+/**
+ * Describe how the draft's scoring type changes player values
+ */
+function describeScoring(draft: Draft): string {
+  const customScoring = getDraftSettings(draft).scoring;
+  if (customScoring) {
+    return `Custom points per stat: ${describeScoringTable(customScoring)}. Projected points below use this scoring.`;
+  }
+
+  if (draft.sport === 'NFL') {
+    switch (draft.scoringType) {
+      case 'ppr':
+        return 'PPR: 1 point per reception. Target-heavy WRs, pass-catching RBs and TEs gain value.';
+      case 'half_ppr':
+        return 'Half PPR: 0.5 points per reception. Receptions matter, but touchdowns and yardage still lead.';
+      case 'standard':
+        return 'Standard: no points for receptions. Touchdowns and rushing yardage dominate, so workhorse RBs gain value.';
+    }
+  }
+
+  if (draft.sport === 'MLB' && draft.scoringType === 'categories') {
+    return `5x5 roto categories: ${HITTING_CATEGORIES.join('/')} for hitters, ${PITCHING_CATEGORIES.join('/')} for pitchers. AVG is weighted by at-bats and ERA/WHIP by innings, where lower is better.`;
+  }
+
+  switch (draft.scoringType) {
+    case 'categories':
+      return 'Categories: every scoring category counts equally, so balance them and avoid one-category specialists.';
+    case 'points':
+      return 'Points: total fantasy points decide matchups, so volume and availability matter most.';
+    default:
+      return draft.scoringType;
+  }
+}
+
+/**
+ * Players slipping past their ADP in this draft, and players the wider market
+ * is moving on, for the "is anyone falling?" question
+ */
+function describeAdpValue(context: DraftContext): string {
+  const { availablePlayers, currentPick, draft } = context;
+
+  const slipping = availablePlayers
+    .filter(p => {
+      const adp = getPlayerAdp(p, context);
+      return adp !== null && currentPick - adp >= FALLING_PICKS;
+    })
+    .sort((a, b) => getPlayerAdp(a, context)! - getPlayerAdp(b, context)!)
+    .slice(0, 5);
+
+  const movers = availablePlayers
+    .filter(p => {
+      const trend = context.adpTrends?.get(p.id)?.trend;
+      const adp = getPlayerAdp(p, context);
+      // Only players who could realistically go in the next round or two
+      return (trend === 'rising' || trend === 'falling') && adp !== null && adp <= currentPick + draft.numTeams * 2;
+    })
+    .sort((a, b) => Math.abs(context.adpTrends!.get(b.id)!.change!) - Math.abs(context.adpTrends!.get(a.id)!.change!))
+    .slice(0, 5);
+
+  const sections: string[] = [];
+
+  if (slipping.length > 0) {
+    sections.push(`FALLING IN THIS DRAFT (still available ${FALLING_PICKS}+ picks past their ADP):
+${slipping.map(p => `- [${p.id}] ${p.fullName} (${formatPositions(p)}) - ADP ${getPlayerAdp(p, context)}, now pick ${currentPick}`).join('\n')}`);
+  }
+
+  if (movers.length > 0) {
+    sections.push(`ADP MOVERS THIS WEEK (rising players go earlier than their ADP suggests; falling ones can wait):
+${movers.map(p => {
+    const trend = context.adpTrends!.get(p.id)!;
+    return `- [${p.id}] ${p.fullName} (${formatPositions(p)}) - ${trend.trend}: ADP ${trend.previousAdp} -> ${trend.adp}`;
+  }).join('\n')}`);
+  }
+
+  return sections.length > 0 ? `\n${sections.join('\n\n')}\n` : '';
+}
+
+/**
+ * Top available players by consensus projection, for drafts whose players
+ * have projections imported
+ */
+function describeTopProjected(context: DraftContext): string {
+  const topProjected = context.availablePlayers
+    .filter(p => p.projectedPoints !== null)
+    .sort((a, b) => b.projectedPoints! - a.projectedPoints!)
+    .slice(0, 10);
+
+  if (topProjected.length === 0) {
+    return '';
+  }
+
+  return `
+TOP 10 AVAILABLE BY PROJECTED POINTS (blended consensus):
+${topProjected.map((p, i) => `${i + 1}. ${describePlayer(p, context)}`).join('\n')}
+`;
+}
+
+/**
+ * Recent injury and status news for the top available players
+ */
+function describeInjuryNews(players: Player[], context: DraftContext): string {
+  const lines = players.flatMap(p => (context.playerNews?.get(p.id) ?? [])
+    .slice(0, 2)
+    .map(news => `- ${news.headline}${news.createdAt ? ` (${news.createdAt.toISOString().slice(0, 10)})` : ''}${news.body ? `: ${news.body}` : ''}`));
+
+  if (lines.length === 0) {
+    return '';
+  }
+
+  return `
+RECENT INJURY NEWS (weigh missed time against value; a player cleared to play is back to full value):
+${lines.join('\n')}
+`;
+}
+
 /**
  * Build the prompt for AI recommendations
  */
@@ -107,163 +478,134 @@ function buildRecommendationPrompt(context: DraftContext): string {
 
   // Get top available players by ADP
   const topAvailable = availablePlayers
-    .filter(p => p.adp !== null)
-    .sort((a, b) => (a.adp || 999) - (b.adp || 999))
+    .filter(p => getPlayerAdp(p, context) !== null)
+    .sort((a, b) => getPlayerAdp(a, context)! - getPlayerAdp(b, context)!)
     .slice(0, 30);
 
-  const rosterAnalysis = analyzeRoster(userRoster);
+  const rosterAnalysis = analyzeRoster(userRoster, draft);
+  const sportPrompt = SPORT_PROMPTS[draft.sport];
 
-  const prompt = `You are an expert NBA fantasy basketball analyst. Analyze this draft situation and recommend the best picks.
+  const prompt = `You are ${sportPrompt.analyst}. Analyze this draft situation and recommend the best picks.
 
 DRAFT CONTEXT:
 - Sport: ${draft.sport}
 - Draft Type: ${draft.draftType}
 - Teams: ${draft.numTeams}
-- User's Draft Position: ${draft.draftPosition}
+- User's Team: ${context.userTeamNumber}
 - Current Overall Pick: ${currentPick}
-- Scoring Type: ${draft.scoringType}
+- Scoring Type: ${describeScoring(draft)}
 
-USER'S CURRENT ROSTER (${userRoster.length} players):
-${userRoster.length > 0
-      ? userRoster.map(p => `- ${p.fullName} (${p.position}) - ${p.team}`).join('\n')
-      : '- No players drafted yet'
-    }
+USER'S LINEUP (${userRoster.length} players drafted; players fill any slot their positions are eligible for):
+${describeLineup(userRoster, draft)}
 
 ROSTER ANALYSIS:
 - Strengths: ${rosterAnalysis.strengths.join(', ') || 'None yet'}
 - Needs: ${rosterAnalysis.needs.join(', ')}
-
-TOP 30 AVAILABLE PLAYERS (sorted by ADP):
-${topAvailable.map((p, i) => `${i + 1}. ${p.fullName} (${p.position}) - ${p.team} - ADP: ${p.adp}`).join('\n')}
-
+${describeCategories(context)}${describeUserPicks(context)}${describeUserQueue(context)}
+TOP 30 AVAILABLE PLAYERS (sorted by ${context.adpSource === COMMUNITY_ADP_SOURCE ? COMMUNITY_ADP_LABEL : context.adpSource ? `${context.adpSource} ADP` : 'ADP'}):
+${topAvailable.map((p, i) => `${i + 1}. ${describePlayer(p, context)}`).join('\n')}
+${describeInjuryNews(topAvailable, context)}${describeAdpValue(context)}${describeTopProjected(context)}
 TASK:
 Recommend the TOP 5 best players to draft right now. Consider:
 1. Best Player Available (BPA) strategy
-2. Positional needs and roster construction
+2. Open starting lineup slots, counting every position a player is eligible at
 3. Value relative to ADP (is anyone falling?)
-4. Late-round strategy if applicable
+4. How long until the user picks again, and any extra or missing picks from trades
+5. The user's queue: favour queued players when they are close in value, and say when one can wait
+6. Category leagues: players who lift the user's weakest categories, never for punted ones
+7. Injuries and recent status news
+8. Late-round strategy if applicable
+
+${draft.sport} STRATEGY NOTES:
+${sportPrompt.strategy.map(note => `- ${note}`).join('\n')}
 
 For each recommendation, provide:
-- Player name and position
-- A brief reasoning (1-2 sentences)
+- The player's id exactly as listed in square brackets above, and their name. Only recommend players listed above.
+- A brief reasoning (1-2 sentences), citing last season's numbers when they're listed
 - Confidence score (0-100)
 - Tags: "best available", "positional need", "value pick", "sleeper", "safe floor", "high ceiling"
 
-Respond in JSON format:
-{
-  "recommendations": [
-    {
-      "playerName": "Player Name",
-      "position": "PG",
-      "reasoning": "Brief explanation",
-      "score": 85,
-      "tags": ["best available", "positional need"]
-    }
-  ],
-  "strategy": "One sentence overall strategy recommendation",
-  "rosterNeeds": ["PG", "C"]
-}`;
+Also give a one-sentence overall strategy, and the positions the roster still needs (e.g. ${JSON.stringify(sportPrompt.exampleNeeds)}).`;
 
   return prompt;
 }
 
 /**
- * Parse AI response into structured recommendations
+ * A check that turns each of the model's recommendations into one for a
+ * real, undrafted player. Ids that aren't in the candidate list or don't
+ * match the name given, players already drafted and repeats are dropped.
  */
-function parseAIResponse(
-  response: string,
-  availablePlayers: Player[]
-): RecommendationsResult {
-  try {
-    // Extract JSON from response (handle markdown code blocks)
-    let jsonStr = response;
-    const jsonMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (jsonMatch) {
-      jsonStr = jsonMatch[1];
-    }
-
-    const parsed = JSON.parse(jsonStr);
-
-    // Map recommendations to actual players
-    const recommendations: PlayerRecommendation[] = [];
-
-    for (const rec of parsed.recommendations || []) {
-      // Find matching player
-      const player = availablePlayers.find(
-        p => p.fullName.toLowerCase().includes(rec.playerName.toLowerCase()) ||
-          rec.playerName.toLowerCase().includes(p.fullName.toLowerCase())
-      );
-
-      if (player) {
-        recommendations.push({
-          playerId: player.id,
-          playerName: player.fullName,
-          position: player.position || rec.position,
-          team: player.team,
-          reasoning: rec.reasoning,
-          score: rec.score || 75,
-          tags: rec.tags || [],
-        });
-      }
-    }
-
-    // Ensure we have at least some recommendations
-    if (recommendations.length === 0) {
-      // Fallback to top ADP players
-      const topPlayers = availablePlayers
-        .filter(p => p.adp !== null)
-        .sort((a, b) => (a.adp || 999) - (b.adp || 999))
-        .slice(0, 5);
-
-      for (const player of topPlayers) {
-        recommendations.push({
-          playerId: player.id,
-          playerName: player.fullName,
-          position: player.position || 'UTIL',
-          team: player.team,
-          reasoning: 'Best available player by ADP',
-          score: 70,
-          tags: ['best available'],
-        });
-      }
+function createRecommendationCheck(context: DraftContext): (rec: AIRecommendation) => PlayerRecommendation | null {
+  const candidates = new Map(context.availablePlayers.map(player => [player.id, player]));
+  const drafted = new Set(context.picks.map(pick => pick.playerId));
+  const accepted = new Set<string>();
+
+  return (rec) => {
+    const player = candidates.get(rec.playerId);
+    const reason = drafted.has(rec.playerId)
+      ? 'already drafted'
+      : !player
+        ? 'not a candidate'
+        : !findPlayerByName([player], rec.playerName)
+          ? `id belongs to ${player.fullName}` // The reasoning is about someone else
+          : accepted.has(player.id) ? 'duplicate' : null;
+
+    if (!player || reason) {
+      logger.warn('Rejected AI recommendation', {
+        draftId: context.draft.id,
+        playerId: rec.playerId,
+        playerName: rec.playerName,
+        reason,
+      });
+      return null;
     }
 
+    accepted.add(player.id);
     return {
-      recommendations: recommendations.slice(0, 5),
-      strategy: parsed.strategy || 'Draft the best available player',
-      rosterAnalysis: {
-        strengths: [],
-        needs: parsed.rosterNeeds || [],
-      },
+      playerId: player.id,
+      playerName: player.fullName,
+      position: player.position || 'UTIL',
+      team: player.team,
+      projectedPoints: player.projectedPoints,
+      reasoning: rec.reasoning,
+      score: Math.round(rec.score),
+      tags: rec.tags,
     };
-  } catch (error) {
-    logger.error('Failed to parse AI recommendations response', {
-      error: error instanceof Error ? error.message : 'Unknown error',
-    });
+  };
+}
 
-    // Return fallback recommendations
-    const topPlayers = availablePlayers
-      .filter(p => p.adp !== null)
-      .sort((a, b) => (a.adp || 999) - (b.adp || 999))
-      .slice(0, 5);
+/**
+ * The result for recommendations the model made
+ */
+function toAIResult(answer: AIRecommendations, recommendations: PlayerRecommendation[]): RecommendationsResult {
+  return {
+    recommendations,
+    strategy: answer.strategy,
+    rosterAnalysis: {
+      strengths: [],
+      needs: answer.rosterNeeds,
+    },
+    source: 'ai',
+  };
+}
 
-    return {
-      recommendations: topPlayers.map(player => ({
-        playerId: player.id,
-        playerName: player.fullName,
-        position: player.position || 'UTIL',
-        team: player.team,
-        reasoning: 'Best available player by ADP',
-        score: 70,
-        tags: ['best available'],
-      })),
-      strategy: 'Draft the best available player',
-      rosterAnalysis: {
-        strengths: [],
-        needs: [],
-      },
-    };
-  }
+/**
+ * Ids of the available players recommendations are drawn from: the best by
+ * ADP and by projected points, plus `extraIds` such as the user's queue or
+ * the best by a chosen ADP source. The rest of the pool only matters for
+ * replacement levels, so trends, news and stats need loading for these alone.
+ */
+export function getRecommendationCandidateIds(availablePlayers: Player[], draft: Draft, extraIds: string[] = []): string[] {
+  const byAdp = availablePlayers
+    .filter(p => p.adp !== null)
+    .sort((a, b) => a.adp! - b.adp!)
+    .slice(0, Math.max(CANDIDATE_ADP_POOL, draft.numTeams * 4));
+  const byProjection = availablePlayers
+    .filter(p => p.projectedPoints !== null)
+    .sort((a, b) => b.projectedPoints! - a.projectedPoints!)
+    .slice(0, CANDIDATE_PROJECTION_POOL);
+
+  return [...new Set([...byAdp, ...byProjection].map(p => p.id).concat(extraIds))];
 }
 
 /**
@@ -289,21 +631,31 @@ export async function generateRecommendations(
       availablePlayers: context.availablePlayers.length,
     });
 
-    const { text } = await generateText({
+    const { object } = await generateObject({
       model: provider.model,
+      schema: aiRecommendationsSchema,
       prompt,
       maxTokens: 1000,
       temperature: 0.7,
     });
 
-    const result = parseAIResponse(text, context.availablePlayers);
+    const check = createRecommendationCheck(context);
+    const recommendations = object.recommendations
+      .map(check)
+      .filter((rec): rec is PlayerRecommendation => rec !== null);
+
+    // None of the picks were usable
+    if (recommendations.length === 0) {
+      logger.warn('No valid AI recommendations, using fallback recommendations', { draftId: context.draft.id });
+      return getFallbackRecommendations(context);
+    }
 
     logger.info('AI recommendations generated', {
       draftId: context.draft.id,
-      recommendationCount: result.recommendations.length,
+      recommendationCount: recommendations.length,
     });
 
-    return result;
+    return toAIResult(object, recommendations);
   } catch (error) {
     logger.error('AI recommendation generation failed', {
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -314,36 +666,227 @@ export async function generateRecommendations(
   }
 }
 
+/**
+ * Generate AI draft recommendations, passing each one to `onRecommendation`
+ * as soon as the model has finished writing it. Resolves with the full
+ * result, strategy included, once the model is done. Fallback
+ * recommendations are passed on all at once.
+ */
+export async function streamRecommendations(
+  context: DraftContext,
+  onRecommendation: (recommendation: PlayerRecommendation) => Promise<void>
+): Promise<RecommendationsResult> {
+  const provider = getAIProvider();
+  const fallback = async () => {
+    const result = getFallbackRecommendations(context);
+    for (const recommendation of result.recommendations) {
+      await onRecommendation(recommendation);
+    }
+    return result;
+  };
+
+  if (!provider) {
+    logger.warn('No AI provider configured, using fallback recommendations');
+    return fallback();
+  }
+
+  const prompt = buildRecommendationPrompt(context);
+  const check = createRecommendationCheck(context);
+  const recommendations: PlayerRecommendation[] = [];
+  let checked = 0;
+
+  // Check a finished recommendation and pass it on if it's usable
+  const emit = async (rec: unknown) => {
+    checked++;
+    const parsed = aiRecommendationSchema.safeParse(rec);
+    const recommendation = parsed.success ? check(parsed.data) : null;
+    if (recommendation) {
+      recommendations.push(recommendation);
+      await onRecommendation(recommendation);
+    }
+  };
+
+  try {
+    logger.info('Streaming AI draft recommendations', {
+      provider: provider.provider,
+      draftId: context.draft.id,
+      currentPick: context.currentPick,
+      availablePlayers: context.availablePlayers.length,
+    });
+
+    const result = streamObject({
+      model: provider.model,
+      schema: aiRecommendationsSchema,
+      prompt,
+      maxTokens: 1000,
+      temperature: 0.7,
+      onError: ({ error }) => {
+        logger.error('AI recommendation stream failed', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          draftId: context.draft.id,
+        });
+      },
+    });
+
+    // A recommendation is finished once the model starts the next one
+    for await (const partial of result.partialObjectStream) {
+      const written = partial.recommendations ?? [];
+      while (checked < written.length - 1) {
+        await emit(written[checked]);
+      }
+    }
+
+    // The last one finishes with the stream; rejects when the answer
+    // doesn't match the schema
+    const object = await result.object;
+    while (checked < object.recommendations.length) {
+      await emit(object.recommendations[checked]);
+    }
+
+    if (recommendations.length === 0) {
+      logger.warn('No valid AI recommendations, using fallback recommendations', { draftId: context.draft.id });
+      return fallback();
+    }
+
+    logger.info('AI recommendations streamed', {
+      draftId: context.draft.id,
+      recommendationCount: recommendations.length,
+    });
+
+    return toAIResult(object, recommendations);
+  } catch (error) {
+    logger.error('AI recommendation generation failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      draftId: context.draft.id,
+    });
+
+    // Keep whatever was already streamed rather than contradicting it
+    if (recommendations.length > 0) {
+      return {
+        recommendations,
+        strategy: 'Draft the best available player',
+        rosterAnalysis: analyzeRoster(context.userRoster, context.draft),
+        source: 'ai',
+      };
+    }
+    return fallback();
+  }
+}
+
 /**
  * Fallback recommendations when AI is unavailable
  */
 function getFallbackRecommendations(context: DraftContext): RecommendationsResult {
-  const { availablePlayers, userRoster } = context;
-  const rosterAnalysis = analyzeRoster(userRoster);
+  const { draft, availablePlayers, userRoster } = context;
+  const rosterAnalysis = analyzeRoster(userRoster, draft);
+  const rosterSlots = getRosterSlots(draft);
+
+  // NFL: kickers and defenses wait until the last few picks
+  const picksLeft = context.userUpcomingPicks?.length ?? Infinity;
+  const deferPositions = draft.sport === 'NFL' && picksLeft > NFL_LATE_ROUND_PICKS ? ['K', 'DST', 'DEF'] : [];
+
+  // Category leagues: z-score value, and the user's weakest category that
+  // isn't punted
+  const drafted = context.picks.flatMap(pick => pick.player ? [pick.player] : []);
+  const punt = context.puntCategories ?? [];
+  const categoryRankings = draft.scoringType === 'categories' && getLeagueCategories(draft.sport).length > 0
+    ? computeCategoryRankings(draft, [...availablePlayers, ...drafted], punt)
+    : null;
+  const categoryValues = new Map(categoryRankings?.players.map(ranking => [ranking.player.id, ranking]));
+  const [categoryNeed] = categoryRankings && userRoster.length > 0
+    ? getCategoryWeaknesses(getCategoryProfile(userRoster, categoryRankings), punt)
+    : [];
+
+  // Points leagues: value over replacement, measured against the whole pool
+  const valuations = new Map(categoryRankings
+    ? []
+    : computeRankings(draft, [...availablePlayers, ...drafted]).players.map(ranking => [ranking.player.id, ranking]));
+  const value = (player: Player) => categoryRankings ? categoryValues.get(player.id)?.total : valuations.get(player.id)?.vorp;
+
+  // Rank by ADP, averaged with the value rank when the player has projections
+  const eligible = availablePlayers
+    .filter(p => getPlayerAdp(p, context) !== null || value(p) !== undefined)
+    .filter(p => !getPlayerPositions(p).some(pos => deferPositions.includes(pos)));
+  const rankBy = (list: Player[]) => new Map(list.map((player, index) => [player.id, index + 1]));
+  const adpRanks = rankBy(eligible
+    .filter(p => getPlayerAdp(p, context) !== null)
+    .sort((a, b) => getPlayerAdp(a, context)! - getPlayerAdp(b, context)!));
+  const valueRanks = rankBy(eligible.filter(p => value(p) !== undefined).sort((a, b) => value(b)! - value(a)!));
+  const rank = (player: Player) => {
+    const ranks = [adpRanks.get(player.id), valueRanks.get(player.id)].filter((r): r is number => r !== undefined);
+    return ranks.reduce((sum, r) => sum + r, 0) / ranks.length;
+  };
 
-  // Sort by ADP
-  const sortedPlayers = [...availablePlayers]
-    .filter(p => p.adp !== null)
-    .sort((a, b) => (a.adp || 999) - (b.adp || 999));
+  // The last available player in a position tier is worth taking before the drop
+  const isLastInTier = (player: Player) => {
+    const ranking = valuations.get(player.id);
+    return !!ranking && !eligible.some(p => {
+      const other = valuations.get(p.id);
+      return p.id !== player.id && other?.position === ranking.position && other.positionTier === ranking.positionTier;
+    });
+  };
+
+  // Best available, letting players who fill an open starting slot or the
+  // weakest category jump up to half a round, and the last of a tier a
+  // quarter round
+  const candidates = eligible
+    .sort((a, b) => rank(a) - rank(b))
+    .slice(0, FALLBACK_CANDIDATE_POOL);
+  const scored = candidates.map(player => ({
+    player,
+    fillsNeed: fillsOpenStartingSlot(draft.sport, rosterSlots, userRoster, player),
+    helpsCategory: !!categoryNeed && (categoryValues.get(player.id)?.zScores[categoryNeed] ?? 0) > 0,
+    lastInTier: isLastInTier(player),
+  }));
+  const adjustedRank = ({ player, fillsNeed, helpsCategory, lastInTier }: typeof scored[number]) =>
+    rank(player) - (fillsNeed || helpsCategory ? draft.numTeams / 2 : lastInTier ? draft.numTeams / 4 : 0);
 
   // Get top 5
-  const recommendations: PlayerRecommendation[] = sortedPlayers
+  const recommendations: PlayerRecommendation[] = scored
+    .sort((a, b) => adjustedRank(a) - adjustedRank(b))
     .slice(0, 5)
-    .map((player, index) => ({
-      playerId: player.id,
-      playerName: player.fullName,
-      position: player.position || 'UTIL',
-      team: player.team,
-      reasoning: index === 0
-        ? 'Best available player by ADP'
-        : `Strong value at pick ${context.currentPick}`,
-      score: 80 - index * 5,
-      tags: index === 0 ? ['best available'] : ['value pick'],
-    }));
+    .map(({ player, fillsNeed, helpsCategory, lastInTier }, index) => {
+      const valuation = valuations.get(player.id);
+      const categoryValue = categoryValues.get(player.id);
+      const valueNote = valuation
+        ? ` (tier ${valuation.positionTier} ${valuation.position}, ${valuation.vorp} points over replacement)`
+        : categoryValue ? ` (${categoryValue.total.toFixed(1)} total z-score)` : '';
+
+      return {
+        playerId: player.id,
+        playerName: player.fullName,
+        position: player.position || 'UTIL',
+        team: player.team,
+        projectedPoints: player.projectedPoints,
+        reasoning: (fillsNeed
+          ? `Fills an open ${formatPositions(player)} starting spot at pick ${context.currentPick}`
+          : helpsCategory
+            ? `Above-average ${categoryNeed}, your weakest category`
+            : lastInTier && valuation
+              ? `Last ${valuation.position} left in tier ${valuation.positionTier}`
+              : index === 0
+                ? valueRanks.size === 0
+                  ? 'Best available player by ADP'
+                  : categoryRankings ? 'Best available player by ADP and category value' : 'Best available player by ADP and value over replacement'
+                : `Strong value at pick ${context.currentPick}`) + valueNote,
+        score: 80 - index * 5,
+        tags: [
+          index === 0 ? 'best available' : 'value pick',
+          ...(fillsNeed ? ['positional need'] : []),
+          ...(helpsCategory ? ['category need'] : []),
+          ...(lastInTier ? ['tier break'] : []),
+        ],
+      };
+    });
 
   return {
     recommendations,
-    strategy: 'Draft the best available player based on ADP rankings',
+    strategy: valueRanks.size === 0
+      ? 'Draft the best available player based on ADP rankings'
+      : categoryRankings
+        ? `Draft the best category value${punt.length > 0 ? ` punting ${punt.join(', ')}` : ''}, shoring up your weakest categories`
+        : 'Draft the best value over replacement, taking the last player of a tier before it drops off',
     rosterAnalysis,
+    source: 'fallback',
   };
 }
@@ -0,0 +1,183 @@
+/**
+ * Auction Draft Engine
+ *
+ * Budgets, bid limits and nomination turns for auction drafts. Budgets are
+ * never stored: they are derived from the winning prices on `draft_picks`,
+ * so undoing a pick automatically refunds the team.
+ */
+
+import { db } from '@/lib/db';
+import { auctionNominations, draftPicks, players, type AuctionNomination, type Draft } from '@/lib/db/schema';
+import { getDraftSettings } from '@/lib/draft-settings';
+import { eq, and, desc, ne } from 'drizzle-orm';
+
+export const DEFAULT_AUCTION_BUDGET = 200;
+export const DEFAULT_MIN_BID = 1;
+
+export interface AuctionRules {
+  budget: number;
+  minBid: number;
+}
+
+export interface TeamBudget {
+  teamNumber: number;
+  spent: number;
+  remaining: number;
+  rosterCount: number;
+  openSpots: number;
+  maxBid: number; // Highest bid that still leaves minBid for every other open spot
+}
+
+export interface AuctionState {
+  rules: AuctionRules;
+  teams: TeamBudget[];
+  nominatingTeam: number | null; // Team whose turn it is to nominate, null when no open nomination is allowed
+  openNomination: (AuctionNomination & {
+    player: { id: string; fullName: string; team: string | null; position: string | null } | null;
+  }) | null;
+}
+
+type AuctionDraft = Pick<Draft, 'numTeams' | 'rosterSize' | 'settings'>;
+type PricedPick = { teamNumber: number; price: number | null };
+
+/**
+ * Get the budget and minimum bid for an auction draft
+ */
+export function getAuctionRules(draft: Pick<Draft, 'settings'>): AuctionRules {
+  const settings = getDraftSettings(draft);
+  return {
+    budget: settings.auctionBudget ?? DEFAULT_AUCTION_BUDGET,
+    minBid: settings.minBid ?? DEFAULT_MIN_BID,
+  };
+}
+
+/**
+ * Highest bid a team can make while keeping minBid for each other open spot
+ */
+export function getMaxBid(remaining: number, openSpots: number, minBid: number): number {
+  if (openSpots <= 0) {
+    return 0;
+  }
+  return Math.max(0, remaining - (openSpots - 1) * minBid);
+}
+
+/**
+ * Compute every team's spend, remaining budget and bid ceiling
+ */
+export function getTeamBudgets(draft: AuctionDraft, picks: PricedPick[]): TeamBudget[] {
+  const rules = getAuctionRules(draft);
+  const budgets: TeamBudget[] = [];
+
+  for (let teamNumber = 1; teamNumber <= draft.numTeams; teamNumber++) {
+    const teamPicks = picks.filter(p => p.teamNumber === teamNumber);
+    const spent = teamPicks.reduce((sum, p) => sum + (p.price ?? 0), 0);
+    const remaining = rules.budget - spent;
+    const openSpots = Math.max(0, draft.rosterSize - teamPicks.length);
+
+    budgets.push({
+      teamNumber,
+      spent,
+      remaining,
+      rosterCount: teamPicks.length,
+      openSpots,
+      maxBid: getMaxBid(remaining, openSpots, rules.minBid),
+    });
+  }
+
+  return budgets;
+}
+
+/**
+ * Find the team that nominates next: the first team after the previous
+ * nominator that still has an open roster spot
+ */
+export function getNextNominatingTeam(
+  draft: AuctionDraft,
+  teams: TeamBudget[],
+  lastNominatingTeam: number | null
+): number | null {
+  const start = lastNominatingTeam ?? 0;
+
+  for (let offset = 1; offset <= draft.numTeams; offset++) {
+    const teamNumber = ((start + offset - 1) % draft.numTeams) + 1;
+    const team = teams.find(t => t.teamNumber === teamNumber);
+    if (team && team.openSpots > 0) {
+      return teamNumber;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check a bid against the auction rules, returning an error message if invalid
+ */
+export function validateBid(
+  rules: AuctionRules,
+  team: TeamBudget | undefined,
+  amount: number,
+  currentBid: number | null
+): string | null {
+  if (!team) {
+    return 'Team not found';
+  }
+  if (team.openSpots <= 0) {
+    return 'Team roster is full';
+  }
+  if (amount < rules.minBid) {
+    return `Bid must be at least ${rules.minBid}`;
+  }
+  if (currentBid !== null && amount <= currentBid) {
+    return `Bid must be higher than ${currentBid}`;
+  }
+  if (amount > team.maxBid) {
+    return `Bid exceeds team's max bid of ${team.maxBid}`;
+  }
+  return null;
+}
+
+/**
+ * Load the full auction state for a draft
+ */
+export async function getAuctionState(draft: Draft): Promise<AuctionState> {
+  const picks = await db
+    .select({ teamNumber: draftPicks.teamNumber, price: draftPicks.price })
+    .from(draftPicks)
+    .where(eq(draftPicks.draftId, draft.id));
+
+  const teams = getTeamBudgets(draft, picks);
+
+  const [openNomination] = await db
+    .select({ nomination: auctionNominations, player: players })
+    .from(auctionNominations)
+    .leftJoin(players, eq(auctionNominations.playerId, players.id))
+    .where(and(eq(auctionNominations.draftId, draft.id), eq(auctionNominations.status, 'open')))
+    .limit(1);
+
+  let nominatingTeam: number | null = null;
+  if (!openNomination) {
+    const [lastNomination] = await db
+      .select({ nominatingTeam: auctionNominations.nominatingTeam })
+      .from(auctionNominations)
+      .where(and(eq(auctionNominations.draftId, draft.id), ne(auctionNominations.status, 'cancelled')))
+      .orderBy(desc(auctionNominations.createdAt))
+      .limit(1);
+
+    nominatingTeam = getNextNominatingTeam(draft, teams, lastNomination?.nominatingTeam ?? null);
+  }
+
+  return {
+    rules: getAuctionRules(draft),
+    teams,
+    nominatingTeam,
+    openNomination: openNomination ? {
+      ...openNomination.nomination,
+      player: openNomination.player ? {
+        id: openNomination.player.id,
+        fullName: openNomination.player.fullName,
+        team: openNomination.player.team,
+        position: openNomination.player.position,
+      } : null,
+    } : null,
+  };
+}
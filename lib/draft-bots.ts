@@ -0,0 +1,284 @@
+/**
+ * Mock Draft Bots
+ *
+ * Picks for CPU-controlled teams in mock drafts. Every team other than the
+ * user's is drafted server-side until the user is back on the clock. Also
+ * makes the automatic pick for any team whose pick clock runs out, from the
+ * scheduled clock sweep and before any pick is made by hand.
+ */
+
+import { db, isUniqueViolation } from '@/lib/db';
+import { drafts, draftPicks, players, type Draft, type DraftPick, type Player } from '@/lib/db/schema';
+import { getDraftSettings } from '@/lib/draft-settings';
+import { getPickOwners, getTakenPickNumbers, recordPick } from '@/lib/draft-picks';
+import { getNextOpenSlot } from '@/lib/draft-order';
+import { getClaimedTeams } from '@/lib/draft-access';
+import { getDraftQueue } from '@/lib/draft-queue';
+import { withLeaguePoints } from '@/lib/scoring';
+import { fillsOpenStartingSlot, getRosterSlots } from '@/lib/roster-slots';
+import { logger } from '@/lib/logger';
+import { and, eq, isNotNull, lt, notInArray } from 'drizzle-orm';
+
+export type BotStrategy = 'adp_noise' | 'positional_need' | 'best_projected';
+
+export const DEFAULT_BOT_STRATEGY: BotStrategy = 'adp_noise';
+export const DEFAULT_BOT_ADP_NOISE = 3; // Standard deviation, in picks
+
+// How many of the top ADP players the positional-need bot considers
+const NEED_CANDIDATE_POOL = 12;
+// ADP picks a bot will reach for a player who fills an open starting slot
+const NEED_SLOT_BONUS = 8;
+
+const UNRANKED_ADP = 999;
+
+/**
+ * Normally distributed noise (Box-Muller)
+ */
+function gaussian(random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function byAdp(a: Player, b: Player): number {
+  return (a.adp ?? UNRANKED_ADP) - (b.adp ?? UNRANKED_ADP);
+}
+
+/**
+ * Choose the player a bot takes from the available pool
+ */
+export function chooseBotPick(
+  strategy: BotStrategy,
+  draft: Pick<Draft, 'sport' | 'rosterSize' | 'settings'>,
+  availablePlayers: Player[],
+  roster: Player[],
+  options: { adpNoise?: number; random?: () => number } = {}
+): Player | null {
+  if (availablePlayers.length === 0) {
+    return null;
+  }
+
+  const random = options.random ?? Math.random;
+
+  switch (strategy) {
+    case 'best_projected':
+      return [...availablePlayers].sort((a, b) =>
+        (b.projectedPoints ?? -1) - (a.projectedPoints ?? -1) || byAdp(a, b)
+      )[0];
+
+    case 'positional_need': {
+      // Needs come from the league's roster slots, counting multi-position eligibility
+      const rosterSlots = getRosterSlots(draft);
+      const candidates = [...availablePlayers].sort(byAdp).slice(0, NEED_CANDIDATE_POOL);
+      const scores = new Map(candidates.map(player => [
+        player.id,
+        (player.adp ?? UNRANKED_ADP) - (fillsOpenStartingSlot(draft.sport, rosterSlots, roster, player) ? NEED_SLOT_BONUS : 0),
+      ]));
+
+      return candidates.sort((a, b) => scores.get(a.id)! - scores.get(b.id)!)[0];
+    }
+
+    case 'adp_noise':
+    default: {
+      const noise = options.adpNoise ?? DEFAULT_BOT_ADP_NOISE;
+      const noisyAdp = new Map(availablePlayers.map(player => [
+        player.id,
+        (player.adp ?? UNRANKED_ADP) + gaussian(random) * noise,
+      ]));
+
+      return [...availablePlayers].sort((a, b) => noisyAdp.get(a.id)! - noisyAdp.get(b.id)!)[0];
+    }
+  }
+}
+
+/**
+ * Whether a draft is a mock draft with CPU opponents
+ */
+export function isMockDraft(draft: Draft): boolean {
+  return draft.draftType !== 'auction' && getDraftSettings(draft).mockDraft === true;
+}
+
+/**
+ * Make bot picks until the user's team is on the clock or the draft ends
+ */
+export async function runBotPicks(draft: Draft): Promise<DraftPick[]> {
+  if (!isMockDraft(draft)) {
+    return [];
+  }
+
+  const settings = getDraftSettings(draft);
+  const strategy = settings.botStrategy ?? DEFAULT_BOT_STRATEGY;
+
+  const [takenPickNumbers, owners, existingPicks, sportPlayers] = await Promise.all([
+    getTakenPickNumbers(draft.id),
+    getPickOwners(draft.id),
+    db.select().from(draftPicks).where(eq(draftPicks.draftId, draft.id)),
+    db.select().from(players).where(eq(players.sport, draft.sport)),
+  ]);
+
+  // Bots projecting points use the league's scoring
+  const leaguePlayers = withLeaguePoints(sportPlayers, draft);
+  const playersById = new Map(leaguePlayers.map(player => [player.id, player]));
+  const draftedIds = new Set(existingPicks.map(pick => pick.playerId));
+  let availablePlayers = leaguePlayers.filter(player => !draftedIds.has(player.id));
+
+  const rosters = new Map<number, Player[]>();
+  for (const pick of existingPicks) {
+    const player = playersById.get(pick.playerId);
+    if (player) {
+      rosters.set(pick.teamNumber, [...(rosters.get(pick.teamNumber) ?? []), player]);
+    }
+  }
+
+  const botPicks: DraftPick[] = [];
+  let currentDraft = draft;
+  let slot = getNextOpenSlot(draft, takenPickNumbers, owners);
+
+  while (slot && slot.teamNumber !== draft.draftPosition) {
+    const player = chooseBotPick(strategy, draft, availablePlayers, rosters.get(slot.teamNumber) ?? [], {
+      adpNoise: settings.botAdpNoise,
+    });
+
+    if (!player) {
+      logger.warn('Bot ran out of players to draft', { draftId: draft.id, pickNumber: slot.pickNumber });
+      break;
+    }
+
+    let recorded;
+    try {
+      recorded = await recordPick(currentDraft, { playerId: player.id, slot }, { takenPickNumbers, owners });
+    } catch (error) {
+      // Someone else picked at the same moment; whoever made that pick runs the bots next
+      if (isUniqueViolation(error)) {
+        logger.warn('Bot pick conflicted with another pick', { draftId: draft.id, pickNumber: slot.pickNumber });
+        break;
+      }
+      throw error;
+    }
+
+    const { pick, nextSlot, draft: updatedDraft } = recorded;
+    botPicks.push(pick);
+    currentDraft = updatedDraft;
+    takenPickNumbers.push(slot.pickNumber);
+    availablePlayers = availablePlayers.filter(p => p.id !== player.id);
+    rosters.set(slot.teamNumber, [...(rosters.get(slot.teamNumber) ?? []), player]);
+    slot = nextSlot;
+  }
+
+  if (botPicks.length > 0) {
+    logger.info('Bot picks made', { draftId: draft.id, strategy, count: botPicks.length });
+  }
+
+  return botPicks;
+}
+
+/**
+ * Choose the player a team gets when its pick clock runs out: the top of the
+ * drafting account's queue, otherwise the best available player by ADP
+ */
+export async function chooseAutoPick(draft: Draft, teamNumber: number): Promise<Player | null> {
+  const teamUserId = (await getClaimedTeams(draft)).get(teamNumber);
+
+  if (teamUserId) {
+    const [queued] = await getDraftQueue(draft.id, teamUserId);
+    if (queued) {
+      return queued;
+    }
+  }
+
+  const draftedPlayerIds = db
+    .select({ playerId: draftPicks.playerId })
+    .from(draftPicks)
+    .where(eq(draftPicks.draftId, draft.id));
+
+  const availablePlayers = await db
+    .select()
+    .from(players)
+    .where(and(eq(players.sport, draft.sport), notInArray(players.id, draftedPlayerIds)));
+
+  return availablePlayers.sort(byAdp)[0] ?? null;
+}
+
+/**
+ * Pick for the team on the clock if its deadline has passed. The expired
+ * deadline is claimed atomically, so concurrent callers make at most one pick.
+ */
+export async function runExpiredPick(draftId: string): Promise<DraftPick[]> {
+  const [draft] = await db
+    .update(drafts)
+    .set({ pickDeadline: null })
+    .where(and(eq(drafts.id, draftId), lt(drafts.pickDeadline, new Date())))
+    .returning();
+
+  if (!draft) {
+    return [];
+  }
+
+  const [takenPickNumbers, owners] = await Promise.all([
+    getTakenPickNumbers(draft.id),
+    getPickOwners(draft.id),
+  ]);
+
+  const slot = getNextOpenSlot(draft, takenPickNumbers, owners);
+  if (!slot) {
+    return [];
+  }
+
+  const player = await chooseAutoPick(draft, slot.teamNumber);
+  if (!player) {
+    logger.warn('No players left to auto-pick', { draftId, pickNumber: slot.pickNumber });
+    return [];
+  }
+
+  let recorded;
+  try {
+    recorded = await recordPick(draft, { playerId: player.id, slot, isAutoPick: true }, { takenPickNumbers, owners });
+  } catch (error) {
+    // A pick made by hand landed first
+    if (isUniqueViolation(error)) {
+      logger.info('Auto-pick conflicted with another pick', { draftId, pickNumber: slot.pickNumber });
+      return [];
+    }
+    throw error;
+  }
+
+  const { pick, nextSlot, draft: updatedDraft } = recorded;
+
+  logger.info('Pick clock expired; auto-picked', {
+    draftId,
+    pickNumber: slot.pickNumber,
+    teamNumber: slot.teamNumber,
+    playerId: player.id,
+  });
+
+  // Mock drafts: the bots pick straight after an expired user pick
+  const botPicks = nextSlot ? await runBotPicks(updatedDraft) : [];
+
+  return [pick, ...botPicks];
+}
+
+/**
+ * Make the automatic pick in every draft whose pick clock has run out.
+ * Returns how many picks were made, bot picks included.
+ */
+export async function runExpiredPicks(): Promise<number> {
+  const expired = await db
+    .select({ id: drafts.id })
+    .from(drafts)
+    .where(and(eq(drafts.status, 'in_progress'), isNotNull(drafts.pickDeadline), lt(drafts.pickDeadline, new Date())));
+
+  let count = 0;
+  for (const { id } of expired) {
+    try {
+      count += (await runExpiredPick(id)).length;
+    } catch (error) {
+      // One broken draft shouldn't hold up the others
+      logger.error('Failed to run expired pick', {
+        draftId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return count;
+}
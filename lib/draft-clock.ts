@@ -0,0 +1,91 @@
+/**
+ * Draft Pick Clock
+ *
+ * Each pick gets `pickTimeSeconds` from the draft settings. The deadline of
+ * the current pick is stored on the draft; pausing swaps it for the seconds
+ * that were left. The clock is stopped when both are null.
+ */
+
+import type { Draft, NewDraft } from '@/lib/db/schema';
+import type { PickSlot } from '@/lib/draft-order';
+import { getDraftSettings } from '@/lib/draft-settings';
+
+type ClockColumns = Required<Pick<NewDraft, 'pickDeadline' | 'clockPausedRemaining'>>;
+
+export interface ClockState {
+  pickTimeSeconds: number | null;
+  running: boolean;
+  paused: boolean;
+  deadline: Date | null;
+  remainingSeconds: number | null;
+}
+
+/**
+ * Seconds allowed per pick, or null if the draft has no clock. Auctions are
+ * paced by bidding instead.
+ */
+export function getPickTimeSeconds(draft: Pick<Draft, 'draftType' | 'settings'>): number | null {
+  if (draft.draftType === 'auction') {
+    return null;
+  }
+  return getDraftSettings(draft).pickTimeSeconds ?? null;
+}
+
+/**
+ * Clock columns for a new pick: a full clock for the slot, held as remaining
+ * time while the clock is paused
+ */
+export function resetPickClock(draft: Draft, slot: PickSlot | null, now = new Date()): ClockColumns {
+  const pickTime = getPickTimeSeconds(draft);
+
+  if (!slot || pickTime === null) {
+    return { pickDeadline: null, clockPausedRemaining: null };
+  }
+
+  if (draft.clockPausedRemaining !== null) {
+    return { pickDeadline: null, clockPausedRemaining: pickTime };
+  }
+
+  return { pickDeadline: new Date(now.getTime() + pickTime * 1000), clockPausedRemaining: null };
+}
+
+/**
+ * Clock columns after pausing a running clock
+ */
+export function pausePickClock(draft: Draft, now = new Date()): ClockColumns {
+  const remaining = draft.pickDeadline
+    ? Math.max(0, Math.ceil((draft.pickDeadline.getTime() - now.getTime()) / 1000))
+    : draft.clockPausedRemaining;
+
+  return { pickDeadline: null, clockPausedRemaining: remaining };
+}
+
+/**
+ * Clock columns after resuming a paused clock, or starting a stopped one
+ */
+export function resumePickClock(draft: Draft, now = new Date()): ClockColumns {
+  const seconds = draft.clockPausedRemaining ?? getPickTimeSeconds(draft);
+
+  if (seconds === null) {
+    return { pickDeadline: null, clockPausedRemaining: null };
+  }
+
+  return { pickDeadline: new Date(now.getTime() + seconds * 1000), clockPausedRemaining: null };
+}
+
+/**
+ * Describe a draft's clock for API responses
+ */
+export function getClockState(draft: Draft, now = new Date()): ClockState {
+  const deadline = draft.pickDeadline;
+
+  return {
+    pickTimeSeconds: getPickTimeSeconds(draft),
+    running: deadline !== null,
+    paused: draft.clockPausedRemaining !== null,
+    deadline,
+    remainingSeconds: deadline
+      ? Math.max(0, Math.ceil((deadline.getTime() - now.getTime()) / 1000))
+      : draft.clockPausedRemaining,
+  };
+}
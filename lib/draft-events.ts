@@ -0,0 +1,160 @@
+/**
+ * Draft Events
+ *
+ * Board changes are appended to `draft_events` as they happen. The event
+ * stream route tails this log, so every server instance sees every change and
+ * reconnecting clients can replay what they missed from their Last-Event-ID.
+ */
+
+import { db } from '@/lib/db';
+import { draftEvents, type Draft, type DraftEvent } from '@/lib/db/schema';
+import type { PickSlot } from '@/lib/draft-order';
+import { logger, formatError } from '@/lib/logger';
+import { and, asc, desc, eq, gt } from 'drizzle-orm';
+
+export type DraftEventType = 'pick-made' | 'pick-undone' | 'clock' | 'status' | 'player-status';
+
+// Shape sent to clients; `id` is also written as the SSE event id
+export interface DraftStreamEvent<T = unknown> {
+  id: number;
+  type: DraftEventType;
+  data: T;
+  timestamp: Date;
+}
+
+export interface PickMadeData {
+  pickId: string;
+  playerId: string;
+  teamNumber: number;
+  round: number;
+  pickNumber: number;
+  pickInRound: number;
+  price: number | null;
+}
+
+export interface PickUndoneData {
+  pickIds: string[];
+  pickNumbers: number[];
+}
+
+export interface ClockData {
+  onTheClock: PickSlot | null;
+  deadline: Date | null; // Null when no pick clock is running
+  pausedRemaining: number | null; // Seconds left while the commissioner has paused the clock
+}
+
+export interface StatusData {
+  status: Draft['status'];
+}
+
+// A drafted or queued player's team, status or injury status changed
+export interface PlayerStatusData {
+  playerId: string;
+  playerName: string;
+  field: string; // team, status, injuryStatus
+  previousValue: string | null;
+  newValue: string | null;
+  headline: string;
+  userId?: string; // Only streamed to this account, whose queue holds the player
+}
+
+interface DraftEventData {
+  'pick-made': PickMadeData;
+  'pick-undone': PickUndoneData;
+  clock: ClockData;
+  status: StatusData;
+  'player-status': PlayerStatusData;
+}
+
+// Most events replayed to a single reconnecting client
+const MAX_REPLAY_EVENTS = 500;
+
+/**
+ * Append an event to a draft's log. Failures are logged rather than thrown so
+ * a broken stream never fails the pick that triggered it.
+ */
+export async function publishDraftEvent<T extends DraftEventType>(
+  draftId: string,
+  type: T,
+  data: DraftEventData[T]
+): Promise<void> {
+  try {
+    await db.insert(draftEvents).values({ draftId, type, data });
+  } catch (error) {
+    logger.error('Failed to publish draft event', { draftId, type, ...formatError(error) });
+  }
+}
+
+/**
+ * Clock event payload for a draft's current state
+ */
+export function getClockData(
+  draft: Pick<Draft, 'pickDeadline' | 'clockPausedRemaining'>,
+  onTheClock: PickSlot | null
+): ClockData {
+  return {
+    onTheClock,
+    deadline: draft.pickDeadline,
+    pausedRemaining: draft.clockPausedRemaining,
+  };
+}
+
+/**
+ * Publish the clock of the updated draft, plus its status when it changed
+ */
+export async function publishBoardChange(
+  draft: Draft,
+  onTheClock: PickSlot | null,
+  previousStatus: Draft['status']
+): Promise<void> {
+  await publishDraftEvent(draft.id, 'clock', getClockData(draft, onTheClock));
+
+  if (previousStatus !== draft.status) {
+    await publishDraftEvent(draft.id, 'status', { status: draft.status });
+  }
+}
+
+/**
+ * Load the events logged after the given id, oldest first
+ */
+export async function getDraftEventsSince(draftId: string, afterId: number): Promise<DraftStreamEvent[]> {
+  const rows = await db
+    .select()
+    .from(draftEvents)
+    .where(and(eq(draftEvents.draftId, draftId), gt(draftEvents.id, afterId)))
+    .orderBy(asc(draftEvents.id))
+    .limit(MAX_REPLAY_EVENTS);
+
+  return rows.map(toStreamEvent);
+}
+
+/**
+ * Whether an event is addressed to an account other than the given one
+ */
+export function isPrivateToOtherUser(event: DraftStreamEvent, userId: string): boolean {
+  const recipient = event.type === 'player-status' ? (event.data as PlayerStatusData).userId : undefined;
+  return recipient !== undefined && recipient !== userId;
+}
+
+/**
+ * Id of the newest event in a draft's log, or 0 when it is empty
+ */
+export async function getLatestDraftEventId(draftId: string): Promise<number> {
+  const [latest] = await db
+    .select({ id: draftEvents.id })
+    .from(draftEvents)
+    .where(eq(draftEvents.draftId, draftId))
+    .orderBy(desc(draftEvents.id))
+    .limit(1);
+
+  return latest?.id ?? 0;
+}
+
+function toStreamEvent(row: DraftEvent): DraftStreamEvent {
+  return {
+    id: row.id,
+    type: row.type as DraftEventType,
+    data: row.data,
+    timestamp: row.createdAt ?? new Date(),
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * Draft Pick Order Engine
+ *
+ * Computes which team is on the clock for every overall pick of a draft.
+ * The picks API uses this as the source of truth instead of trusting the
+ * slot the client claims to be picking in.
+ */
+
+import type { Draft } from '@/lib/db/schema';
+import { getDraftSettings } from '@/lib/draft-settings';
+
+export type PickOrder = 'snake' | 'linear' | 'third_round_reversal';
+
+export interface PickSlot {
+  pickNumber: number; // Overall pick number (1-based)
+  round: number;
+  pickInRound: number;
+  teamNumber: number; // Team on the clock (1-based)
+  originalTeamNumber: number; // Team the order gives the slot to before any trades
+}
+
+// Traded slots: overall pick number -> team that now owns the pick
+export type PickOwners = ReadonlyMap<number, number>;
+
+const NO_TRADES: PickOwners = new Map();
+
+export type DraftOrderConfig = Pick<Draft, 'draftType' | 'numTeams' | 'rosterSize' | 'settings'>;
+
+/**
+ * Resolve the pick order for a draft from its type and settings
+ */
+export function getPickOrder(draft: DraftOrderConfig): PickOrder {
+  if (draft.draftType === 'linear') {
+    return 'linear';
+  }
+  if (draft.draftType === 'snake' && getDraftSettings(draft).thirdRoundReversal) {
+    return 'third_round_reversal';
+  }
+  // Auction slots only number the sales; the team comes from the winning bid
+  return 'snake';
+}
+
+/**
+ * Whether the given round runs from the last team back to the first
+ */
+export function isRoundReversed(order: PickOrder, round: number): boolean {
+  switch (order) {
+    case 'linear':
+      return false;
+    case 'third_round_reversal':
+      // 1 →, 2 ←, 3 ←, 4 →, 5 ←, ...
+      return round === 2 || (round >= 3 && round % 2 === 1);
+    case 'snake':
+    default:
+      return round % 2 === 0;
+  }
+}
+
+/**
+ * Total number of picks in a draft
+ */
+export function getTotalPicks(draft: DraftOrderConfig): number {
+  return draft.numTeams * draft.rosterSize;
+}
+
+/**
+ * Get the slot for an overall pick number, or null if it is out of range
+ */
+export function getPickSlot(
+  draft: DraftOrderConfig,
+  pickNumber: number,
+  owners: PickOwners = NO_TRADES
+): PickSlot | null {
+  if (!Number.isInteger(pickNumber) || pickNumber < 1 || pickNumber > getTotalPicks(draft)) {
+    return null;
+  }
+
+  const round = Math.ceil(pickNumber / draft.numTeams);
+  const pickInRound = pickNumber - (round - 1) * draft.numTeams;
+  const originalTeamNumber = isRoundReversed(getPickOrder(draft), round)
+    ? draft.numTeams - pickInRound + 1
+    : pickInRound;
+  const teamNumber = owners.get(pickNumber) ?? originalTeamNumber;
+
+  return { pickNumber, round, pickInRound, teamNumber, originalTeamNumber };
+}
+
+/**
+ * Get every slot of a draft in overall pick order
+ */
+export function getDraftOrder(draft: DraftOrderConfig, owners: PickOwners = NO_TRADES): PickSlot[] {
+  const slots: PickSlot[] = [];
+  const totalPicks = getTotalPicks(draft);
+
+  for (let pickNumber = 1; pickNumber <= totalPicks; pickNumber++) {
+    slots.push(getPickSlot(draft, pickNumber, owners)!);
+  }
+
+  return slots;
+}
+
+/**
+ * Get the slots a team owns in a given round (none or several after trades)
+ */
+export function getTeamSlotsInRound(
+  draft: DraftOrderConfig,
+  teamNumber: number,
+  round: number,
+  owners: PickOwners = NO_TRADES
+): PickSlot[] {
+  if (round < 1 || round > draft.rosterSize) {
+    return [];
+  }
+
+  const slots: PickSlot[] = [];
+  const firstPick = (round - 1) * draft.numTeams + 1;
+  for (let pickNumber = firstPick; pickNumber < firstPick + draft.numTeams; pickNumber++) {
+    const slot = getPickSlot(draft, pickNumber, owners);
+    if (slot?.teamNumber === teamNumber) {
+      slots.push(slot);
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Get the first slot that has not been used yet, or null if the draft is full
+ */
+export function getNextOpenSlot(
+  draft: DraftOrderConfig,
+  takenPickNumbers: Iterable<number>,
+  owners: PickOwners = NO_TRADES
+): PickSlot | null {
+  const taken = new Set(takenPickNumbers);
+  const totalPicks = getTotalPicks(draft);
+
+  for (let pickNumber = 1; pickNumber <= totalPicks; pickNumber++) {
+    if (!taken.has(pickNumber)) {
+      return getPickSlot(draft, pickNumber, owners);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Summarize a team's open picks, including picks gained and lost in trades
+ */
+export function getTeamPickOutlook(
+  draft: DraftOrderConfig,
+  teamNumber: number,
+  takenPickNumbers: Iterable<number>,
+  owners: PickOwners = NO_TRADES
+): { upcoming: PickSlot[]; acquired: PickSlot[]; tradedAway: PickSlot[] } {
+  const taken = new Set(takenPickNumbers);
+  const openSlots = getDraftOrder(draft, owners).filter(slot => !taken.has(slot.pickNumber));
+  const upcoming = openSlots.filter(slot => slot.teamNumber === teamNumber);
+
+  return {
+    upcoming,
+    acquired: upcoming.filter(slot => slot.originalTeamNumber !== teamNumber),
+    tradedAway: openSlots.filter(slot => slot.originalTeamNumber === teamNumber && slot.teamNumber !== teamNumber),
+  };
+}
+
+/**
+ * List the fields of a client-claimed slot that disagree with the real one
+ */
+export function getSlotMismatches(expected: PickSlot, claimed: Partial<PickSlot>): (keyof PickSlot)[] {
+  const fields: (keyof PickSlot)[] = ['pickNumber', 'round', 'pickInRound', 'teamNumber'];
+  return fields.filter(field => claimed[field] !== undefined && claimed[field] !== expected[field]);
+}
@@ -0,0 +1,173 @@
+/**
+ * Draft Pick Helpers
+ *
+ * Server-side loaders that combine the stored picks and traded slots of a
+ * draft with the pure pick order engine in `draft-order.ts`.
+ */
+
+import { db } from '@/lib/db';
+import { drafts, draftPicks, draftPickOwners, type Draft, type DraftPick } from '@/lib/db/schema';
+import { getNextOpenSlot, type PickOwners, type PickSlot } from '@/lib/draft-order';
+import { publishBoardChange, publishDraftEvent } from '@/lib/draft-events';
+import { resetPickClock } from '@/lib/draft-clock';
+import { removeFromDraftQueues } from '@/lib/draft-queue';
+import { and, eq, gte, isNull, or } from 'drizzle-orm';
+
+/**
+ * Load the traded-slot overrides for a draft
+ */
+export async function getPickOwners(draftId: string): Promise<PickOwners> {
+  const rows = await db
+    .select({ pickNumber: draftPickOwners.pickNumber, ownerTeam: draftPickOwners.ownerTeam })
+    .from(draftPickOwners)
+    .where(eq(draftPickOwners.draftId, draftId));
+
+  return new Map(rows.map(row => [row.pickNumber, row.ownerTeam]));
+}
+
+/**
+ * Load the overall pick numbers already used in a draft, keepers included
+ */
+export async function getTakenPickNumbers(draftId: string): Promise<number[]> {
+  const rows = await db
+    .select({ pickNumber: draftPicks.pickNumber })
+    .from(draftPicks)
+    .where(eq(draftPicks.draftId, draftId));
+
+  return rows.map(row => row.pickNumber);
+}
+
+/**
+ * Get the slot currently on the clock, or null if every slot is used
+ */
+export async function getOnTheClock(draft: Draft): Promise<PickSlot | null> {
+  const [takenPickNumbers, owners] = await Promise.all([
+    getTakenPickNumbers(draft.id),
+    getPickOwners(draft.id),
+  ]);
+
+  return getNextOpenSlot(draft, takenPickNumbers, owners);
+}
+
+/**
+ * Point the draft's current round and pick at the slot on the clock and tell
+ * watchers. `resetClock` gives the slot a full clock in a running draft, for
+ * when a different team is now on it.
+ */
+export async function syncCurrentPick(draft: Draft, options: { resetClock?: boolean } = {}): Promise<PickSlot | null> {
+  const slot = await getOnTheClock(draft);
+
+  const [updatedDraft] = await db
+    .update(drafts)
+    .set({
+      currentRound: slot?.round ?? draft.currentRound,
+      currentPick: slot?.pickNumber ?? draft.currentPick,
+      ...(options.resetClock && draft.status === 'in_progress' ? resetPickClock(draft, slot) : {}),
+    })
+    .where(eq(drafts.id, draft.id))
+    .returning();
+
+  await publishBoardChange(updatedDraft, slot, draft.status);
+
+  return slot;
+}
+
+/**
+ * Stop the pick clock for a pick made by hand, the way the automatic pick
+ * claims an expired one. Returns false when the deadline has already passed,
+ * so the automatic pick owns the slot.
+ */
+export async function claimPickClock(draftId: string): Promise<boolean> {
+  const [claimed] = await db
+    .update(drafts)
+    .set({ pickDeadline: null })
+    .where(and(eq(drafts.id, draftId), or(isNull(drafts.pickDeadline), gte(drafts.pickDeadline, new Date()))))
+    .returning({ id: drafts.id });
+
+  return !!claimed;
+}
+
+/**
+ * Restart the clock stopped by `claimPickClock` when the pick it was claimed
+ * for fails. Leaves a clock that another pick has already reset, or that is
+ * paused, alone.
+ */
+export async function restorePickClock(draftId: string): Promise<void> {
+  const [draft] = await db.select().from(drafts).where(eq(drafts.id, draftId));
+
+  if (!draft || draft.status !== 'in_progress') {
+    return;
+  }
+
+  const slot = await getOnTheClock(draft);
+
+  await db
+    .update(drafts)
+    .set(resetPickClock(draft, slot))
+    .where(and(eq(drafts.id, draftId), isNull(drafts.pickDeadline), isNull(drafts.clockPausedRemaining)));
+}
+
+/**
+ * Store a pick in the given slot and advance the draft to the next open slot,
+ * completing it when none are left. Returns the draft as updated. Throws a
+ * unique violation (see `isUniqueViolation`) when a concurrent pick already
+ * took the slot or the player.
+ */
+export async function recordPick(
+  draft: Draft,
+  input: {
+    playerId: string;
+    slot: PickSlot;
+    teamNumber?: number; // Defaults to the slot's owner; auctions pass the winning bidder
+    price?: number | null;
+    isAutoPick?: boolean; // Made by the server when the pick clock ran out
+  },
+  state: { takenPickNumbers: number[]; owners: PickOwners }
+): Promise<{ pick: DraftPick; nextSlot: PickSlot | null; draft: Draft }> {
+  const teamNumber = input.teamNumber ?? input.slot.teamNumber;
+
+  const [pick] = await db
+    .insert(draftPicks)
+    .values({
+      draftId: draft.id,
+      playerId: input.playerId,
+      teamNumber,
+      round: input.slot.round,
+      pickNumber: input.slot.pickNumber,
+      pickInRound: input.slot.pickInRound,
+      isUserPick: teamNumber === draft.draftPosition,
+      price: input.price ?? null,
+      isAutoPick: input.isAutoPick ?? false,
+    })
+    .returning();
+
+  await removeFromDraftQueues(draft.id, [pick.playerId]);
+
+  const nextSlot = getNextOpenSlot(draft, [...state.takenPickNumbers, input.slot.pickNumber], state.owners);
+
+  const [updatedDraft] = await db
+    .update(drafts)
+    .set({
+      ...(nextSlot
+        ? { status: 'in_progress' as const, currentRound: nextSlot.round, currentPick: nextSlot.pickNumber }
+        : { status: 'completed' as const, currentRound: input.slot.round, currentPick: input.slot.pickNumber }),
+      // Every pick starts a fresh clock for the next team
+      ...resetPickClock(draft, nextSlot),
+    })
+    .where(eq(drafts.id, draft.id))
+    .returning();
+
+  await publishDraftEvent(draft.id, 'pick-made', {
+    pickId: pick.id,
+    playerId: pick.playerId,
+    teamNumber: pick.teamNumber,
+    round: pick.round,
+    pickNumber: pick.pickNumber,
+    pickInRound: pick.pickInRound,
+    price: pick.price,
+  });
+  // Auction slots only number the sales; nobody is on the clock
+  await publishBoardChange(updatedDraft, draft.draftType === 'auction' ? null : nextSlot, draft.status);
+
+  return { pick, nextSlot, draft: updatedDraft };
+}
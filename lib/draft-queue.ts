@@ -0,0 +1,70 @@
+/**
+ * Draft Queue
+ *
+ * Each account keeps an ordered list of the players it is targeting in a
+ * draft. Players leave every queue as soon as any team drafts them. The queue
+ * drives the auto-pick when the account's pick clock runs out, and is passed
+ * to the AI so recommendations know who the user already likes.
+ */
+
+import { db } from '@/lib/db';
+import { draftPicks, draftQueueEntries, players, type Player } from '@/lib/db/schema';
+import { and, asc, eq, inArray, notInArray } from 'drizzle-orm';
+
+// Longest queue an account may keep for one draft
+export const MAX_QUEUE_LENGTH = 100;
+
+/**
+ * An account's queued players for a draft, most wanted first. Players that
+ * have been drafted are left out.
+ */
+export async function getDraftQueue(draftId: string, userId: string): Promise<Player[]> {
+  const draftedPlayerIds = db
+    .select({ playerId: draftPicks.playerId })
+    .from(draftPicks)
+    .where(eq(draftPicks.draftId, draftId));
+
+  const rows = await db
+    .select({ player: players })
+    .from(draftQueueEntries)
+    .innerJoin(players, eq(draftQueueEntries.playerId, players.id))
+    .where(and(
+      eq(draftQueueEntries.draftId, draftId),
+      eq(draftQueueEntries.userId, userId),
+      notInArray(draftQueueEntries.playerId, draftedPlayerIds)
+    ))
+    .orderBy(asc(draftQueueEntries.rank));
+
+  return rows.map(row => row.player);
+}
+
+/**
+ * Replace an account's queue with the given players, in order. Reordering and
+ * removing entries both go through here.
+ */
+export async function setDraftQueue(draftId: string, userId: string, playerIds: string[]): Promise<void> {
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(draftQueueEntries)
+      .where(and(eq(draftQueueEntries.draftId, draftId), eq(draftQueueEntries.userId, userId)));
+
+    if (playerIds.length > 0) {
+      await tx.insert(draftQueueEntries).values(
+        playerIds.map((playerId, i) => ({ draftId, userId, playerId, rank: i + 1 }))
+      );
+    }
+  });
+}
+
+/**
+ * Drop drafted players from every queue in the draft
+ */
+export async function removeFromDraftQueues(draftId: string, playerIds: string[]): Promise<void> {
+  if (playerIds.length === 0) {
+    return;
+  }
+
+  await db
+    .delete(draftQueueEntries)
+    .where(and(eq(draftQueueEntries.draftId, draftId), inArray(draftQueueEntries.playerId, playerIds)));
+}
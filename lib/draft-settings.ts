@@ -0,0 +1,61 @@
+/**
+ * Draft Settings
+ *
+ * Typed view over the free-form `drafts.settings` jsonb column. Unknown keys
+ * are preserved so older drafts and client-only preferences keep working.
+ */
+
+import { z } from 'zod';
+import type { Draft } from '@/lib/db/schema';
+
+// Lineup slots a draft can be built around. Which apply depends on the sport;
+// see `roster-slots.ts`.
+export const ROSTER_SLOTS = [
+  'PG', 'SG', 'G', 'SF', 'PF', 'F', 'C', 'UTIL',
+  'QB', 'RB', 'WR', 'TE', 'FLEX', 'SUPERFLEX', 'K', 'DST',
+  '1B', '2B', 'SS', '3B', 'OF', 'SP', 'RP',
+  'BN', 'IL',
+] as const;
+
+// Stat names match the upper-cased columns of imported projections (PTS, REB, PASS_YDS, HR...)
+const statNameSchema = z.string().trim().toUpperCase().regex(/^[A-Z0-9_]{1,20}$/, 'Invalid stat name');
+
+export const scoringTableSchema = z.object({
+  // Points per unit of each stat; negative for turnovers, interceptions and the like
+  stats: z.record(statNameSchema, z.number().min(-100).max(100)),
+  // Flat points once a player's projected stat reaches the threshold
+  bonuses: z.array(z.object({
+    stat: statNameSchema,
+    threshold: z.number().min(0),
+    points: z.number().min(-1000).max(1000),
+  })).max(20).optional(),
+});
+
+export const draftSettingsSchema = z.object({
+  // Snake drafts only: round 3 repeats round 2's order, then snaking resumes
+  thirdRoundReversal: z.boolean().optional(),
+  // Auction drafts only
+  auctionBudget: z.number().int().min(1).max(10000).optional(),
+  minBid: z.number().int().min(0).max(100).optional(),
+  // Mock drafts: every team but the user's is picked by a bot
+  mockDraft: z.boolean().optional(),
+  botStrategy: z.enum(['adp_noise', 'positional_need', 'best_projected']).optional(),
+  botAdpNoise: z.number().min(0).max(50).optional(),
+  // Seconds each team gets to pick before the server picks for them; no clock when unset
+  pickTimeSeconds: z.number().int().min(10).max(3600).optional(),
+  // Slot counts, e.g. { PG: 1, G: 1, UTIL: 3, BN: 3 }; the sport's defaults when unset
+  rosterSlots: z.record(z.enum(ROSTER_SLOTS), z.number().int().min(0).max(10)).optional(),
+  // Custom league scoring; the preset for the draft's scoring type when unset
+  scoring: scoringTableSchema.optional(),
+}).passthrough();
+
+export type DraftSettings = z.infer<typeof draftSettingsSchema>;
+export type ScoringTable = z.infer<typeof scoringTableSchema>;
+
+/**
+ * Read a draft's settings, ignoring values that fail validation
+ */
+export function getDraftSettings(draft: Pick<Draft, 'settings'>): DraftSettings {
+  const result = draftSettingsSchema.safeParse(draft.settings ?? {});
+  return result.success ? result.data : {};
+}
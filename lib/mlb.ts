@@ -0,0 +1,214 @@
+/**
+ * MLB Players and Categories
+ *
+ * Hitter/pitcher eligibility, two-way players and 5x5 roto categories.
+ * Projected stat lines live in `players.metadata.projections`; ratio
+ * categories (AVG, ERA, WHIP) are combined by weighting with at-bats and
+ * innings pitched rather than averaged. Z-score rankings for category
+ * leagues are in `categories.ts`.
+ */
+
+import type { NewPlayer, Player } from '@/lib/db/schema';
+import { getPlayerPositions, type RosterPlayer } from '@/lib/roster-slots';
+
+export const MLB_HITTER_POSITIONS = ['C', '1B', '2B', 'SS', '3B', 'OF', 'LF', 'CF', 'RF', 'DH'];
+export const MLB_PITCHER_POSITIONS = ['SP', 'RP', 'P'];
+
+export const HITTING_CATEGORIES = ['R', 'HR', 'RBI', 'SB', 'AVG'] as const;
+export const PITCHING_CATEGORIES = ['W', 'SV', 'K', 'ERA', 'WHIP'] as const;
+
+export type MlbCategory = typeof HITTING_CATEGORIES[number] | typeof PITCHING_CATEGORIES[number];
+export type MlbRole = 'hitter' | 'pitcher' | 'two_way';
+
+export interface MlbProjection {
+  // Hitting
+  AB?: number;
+  R?: number;
+  HR?: number;
+  RBI?: number;
+  SB?: number;
+  AVG?: number;
+  // Pitching
+  IP?: number;
+  W?: number;
+  SV?: number;
+  K?: number;
+  ERA?: number;
+  WHIP?: number;
+}
+
+const PROJECTION_FIELDS: (keyof MlbProjection)[] = [
+  'AB', 'R', 'HR', 'RBI', 'SB', 'AVG', 'IP', 'W', 'SV', 'K', 'ERA', 'WHIP',
+];
+
+/**
+ * Whether a player hits, pitches, or both (e.g. DH/SP). Null for players with
+ * no MLB positions.
+ */
+export function getMlbRole(player: RosterPlayer): MlbRole | null {
+  const positions = getPlayerPositions(player).map(pos => pos.toUpperCase());
+  const hits = positions.some(pos => MLB_HITTER_POSITIONS.includes(pos));
+  const pitches = positions.some(pos => MLB_PITCHER_POSITIONS.includes(pos));
+
+  if (hits && pitches) return 'two_way';
+  if (hits) return 'hitter';
+  if (pitches) return 'pitcher';
+  return null;
+}
+
+/**
+ * Categories a player contributes to. Two-way players count on both sides.
+ */
+export function getPlayerCategories(player: RosterPlayer): MlbCategory[] {
+  switch (getMlbRole(player)) {
+    case 'hitter':
+      return [...HITTING_CATEGORIES];
+    case 'pitcher':
+      return [...PITCHING_CATEGORIES];
+    case 'two_way':
+      return [...HITTING_CATEGORIES, ...PITCHING_CATEGORIES];
+    default:
+      return [];
+  }
+}
+
+/**
+ * A player's projected stat line from their metadata
+ */
+export function getMlbProjection(player: Pick<Player, 'metadata'>): MlbProjection {
+  const metadata = player.metadata as { projections?: Record<string, unknown> } | null;
+  const raw = metadata?.projections ?? {};
+  const projection: MlbProjection = {};
+
+  for (const field of PROJECTION_FIELDS) {
+    const value = Number(raw[field]);
+    if (raw[field] !== undefined && raw[field] !== null && Number.isFinite(value)) {
+      projection[field] = value;
+    }
+  }
+
+  return projection;
+}
+
+type CategoryPlayer = RosterPlayer & Pick<Player, 'metadata'>;
+
+/**
+ * Projected category totals for a group of players. Counting stats are
+ * summed; AVG is weighted by at-bats and ERA/WHIP by innings.
+ */
+export function getCategoryTotals(roster: CategoryPlayer[]): Partial<Record<MlbCategory, number>> {
+  let ab = 0, hits = 0, ip = 0, earnedRuns = 0, walksAndHits = 0;
+  const totals: Partial<Record<MlbCategory, number>> = {};
+
+  for (const player of roster) {
+    const categories = getPlayerCategories(player);
+    const projection = getMlbProjection(player);
+
+    for (const category of ['R', 'HR', 'RBI', 'SB', 'W', 'SV', 'K'] as const) {
+      if (categories.includes(category) && projection[category] !== undefined) {
+        totals[category] = (totals[category] ?? 0) + projection[category]!;
+      }
+    }
+
+    if (categories.includes('AVG') && projection.AB && projection.AVG !== undefined) {
+      ab += projection.AB;
+      hits += projection.AVG * projection.AB;
+    }
+
+    if (categories.includes('ERA') && projection.IP) {
+      ip += projection.IP;
+      earnedRuns += ((projection.ERA ?? 0) * projection.IP) / 9;
+      walksAndHits += (projection.WHIP ?? 0) * projection.IP;
+    }
+  }
+
+  if (ab > 0) totals.AVG = hits / ab;
+  if (ip > 0) {
+    totals.ERA = (earnedRuns * 9) / ip;
+    totals.WHIP = walksAndHits / ip;
+  }
+
+  return totals;
+}
+
+/**
+ * Format a category value the way box scores do
+ */
+export function formatCategoryValue(category: MlbCategory, value: number): string {
+  switch (category) {
+    case 'AVG':
+      return value.toFixed(3).replace(/^0/, '');
+    case 'ERA':
+    case 'WHIP':
+      return value.toFixed(2);
+    default:
+      return String(Math.round(value));
+  }
+}
+
+/**
+ * One-line projected stat line, e.g. "R 95, HR 30, RBI 90, SB 12, AVG .280"
+ */
+export function formatCategoryLine(player: CategoryPlayer): string {
+  const projection = getMlbProjection(player);
+
+  return getPlayerCategories(player)
+    .filter(category => projection[category] !== undefined)
+    .map(category => `${category} ${formatCategoryValue(category, projection[category]!)}`)
+    .join(', ');
+}
+
+/**
+ * Turn an imported row (CSV record or JSON object) into a player. Positions
+ * may be an array or a "/"-separated string such as "DH/SP"; projection
+ * columns use the category names. Null when the row has no id or name.
+ */
+export function parseMlbPlayerRow(row: Record<string, unknown>): NewPlayer | null {
+  const text = (key: string) => {
+    const value = row[key];
+    return value === undefined || value === null || String(value).trim() === '' ? null : String(value).trim();
+  };
+  const number = (key: string) => {
+    const value = text(key);
+    return value === null || !Number.isFinite(Number(value)) ? null : Number(value);
+  };
+
+  const externalId = text('id') ?? text('mlbamId');
+  const fullName = text('fullName') ?? text('name');
+
+  if (!externalId || !fullName) {
+    return null;
+  }
+
+  const positions = (Array.isArray(row.positions) ? row.positions.map(String) : (text('positions') ?? text('position') ?? '').split('/'))
+    .map(pos => pos.trim().toUpperCase())
+    .filter(Boolean);
+
+  const projections: MlbProjection = {};
+  for (const field of PROJECTION_FIELDS) {
+    const value = number(field);
+    if (value !== null) {
+      projections[field] = value;
+    }
+  }
+
+  const [firstName, ...lastNames] = fullName.split(' ');
+  const adp = number('adp');
+  const age = number('age');
+
+  return {
+    externalId,
+    sport: 'MLB',
+    firstName: text('firstName') ?? firstName,
+    lastName: text('lastName') ?? (lastNames.join(' ') || null),
+    fullName,
+    team: text('team')?.toUpperCase() ?? null,
+    position: positions[0] ?? null,
+    positions: positions.length > 0 ? positions : null,
+    age: age === null ? null : Math.round(age),
+    adp: adp === null ? null : Math.round(adp),
+    injuryStatus: text('injuryStatus'),
+    status: text('status') ?? 'Active',
+    metadata: Object.keys(projections).length > 0 ? { projections } : null,
+  };
+}
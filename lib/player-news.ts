@@ -0,0 +1,229 @@
+/**
+ * Player News
+ *
+ * Each player's timeline of team, status and injury changes. Syncs add an
+ * entry for every change they find, and admins can add news by hand,
+ * optionally setting an injury status. When a status changes for a player
+ * who is drafted in a live draft, a `player-status` event goes to that
+ * draft so the teams watching it can be alerted; for a queued player it goes
+ * only to the accounts queueing them.
+ */
+
+import { db } from '@/lib/db';
+import {
+  draftPicks,
+  draftQueueEntries,
+  drafts,
+  playerNews,
+  players,
+  type NewPlayerNews,
+  type PlayerNews,
+} from '@/lib/db/schema';
+import { and, desc, eq, gte, inArray, lt } from 'drizzle-orm';
+import { publishDraftEvent } from '@/lib/draft-events';
+
+// How far back the recommendation prompt looks for injury news
+export const RECENT_NEWS_DAYS = 7;
+
+export interface StatusChange {
+  playerId: string;
+  playerName: string;
+  field: string; // team, status, injuryStatus
+  previousValue: string | null;
+  newValue: string | null;
+}
+
+/**
+ * A one-line headline for a status change, e.g. "Christian McCaffrey listed as Questionable"
+ */
+export function formatChangeHeadline(change: Omit<StatusChange, 'playerId'>): string {
+  const { playerName, field, previousValue, newValue } = change;
+
+  switch (field) {
+    case 'injuryStatus':
+      return newValue
+        ? `${playerName} listed as ${newValue}${previousValue ? ` (was ${previousValue})` : ''}`
+        : `${playerName} no longer listed as ${previousValue}`;
+    case 'team':
+      if (!newValue) return `${playerName} no longer with ${previousValue}`;
+      return previousValue ? `${playerName} moves from ${previousValue} to ${newValue}` : `${playerName} joins ${newValue}`;
+    default:
+      return `${playerName} status changed to ${newValue ?? 'none'}${previousValue ? ` (was ${previousValue})` : ''}`;
+  }
+}
+
+/**
+ * Alert live drafts where any of the changed players is drafted or queued.
+ * Drafted players are alerted to the whole draft; queued ones only to the
+ * accounts queueing them, so nobody learns another team's targets.
+ */
+async function publishStatusAlerts(changes: (StatusChange & { headline: string })[]): Promise<void> {
+  const playerIds = [...new Set(changes.map(change => change.playerId))];
+  if (playerIds.length === 0) {
+    return;
+  }
+
+  const [picked, queued] = await Promise.all([
+    db
+      .select({ draftId: draftPicks.draftId, playerId: draftPicks.playerId })
+      .from(draftPicks)
+      .innerJoin(drafts, eq(draftPicks.draftId, drafts.id))
+      .where(and(inArray(draftPicks.playerId, playerIds), eq(drafts.status, 'in_progress'))),
+    db
+      .select({ draftId: draftQueueEntries.draftId, playerId: draftQueueEntries.playerId, userId: draftQueueEntries.userId })
+      .from(draftQueueEntries)
+      .innerJoin(drafts, eq(draftQueueEntries.draftId, drafts.id))
+      .where(and(inArray(draftQueueEntries.playerId, playerIds), eq(drafts.status, 'in_progress'))),
+  ]);
+
+  const pickedKeys = new Set(picked.map(({ draftId, playerId }) => `${draftId}:${playerId}`));
+
+  for (const change of changes) {
+    const data = {
+      playerId: change.playerId,
+      playerName: change.playerName,
+      field: change.field,
+      previousValue: change.previousValue,
+      newValue: change.newValue,
+      headline: change.headline,
+    };
+
+    for (const { draftId } of picked.filter(row => row.playerId === change.playerId)) {
+      await publishDraftEvent(draftId, 'player-status', data);
+    }
+
+    for (const { draftId, userId } of queued.filter(row => row.playerId === change.playerId)) {
+      if (!pickedKeys.has(`${draftId}:${change.playerId}`)) {
+        await publishDraftEvent(draftId, 'player-status', { ...data, userId });
+      }
+    }
+  }
+}
+
+/**
+ * Add status changes to their players' timelines and alert the live drafts
+ * they matter to
+ */
+export async function recordStatusChanges(
+  changes: StatusChange[],
+  options: { source: string; runId?: string; createdBy?: string; body?: string }
+): Promise<PlayerNews[]> {
+  if (changes.length === 0) {
+    return [];
+  }
+
+  const withHeadlines = changes.map(change => ({ ...change, headline: formatChangeHeadline(change) }));
+
+  const rows = await db
+    .insert(playerNews)
+    .values(withHeadlines.map(change => ({
+      playerId: change.playerId,
+      source: options.source,
+      field: change.field,
+      previousValue: change.previousValue,
+      newValue: change.newValue,
+      headline: change.headline,
+      body: options.body ?? null,
+      runId: options.runId ?? null,
+      createdBy: options.createdBy ?? null,
+    })))
+    .returning();
+
+  await publishStatusAlerts(withHeadlines);
+
+  return rows;
+}
+
+/**
+ * Add an admin's news entry for a player. Setting `injuryStatus` (null to
+ * clear it) updates the player and records the change like a sync would.
+ * Returns null when the player doesn't exist.
+ */
+export async function addPlayerNews(entry: {
+  playerId: string;
+  headline: string;
+  body?: string;
+  injuryStatus?: string | null;
+  createdBy: string;
+}): Promise<PlayerNews | null> {
+  const [player] = await db.select().from(players).where(eq(players.id, entry.playerId));
+
+  if (!player) {
+    return null;
+  }
+
+  const changesStatus = entry.injuryStatus !== undefined && entry.injuryStatus !== player.injuryStatus;
+  const news: NewPlayerNews = {
+    playerId: player.id,
+    source: 'admin',
+    field: changesStatus ? 'injuryStatus' : null,
+    previousValue: changesStatus ? player.injuryStatus : null,
+    newValue: changesStatus ? entry.injuryStatus! : null,
+    headline: entry.headline,
+    body: entry.body ?? null,
+    createdBy: entry.createdBy,
+  };
+
+  const row = await db.transaction(async (tx) => {
+    if (changesStatus) {
+      await tx.update(players).set({ injuryStatus: entry.injuryStatus }).where(eq(players.id, player.id));
+    }
+    const [inserted] = await tx.insert(playerNews).values(news).returning();
+    return inserted;
+  });
+
+  if (changesStatus) {
+    await publishStatusAlerts([{
+      playerId: player.id,
+      playerName: player.fullName,
+      field: 'injuryStatus',
+      previousValue: player.injuryStatus,
+      newValue: entry.injuryStatus!,
+      headline: entry.headline,
+    }]);
+  }
+
+  return row;
+}
+
+/**
+ * A player's timeline, newest first. `before` pages back from an entry's time.
+ */
+export async function getPlayerNews(playerId: string, options: { limit?: number; before?: Date } = {}): Promise<PlayerNews[]> {
+  const conditions = [eq(playerNews.playerId, playerId)];
+  if (options.before) conditions.push(lt(playerNews.createdAt, options.before));
+
+  return db
+    .select()
+    .from(playerNews)
+    .where(and(...conditions))
+    .orderBy(desc(playerNews.createdAt))
+    .limit(options.limit ?? 20);
+}
+
+/**
+ * Injury and status news from the last few days for each of the players,
+ * newest first. Team moves are left out.
+ */
+export async function getRecentInjuryNews(playerIds: string[], days = RECENT_NEWS_DAYS): Promise<Map<string, PlayerNews[]>> {
+  const news = new Map<string, PlayerNews[]>();
+  if (playerIds.length === 0) {
+    return news;
+  }
+
+  const rows = await db
+    .select()
+    .from(playerNews)
+    .where(and(
+      inArray(playerNews.playerId, playerIds),
+      gte(playerNews.createdAt, new Date(Date.now() - days * 24 * 60 * 60 * 1000))
+    ))
+    .orderBy(desc(playerNews.createdAt));
+
+  for (const row of rows) {
+    if (row.field === 'team') continue;
+    news.set(row.playerId, [...(news.get(row.playerId) ?? []), row]);
+  }
+
+  return news;
+}
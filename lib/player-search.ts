@@ -0,0 +1,269 @@
+/**
+ * Player Search
+ *
+ * Fuzzy matching of typed or AI-written names against players. Names are
+ * compared without accents, case, punctuation or suffixes (Jr., III), so
+ * "luka doncic" finds "Luka Dončić". Queries match full names, first and
+ * last names, team abbreviations, common first-name short forms (Steph,
+ * Mike) and nickname aliases (CMC, Greek Freak, plus any stored in
+ * `metadata.aliases`). Typos are caught per word by edit distance and,
+ * for the name as a whole, by trigram similarity, the same measure
+ * Postgres' pg_trgm uses.
+ */
+
+import type { Player } from '@/lib/db/schema';
+
+export type SearchablePlayer = Pick<Player, 'fullName' | 'firstName' | 'lastName' | 'team' | 'metadata'>;
+
+export interface PlayerMatchResult<T> {
+  player: T;
+  score: number; // 0-1, higher is closer
+}
+
+// Lowest trigram similarity that counts as a match (pg_trgm's default)
+const SIMILARITY_THRESHOLD = 0.3;
+
+// Lowest score an AI-written name must reach to map to a player
+const NAME_MATCH_THRESHOLD = 0.6;
+
+// Scores for each kind of match, best first
+const SCORES = {
+  exact: 1,
+  alias: 0.95,
+  prefix: 0.9,
+  tokens: 0.85,
+  contains: 0.8,
+  typo: 0.7,
+  team: 0.5,
+  similar: 0.75, // Multiplied by the similarity
+};
+
+// Well-known nicknames, by normalized full name
+const NICKNAMES: Record<string, string[]> = {
+  'giannis antetokounmpo': ['greek freak'],
+  'lebron james': ['king james', 'bron'],
+  'shai gilgeous alexander': ['sga'],
+  'kevin durant': ['kd'],
+  'anthony davis': ['ad', 'the brow'],
+  'karl anthony towns': ['kat'],
+  'nikola jokic': ['joker'],
+  'christian mccaffrey': ['cmc'],
+  'amon ra st brown': ['sun god'],
+  'ceedee lamb': ['cd lamb'],
+  'aj brown': ['a j brown'],
+  'dk metcalf': ['d k metcalf'],
+  'tj hockenson': ['t j hockenson'],
+  'vladimir guerrero': ['vladdy', 'vlad jr'],
+};
+
+// Short first names and the full names they stand for
+const FIRST_NAMES: Record<string, string> = {
+  steph: 'stephen',
+  mike: 'michael',
+  chris: 'christopher',
+  matt: 'matthew',
+  nick: 'nicholas',
+  rob: 'robert',
+  bob: 'robert',
+  will: 'william',
+  bill: 'william',
+  tony: 'anthony',
+  alex: 'alexander',
+  josh: 'joshua',
+  jon: 'jonathan',
+  dan: 'daniel',
+  joe: 'joseph',
+  jake: 'jacob',
+  ben: 'benjamin',
+  sam: 'samuel',
+  pat: 'patrick',
+  zach: 'zachary',
+  tom: 'thomas',
+  jim: 'james',
+  ken: 'kenneth',
+  greg: 'gregory',
+  jeff: 'jeffrey',
+  cam: 'cameron',
+  nate: 'nathan',
+  fred: 'frederick',
+  vlad: 'vladimir',
+};
+
+const SUFFIXES = ['jr', 'sr', 'ii', 'iii', 'iv', 'v'];
+
+/**
+ * A name lower-cased, without accents, punctuation or generational suffix.
+ * "Ronald Acuña Jr." becomes "ronald acuna".
+ */
+export function normalizeName(name: string): string {
+  const words = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ') // "Luka Doncic (PG)"
+    .replace(/[.'’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+  // Keep a lone suffix-like word, e.g. a player listed only as "V"
+  const trimmed = words.length > 1 && SUFFIXES.includes(words[words.length - 1]) ? words.slice(0, -1) : words;
+  return trimmed.join(' ');
+}
+
+/**
+ * The query with short first names expanded, e.g. "steph curry" -> "stephen curry"
+ */
+function expandFirstName(query: string): string {
+  const [first, ...rest] = query.split(' ');
+  return FIRST_NAMES[first] ? [FIRST_NAMES[first], ...rest].join(' ') : query;
+}
+
+/**
+ * Trigrams of each word, padded the way pg_trgm pads them
+ */
+function trigrams(text: string): Set<string> {
+  const grams = new Set<string>();
+  for (const word of text.split(' ').filter(Boolean)) {
+    const padded = `  ${word} `;
+    for (let i = 0; i < padded.length - 2; i++) {
+      grams.add(padded.slice(i, i + 3));
+    }
+  }
+  return grams;
+}
+
+/**
+ * Trigram similarity of two normalized strings: shared trigrams over all
+ * trigrams, from 0 (nothing shared) to 1 (identical)
+ */
+export function similarity(a: string, b: string): number {
+  const gramsA = trigrams(a);
+  const gramsB = trigrams(b);
+  if (gramsA.size === 0 || gramsB.size === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  for (const gram of gramsA) {
+    if (gramsB.has(gram)) shared++;
+  }
+  return shared / (gramsA.size + gramsB.size - shared);
+}
+
+/**
+ * Edits (insertions, deletions, substitutions or swaps of neighbouring
+ * letters) needed to turn one word into another
+ */
+function editDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/**
+ * Whether a typed word is a misspelling of a name word: one edit allowed
+ * from four letters, two from eight
+ */
+function isTypo(word: string, nameWord: string): boolean {
+  const allowed = word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0;
+  return allowed > 0 && Math.abs(word.length - nameWord.length) <= allowed && editDistance(word, nameWord) <= allowed;
+}
+
+/**
+ * A player's aliases: well-known nicknames plus any in `metadata.aliases`
+ */
+function getAliases(player: SearchablePlayer): string[] {
+  const metadata = player.metadata as { aliases?: unknown } | null;
+  const stored = Array.isArray(metadata?.aliases)
+    ? metadata.aliases.filter((alias): alias is string => typeof alias === 'string').map(normalizeName)
+    : [];
+  return [...(NICKNAMES[normalizeName(player.fullName)] ?? []).map(normalizeName), ...stored];
+}
+
+/**
+ * How well a query matches a player, from 0 (not at all) to 1 (exactly)
+ */
+export function scorePlayerMatch(query: string, player: SearchablePlayer): number {
+  const normalized = normalizeName(query);
+  if (!normalized) {
+    return 0;
+  }
+
+  const name = normalizeName(player.fullName);
+  const queries = [...new Set([normalized, expandFirstName(normalized)])];
+  const nameWords = name.split(' ');
+  let best = 0;
+
+  for (const q of queries) {
+    const queryWords = q.split(' ');
+
+    if (q === name) return SCORES.exact;
+    if (getAliases(player).includes(q)) best = Math.max(best, SCORES.alias);
+    if (name.startsWith(q)) best = Math.max(best, SCORES.prefix);
+
+    // Every word typed starts a word of the name, e.g. "jal hur" -> "Jalen Hurts"
+    if (queryWords.every(word => nameWords.some(nameWord => nameWord.startsWith(word)))) {
+      best = Math.max(best, SCORES.tokens);
+    }
+    if (name.includes(q)) best = Math.max(best, SCORES.contains);
+
+    // Every word typed starts or is a misspelling of a word of the name
+    if (queryWords.every(word => nameWords.some(nameWord => nameWord.startsWith(word) || isTypo(word, nameWord)))) {
+      best = Math.max(best, SCORES.typo);
+    }
+
+    // Typos: the closest of the full name, or of a single name, to the query
+    const closest = Math.max(
+      similarity(q, name),
+      ...(queryWords.length === 1
+        ? [player.firstName, player.lastName].filter((part): part is string => !!part).map(part => similarity(q, normalizeName(part)))
+        : [])
+    );
+    if (closest >= SIMILARITY_THRESHOLD) {
+      best = Math.max(best, SCORES.similar * closest);
+    }
+  }
+
+  if (player.team && normalized === player.team.toLowerCase()) {
+    best = Math.max(best, SCORES.team);
+  }
+
+  return Math.round(best * 1000) / 1000;
+}
+
+/**
+ * Players matching a query, best match first. Ties keep the order the
+ * players came in, so callers can pre-sort by ADP.
+ */
+export function searchPlayers<T extends SearchablePlayer>(players: T[], query: string): PlayerMatchResult<T>[] {
+  return players
+    .map(player => ({ player, score: scorePlayerMatch(query, player) }))
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * The player a written name most likely means, or null when none is close
+ * enough or two players match equally well (a bare "Jalen"). Used to map
+ * names in AI responses back to players.
+ */
+export function findPlayerByName<T extends SearchablePlayer>(players: T[], name: string): T | null {
+  const [best, runnerUp] = searchPlayers(players, name);
+
+  if (!best || best.score < NAME_MATCH_THRESHOLD || (runnerUp && runnerUp.score === best.score)) {
+    return null;
+  }
+  return best.player;
+}
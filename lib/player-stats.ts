@@ -0,0 +1,198 @@
+/**
+ * Player Season Stats
+ *
+ * Actual stat totals for past seasons, imported from CSV files, one season
+ * per row. Summaries add per-game averages and the change in each per-game
+ * average (or rate, for stats such as FG% and AVG) from the season before,
+ * for player cards and the recommendation prompt.
+ */
+
+import { db, UPDATE_BATCH_SIZE } from '@/lib/db';
+import { playerSeasonStats, players, type Player, type PlayerSeasonStats } from '@/lib/db/schema';
+import { desc, eq, inArray, sql } from 'drizzle-orm';
+import { logger } from '@/lib/logger';
+import { matchPlayer, parseProjectionRow, type PlayerMatch, type StatLine } from '@/lib/projections';
+
+export interface SeasonStatsRow {
+  match: PlayerMatch;
+  season: number | null; // From a season or year column, when the file has one
+  gamesPlayed: number | null;
+  stats: StatLine;
+}
+
+export interface SeasonSummary {
+  season: number;
+  gamesPlayed: number | null;
+  totals: StatLine;
+  perGame: StatLine; // Counting stats per game; rates as they are
+  change: StatLine | null; // Per-game (or rate) change from the previous season imported
+  previousSeason: number | null;
+}
+
+// Columns holding the season and games played rather than a stat
+const SEASON_COLUMNS = ['SEASON', 'YEAR'];
+const GAMES_COLUMNS = ['G', 'GP', 'GAMES', 'GAMESPLAYED', 'GAMES_PLAYED'];
+
+// Stats that are already rates, so they aren't divided by games
+const RATE_STATS = ['AVG', 'OBP', 'SLG', 'OPS', 'ERA', 'WHIP', 'K/9', 'BB/9', 'YPC', 'YPR', 'CMP%'];
+
+// Stats the prompt and player cards lead with, per sport
+const KEY_STATS: Record<Player['sport'], string[]> = {
+  NBA: ['PTS', 'REB', 'AST', 'STL', 'BLK', '3PM'],
+  NFL: ['PASS_YDS', 'PASS_TD', 'RUSH_YDS', 'RUSH_TD', 'REC', 'REC_YDS', 'REC_TD'],
+  MLB: ['R', 'HR', 'RBI', 'SB', 'AVG', 'W', 'SV', 'K', 'ERA', 'WHIP'],
+};
+
+/**
+ * Whether a stat is a rate rather than a count
+ */
+export function isRateStat(stat: string): boolean {
+  return stat.endsWith('%') || RATE_STATS.includes(stat);
+}
+
+/**
+ * The stats worth leading with for a sport, in order
+ */
+export function getKeyStats(sport: Player['sport']): string[] {
+  return KEY_STATS[sport];
+}
+
+/**
+ * Split an imported CSV record into the player, season, games played and
+ * stat totals
+ */
+export function parseSeasonStatsRow(row: Record<string, string>): SeasonStatsRow {
+  const { match, stats } = parseProjectionRow(row);
+  const take = (columns: string[]) => {
+    const column = columns.find(name => stats[name] !== undefined);
+    if (!column) return null;
+    const value = stats[column];
+    delete stats[column];
+    return value;
+  };
+
+  const season = take(SEASON_COLUMNS);
+  const gamesPlayed = take(GAMES_COLUMNS);
+
+  return {
+    match,
+    season: season !== null && Number.isInteger(season) ? season : null,
+    gamesPlayed: gamesPlayed !== null ? Math.round(gamesPlayed) : null,
+    stats,
+  };
+}
+
+/**
+ * Store season totals, replacing any a player already had for the season.
+ * Rows without a season column use `season`.
+ */
+export async function importSeasonStats(
+  sport: Player['sport'],
+  rows: SeasonStatsRow[],
+  options: { season?: number } = {}
+): Promise<{ imported: number; unmatched: string[]; missingSeason: number }> {
+  const sportPlayers = await db.select().from(players).where(eq(players.sport, sport));
+  const unmatched: string[] = [];
+  const values = new Map<string, typeof playerSeasonStats.$inferInsert>();
+  let missingSeason = 0;
+
+  for (const row of rows) {
+    const season = row.season ?? options.season;
+    if (!season) {
+      missingSeason++;
+      continue;
+    }
+
+    const player = matchPlayer(sportPlayers, row.match);
+    if (!player) {
+      unmatched.push(row.match.name ?? row.match.externalId ?? row.match.sleeperId ?? 'unknown');
+      continue;
+    }
+
+    values.set(`${player.id}:${season}`, { playerId: player.id, season, gamesPlayed: row.gamesPlayed, stats: row.stats });
+  }
+
+  const batch = [...values.values()];
+  for (let i = 0; i < batch.length; i += UPDATE_BATCH_SIZE) {
+    await db
+      .insert(playerSeasonStats)
+      .values(batch.slice(i, i + UPDATE_BATCH_SIZE))
+      .onConflictDoUpdate({
+        target: [playerSeasonStats.playerId, playerSeasonStats.season],
+        set: {
+          gamesPlayed: sql`excluded.games_played`,
+          stats: sql`excluded.stats`,
+          importedAt: sql`now()`,
+        },
+      });
+  }
+
+  logger.info('Season stats imported', { sport, imported: values.size, unmatched: unmatched.length, missingSeason });
+
+  return { imported: values.size, unmatched, missingSeason };
+}
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Per-game averages for a season's totals. Rates stay as they are; counts
+ * stay totals when games played is unknown.
+ */
+export function getPerGame(stats: StatLine, gamesPlayed: number | null): StatLine {
+  return Object.fromEntries(Object.entries(stats).map(([stat, value]) => [
+    stat,
+    isRateStat(stat) ? round(value, 3) : gamesPlayed ? round(value / gamesPlayed, 2) : value,
+  ]));
+}
+
+/**
+ * Season summaries, newest first, each compared with the season imported
+ * before it
+ */
+export function summarizeSeasons(rows: Pick<PlayerSeasonStats, 'season' | 'gamesPlayed' | 'stats'>[]): SeasonSummary[] {
+  const sorted = [...rows].sort((a, b) => b.season - a.season);
+
+  const summaries = sorted.map(row => {
+    const totals = row.stats as StatLine;
+    return { season: row.season, gamesPlayed: row.gamesPlayed, totals, perGame: getPerGame(totals, row.gamesPlayed) };
+  });
+
+  return summaries.map((summary, i) => {
+    const previous = summaries[i + 1];
+    const change = previous
+      ? Object.fromEntries(Object.entries(summary.perGame)
+        .filter(([stat]) => previous.perGame[stat] !== undefined)
+        .map(([stat, value]) => [stat, round(value - previous.perGame[stat], isRateStat(stat) ? 3 : 2)]))
+      : null;
+
+    return { ...summary, change, previousSeason: previous?.season ?? null };
+  });
+}
+
+/**
+ * Season summaries for each of the players, newest first, up to `seasons` each
+ */
+export async function getSeasonSummaries(playerIds: string[], seasons = 3): Promise<Map<string, SeasonSummary[]>> {
+  const summaries = new Map<string, SeasonSummary[]>();
+  if (playerIds.length === 0) {
+    return summaries;
+  }
+
+  const rows = await db
+    .select()
+    .from(playerSeasonStats)
+    .where(inArray(playerSeasonStats.playerId, playerIds))
+    .orderBy(desc(playerSeasonStats.season));
+
+  const byPlayer = new Map<string, PlayerSeasonStats[]>();
+  for (const row of rows) {
+    byPlayer.set(row.playerId, [...(byPlayer.get(row.playerId) ?? []), row]);
+  }
+
+  for (const [playerId, history] of byPlayer) {
+    // Summarize one extra season so the oldest one shown still has a change
+    summaries.set(playerId, summarizeSeasons(history.slice(0, seasons + 1)).slice(0, seasons));
+  }
+
+  return summaries;
+}
@@ -0,0 +1,275 @@
+/**
+ * Player Projections
+ *
+ * Stat-line projections are imported from CSV files, one file per source and
+ * season, and blended into a consensus weighted by each source's weight.
+ * The consensus is written back to the player: `projectedPoints` holds the
+ * blended fantasy points and `metadata.projections` the blended stat line,
+ * which is what the rest of the app reads.
+ */
+
+import { db, UPDATE_BATCH_SIZE } from '@/lib/db';
+import { playerProjections, players, projectionSources, type Player } from '@/lib/db/schema';
+import { and, eq, inArray, notExists, sql } from 'drizzle-orm';
+import { logger } from '@/lib/logger';
+
+export type StatLine = Record<string, number>;
+
+export interface ProjectionInput {
+  source: string;
+  stats: StatLine;
+  points: number | null;
+}
+
+export interface PlayerMatch {
+  sleeperId: string | null;
+  externalId: string | null;
+  name: string | null;
+  team: string | null;
+}
+
+export interface ProjectionRow {
+  match: PlayerMatch;
+  stats: StatLine;
+  points: number | null;
+}
+
+// Columns that identify the player rather than hold a stat
+const IDENTITY_COLUMNS = ['sleeperid', 'externalid', 'id', 'mlbamid', 'name', 'fullname', 'player', 'team', 'position', 'positions', 'pos'];
+// Columns a source may use for its fantasy point total
+const POINTS_COLUMNS = ['points', 'fpts', 'fantasypoints', 'fp'];
+
+// Column names compared without case, spaces, underscores or dashes
+const normalizeColumn = (column: string) => column.replace(/[\s_-]/g, '').toLowerCase();
+
+/**
+ * The player an imported CSV record describes
+ */
+export function parsePlayerMatch(row: Record<string, string>): PlayerMatch {
+  const byKey = new Map(Object.entries(row).map(([key, value]) => [normalizeColumn(key), value]));
+  const value = (...keys: string[]) => {
+    for (const key of keys) {
+      const found = byKey.get(key)?.trim();
+      if (found) return found;
+    }
+    return null;
+  };
+
+  return {
+    sleeperId: value('sleeperid'),
+    externalId: value('externalid', 'mlbamid', 'id'),
+    name: value('name', 'fullname', 'player'),
+    team: value('team')?.toUpperCase() ?? null,
+  };
+}
+
+/**
+ * Split an imported CSV record into the player it describes, its stat line
+ * and any fantasy point total. Stat names are upper-cased; blank and
+ * non-numeric values are ignored.
+ */
+export function parseProjectionRow(row: Record<string, string>): ProjectionRow {
+  const stats: StatLine = {};
+  let points: number | null = null;
+
+  for (const [column, raw] of Object.entries(row)) {
+    const key = normalizeColumn(column);
+    const number = Number(raw);
+
+    if (IDENTITY_COLUMNS.includes(key) || raw.trim() === '' || !Number.isFinite(number)) {
+      continue;
+    }
+
+    if (POINTS_COLUMNS.includes(key)) {
+      points = number;
+    } else {
+      stats[column.trim().toUpperCase()] = number;
+    }
+  }
+
+  return {
+    match: parsePlayerMatch(row),
+    stats,
+    points,
+  };
+}
+
+/**
+ * Blend projections from several sources. Each stat is the weighted mean of
+ * the sources that project it, so a source that skips a stat doesn't drag
+ * it toward zero. Sources without a weight count once.
+ */
+export function blendProjections(
+  projections: ProjectionInput[],
+  weights: Map<string, number>
+): { stats: StatLine; points: number | null } {
+  const sums = new Map<string, { total: number; weight: number }>();
+  let pointsTotal = 0;
+  let pointsWeight = 0;
+
+  for (const { source, stats, points } of projections) {
+    const weight = weights.get(source) ?? 1;
+    if (weight <= 0) continue;
+
+    for (const [stat, value] of Object.entries(stats)) {
+      const sum = sums.get(stat) ?? { total: 0, weight: 0 };
+      sum.total += value * weight;
+      sum.weight += weight;
+      sums.set(stat, sum);
+    }
+
+    if (points !== null) {
+      pointsTotal += points * weight;
+      pointsWeight += weight;
+    }
+  }
+
+  return {
+    stats: Object.fromEntries([...sums].map(([stat, { total, weight }]) => [stat, total / weight])),
+    points: pointsWeight > 0 ? pointsTotal / pointsWeight : null,
+  };
+}
+
+/**
+ * Find the player an imported row describes: by Sleeper id, then source id,
+ * then name (and team, when the name is shared)
+ */
+export function matchPlayer(candidates: Player[], match: PlayerMatch): Player | null {
+  if (match.sleeperId) {
+    const player = candidates.find(p => p.sleeperId === match.sleeperId);
+    if (player) return player;
+  }
+
+  if (match.externalId) {
+    const player = candidates.find(p => p.externalId === match.externalId || p.sleeperId === match.externalId);
+    if (player) return player;
+  }
+
+  if (match.name) {
+    const name = match.name.toLowerCase();
+    const named = candidates.filter(p => p.fullName.toLowerCase() === name);
+    return (named.length > 1 && match.team ? named.find(p => p.team === match.team) : named[0]) ?? null;
+  }
+
+  return null;
+}
+
+/**
+ * Store a source's projections for a season, replacing what it had before,
+ * then refresh the consensus
+ */
+export async function importProjections(
+  sport: Player['sport'],
+  source: string,
+  season: number,
+  rows: ProjectionRow[],
+  options: { weight?: number } = {}
+): Promise<{ imported: number; unmatched: string[] }> {
+  // New sources count once unless given a weight; existing ones keep theirs
+  const sourceInsert = db.insert(projectionSources).values({ name: source, weight: options.weight ?? 1 });
+  await (options.weight !== undefined
+    ? sourceInsert.onConflictDoUpdate({ target: projectionSources.name, set: { weight: options.weight } })
+    : sourceInsert.onConflictDoNothing());
+
+  const sportPlayers = await db.select().from(players).where(eq(players.sport, sport));
+  const unmatched: string[] = [];
+  const values = new Map<string, typeof playerProjections.$inferInsert>();
+
+  for (const row of rows) {
+    const player = matchPlayer(sportPlayers, row.match);
+
+    if (!player) {
+      unmatched.push(row.match.name ?? row.match.externalId ?? row.match.sleeperId ?? 'unknown');
+      continue;
+    }
+
+    values.set(player.id, { playerId: player.id, source, season, stats: row.stats, points: row.points });
+  }
+
+  const sportPlayerIds = db.select({ id: players.id }).from(players).where(eq(players.sport, sport));
+
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(playerProjections)
+      .where(and(
+        eq(playerProjections.source, source),
+        eq(playerProjections.season, season),
+        inArray(playerProjections.playerId, sportPlayerIds)
+      ));
+
+    const batch = [...values.values()];
+    for (let i = 0; i < batch.length; i += UPDATE_BATCH_SIZE) {
+      await tx.insert(playerProjections).values(batch.slice(i, i + UPDATE_BATCH_SIZE));
+    }
+  });
+
+  await updateConsensusProjections(sport, season);
+
+  logger.info('Projections imported', { sport, source, season, imported: values.size, unmatched: unmatched.length });
+
+  return { imported: values.size, unmatched };
+}
+
+/**
+ * Recompute every player's consensus projection for a season and write it
+ * to the player. Players left with no projections for the season lose the
+ * consensus they had for it.
+ */
+export async function updateConsensusProjections(sport: Player['sport'], season: number): Promise<number> {
+  const [rows, sources] = await Promise.all([
+    db
+      .select({ projection: playerProjections })
+      .from(playerProjections)
+      .innerJoin(players, eq(playerProjections.playerId, players.id))
+      .where(and(eq(players.sport, sport), eq(playerProjections.season, season))),
+    db.select().from(projectionSources),
+  ]);
+
+  const weights = new Map(sources.map(source => [source.name, source.weight]));
+  const byPlayer = new Map<string, ProjectionInput[]>();
+
+  for (const { projection } of rows) {
+    byPlayer.set(projection.playerId, [
+      ...(byPlayer.get(projection.playerId) ?? []),
+      { source: projection.source, stats: projection.stats as StatLine, points: projection.points },
+    ]);
+  }
+
+  const updates = [...byPlayer].map(([playerId, projections]) => {
+    const consensus = blendProjections(projections, weights);
+    return sql`(${playerId}::uuid, ${consensus.points === null ? null : Math.round(consensus.points)}::integer, ${JSON.stringify({ projections: consensus.stats, projectionSeason: season })}::jsonb)`;
+  });
+
+  // One UPDATE ... FROM (VALUES ...) per batch rather than one per player
+  await db.transaction(async (tx) => {
+    for (let i = 0; i < updates.length; i += UPDATE_BATCH_SIZE) {
+      await tx.execute(sql`
+        update ${players}
+        set projected_points = v.projected_points,
+            metadata = coalesce(${players.metadata}, '{}'::jsonb) || v.patch
+        from (values ${sql.join(updates.slice(i, i + UPDATE_BATCH_SIZE), sql`, `)}) as v(id, projected_points, patch)
+        where ${players.id} = v.id
+      `);
+    }
+
+    // Every source that projected these players has since dropped them
+    await tx
+      .update(players)
+      .set({
+        projectedPoints: null,
+        metadata: sql`${players.metadata} - 'projections' - 'projectionSeason'`,
+      })
+      .where(and(
+        eq(players.sport, sport),
+        sql`(${players.metadata}->>'projectionSeason')::integer = ${season}`,
+        notExists(
+          tx
+            .select({ id: playerProjections.id })
+            .from(playerProjections)
+            .where(and(eq(playerProjections.playerId, players.id), eq(playerProjections.season, season)))
+        )
+      ));
+  });
+
+  return byPlayer.size;
+}
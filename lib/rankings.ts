@@ -0,0 +1,170 @@
+/**
+ * Player Rankings
+ *
+ * Value over replacement (VORP) and tiers for a draft's league. Every team
+ * fills the draft's starting slots with the best projected players, most
+ * specific slot first; the best player left over at each position is that
+ * position's replacement level. A player's value is how far their projected
+ * points (in the league's scoring) clear the replacement level at their best
+ * position. Tiers break wherever the drop to the next player is unusually
+ * large.
+ */
+
+import type { Draft, Player } from '@/lib/db/schema';
+import {
+  getPlayerPositions,
+  getPositionFilter,
+  getRosterSlots,
+  getSportRosterSlots,
+  isEligibleForSlot,
+  isStartingSlot,
+  type RosterSlot,
+  type Sport,
+} from '@/lib/roster-slots';
+import { getLeaguePoints, getScoringTable } from '@/lib/scoring';
+
+export interface PlayerRanking {
+  player: Player;
+  points: number; // Projected points in the league's scoring
+  position: string; // Position the value is measured at
+  replacementPoints: number;
+  vorp: number;
+  rank: number;
+  tier: number;
+  positionRank: number;
+  positionTier: number;
+}
+
+export interface Rankings {
+  replacementLevels: Record<string, number>;
+  starters: number; // Starting spots across the league
+  players: PlayerRanking[]; // Best value first
+}
+
+type RankingsDraft = Pick<Draft, 'sport' | 'scoringType' | 'settings' | 'numTeams' | 'rosterSize'>;
+
+/**
+ * The positions a player is ranked at: each of theirs, named after the most
+ * specific starting slot that takes it (LF counts as OF, DEF as DST)
+ */
+function getRankingPositions(sport: Sport, player: Player): string[] {
+  const slots = getSportRosterSlots(sport).filter(isStartingSlot);
+  const positions = getPlayerPositions(player).map(pos => {
+    const slot = slots
+      .filter(slot => getPositionFilter(sport, slot)?.includes(pos.toUpperCase()))
+      .sort((a, b) => getPositionFilter(sport, a)!.length - getPositionFilter(sport, b)!.length)[0];
+    return slot ?? pos.toUpperCase();
+  });
+
+  return [...new Set(positions)];
+}
+
+/**
+ * Split values (highest first) into tiers, starting a new tier wherever the
+ * gap to the previous value is more than a standard deviation above the
+ * average gap
+ */
+export function assignTiers(values: number[]): number[] {
+  const gaps = values.slice(1).map((value, i) => values[i] - value);
+
+  if (gaps.length === 0) {
+    return values.map(() => 1);
+  }
+
+  const mean = gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length;
+  const stdDev = Math.sqrt(gaps.reduce((sum, gap) => sum + (gap - mean) ** 2, 0) / gaps.length);
+  const threshold = mean + stdDev;
+
+  let tier = 1;
+  return values.map((_, i) => {
+    if (i > 0 && gaps[i - 1] > threshold) tier++;
+    return tier;
+  });
+}
+
+/**
+ * Rank a sport's player pool for a draft. Players without projected points
+ * can't be valued and are left out.
+ */
+export function computeRankings(draft: RankingsDraft, pool: Player[]): Rankings {
+  const sport = draft.sport;
+  const table = getScoringTable(draft);
+  const rosterSlots = getRosterSlots(draft);
+
+  const projected = pool
+    .map(player => ({ player, points: getLeaguePoints(player, table) }))
+    .filter((entry): entry is { player: Player; points: number } => entry.points !== null)
+    .sort((a, b) => b.points - a.points);
+
+  // League-wide starting spots, most specific slots first so flex spots go
+  // to whoever is left
+  const capacity = new Map<RosterSlot, number>();
+  for (const slot of getSportRosterSlots(sport).filter(isStartingSlot)) {
+    const count = (rosterSlots[slot] ?? 0) * draft.numTeams;
+    if (count > 0) capacity.set(slot, count);
+  }
+  const starters = [...capacity.values()].reduce((sum, count) => sum + count, 0);
+  const slotOrder = [...capacity.keys()].sort((a, b) =>
+    (getPositionFilter(sport, a)?.length ?? 0) - (getPositionFilter(sport, b)?.length ?? 0)
+  );
+
+  const starterIds = new Set<string>();
+  for (const { player } of projected) {
+    const slot = slotOrder.find(slot => capacity.get(slot)! > 0 && isEligibleForSlot(sport, slot, player));
+    if (slot) {
+      capacity.set(slot, capacity.get(slot)! - 1);
+      starterIds.add(player.id);
+    }
+  }
+
+  // Replacement level: the best player left out of every lineup, or the
+  // last starter when the pool runs dry
+  const replacementLevels: Record<string, number> = {};
+  const lastStarter: Record<string, number> = {};
+  for (const { player, points } of projected) {
+    for (const position of getRankingPositions(sport, player)) {
+      if (starterIds.has(player.id)) {
+        lastStarter[position] = points;
+      } else if (replacementLevels[position] === undefined) {
+        replacementLevels[position] = points;
+      }
+    }
+  }
+  for (const [position, points] of Object.entries(lastStarter)) {
+    replacementLevels[position] ??= points;
+  }
+
+  const valued = projected
+    .map(({ player, points }) => {
+      const [position] = getRankingPositions(sport, player)
+        .sort((a, b) => (replacementLevels[a] ?? 0) - (replacementLevels[b] ?? 0));
+      const replacementPoints = replacementLevels[position] ?? 0;
+      return { player, points, position: position ?? '-', replacementPoints, vorp: points - replacementPoints };
+    })
+    .sort((a, b) => b.vorp - a.vorp);
+
+  const tiers = assignTiers(valued.map(entry => entry.vorp));
+  const positionRanks = new Map<string, { rank: number; tier: number }>();
+
+  const byPosition = new Map<string, typeof valued>();
+  for (const entry of valued) {
+    byPosition.set(entry.position, [...(byPosition.get(entry.position) ?? []), entry]);
+  }
+  for (const entries of byPosition.values()) {
+    const positionTiers = assignTiers(entries.map(entry => entry.vorp));
+    entries.forEach((entry, i) => positionRanks.set(entry.player.id, { rank: i + 1, tier: positionTiers[i] }));
+  }
+
+  return {
+    replacementLevels,
+    starters,
+    players: valued.map((entry, i) => ({
+      ...entry,
+      vorp: Math.round(entry.vorp * 10) / 10,
+      rank: i + 1,
+      tier: tiers[i],
+      positionRank: positionRanks.get(entry.player.id)!.rank,
+      positionTier: positionRanks.get(entry.player.id)!.tier,
+    })),
+  };
+}
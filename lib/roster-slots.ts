@@ -0,0 +1,305 @@
+/**
+ * Roster Slots
+ *
+ * The lineup a draft is building toward: starting slots per sport, flex slots
+ * that accept several positions, and bench (BN) and injured list (IL) spots.
+ * Rosters are fitted to the slots with a maximum bipartite matching over each
+ * player's eligible positions, so a PG/SG can cover whichever guard slot is
+ * open. Pure, so the draft room can fit rosters client-side too.
+ */
+
+import type { Draft, Player } from '@/lib/db/schema';
+import { getDraftSettings, ROSTER_SLOTS } from '@/lib/draft-settings';
+
+export type RosterSlot = typeof ROSTER_SLOTS[number];
+export type RosterSlots = Partial<Record<RosterSlot, number>>;
+export type Sport = Draft['sport'];
+
+// Players fitted to slots only need their positions and injury status
+export type RosterPlayer = Pick<Player, 'position' | 'positions'> & { injuryStatus?: string | null };
+
+export interface FilledSlot<P extends RosterPlayer> {
+  slot: RosterSlot;
+  player: P | null;
+}
+
+export interface RosterFill<P extends RosterPlayer> {
+  slots: FilledSlot<P>[]; // In display order, starters first
+  overflow: P[]; // Players left over once every slot is full
+}
+
+// Slots that don't count toward the starting lineup
+const RESERVE_SLOTS: RosterSlot[] = ['BN', 'IL'];
+
+// Injury statuses that make a player eligible for the IL
+const IL_STATUSES = ['OUT', 'IR', 'IL', 'PUP', 'INJURED RESERVE'];
+
+// Positions each starting slot accepts, by sport. Order is display order.
+const SLOT_ELIGIBILITY: Record<Sport, Partial<Record<RosterSlot, string[]>>> = {
+  NBA: {
+    PG: ['PG'],
+    SG: ['SG'],
+    G: ['PG', 'SG'],
+    SF: ['SF'],
+    PF: ['PF'],
+    F: ['SF', 'PF'],
+    C: ['C'],
+    UTIL: ['PG', 'SG', 'SF', 'PF', 'C', 'G', 'F'],
+  },
+  NFL: {
+    QB: ['QB'],
+    RB: ['RB'],
+    WR: ['WR'],
+    TE: ['TE'],
+    FLEX: ['RB', 'WR', 'TE'],
+    SUPERFLEX: ['QB', 'RB', 'WR', 'TE'],
+    K: ['K'],
+    DST: ['DST', 'DEF'],
+  },
+  MLB: {
+    C: ['C'],
+    '1B': ['1B'],
+    '2B': ['2B'],
+    SS: ['SS'],
+    '3B': ['3B'],
+    OF: ['OF', 'LF', 'CF', 'RF'],
+    UTIL: ['C', '1B', '2B', 'SS', '3B', 'OF', 'LF', 'CF', 'RF', 'DH'], // Any hitter
+    SP: ['SP', 'P'],
+    RP: ['RP', 'P'],
+  },
+};
+
+// Starting lineups used when a draft doesn't define its own; the bench takes
+// whatever is left of the roster size
+const DEFAULT_STARTING_SLOTS: Record<Sport, RosterSlots> = {
+  NBA: { PG: 1, SG: 1, G: 1, SF: 1, PF: 1, F: 1, C: 1, UTIL: 3 },
+  NFL: { QB: 1, RB: 2, WR: 2, TE: 1, FLEX: 1, K: 1, DST: 1 },
+  MLB: { C: 1, '1B': 1, '2B': 1, SS: 1, '3B': 1, OF: 3, UTIL: 1, SP: 2, RP: 2 },
+};
+
+/**
+ * Slots a sport supports, in display order
+ */
+export function getSportRosterSlots(sport: Sport): RosterSlot[] {
+  return [...Object.keys(SLOT_ELIGIBILITY[sport]) as RosterSlot[], ...RESERVE_SLOTS];
+}
+
+/**
+ * Default slots for a sport and roster size
+ */
+export function getDefaultRosterSlots(sport: Sport, rosterSize: number): RosterSlots {
+  const starting = DEFAULT_STARTING_SLOTS[sport];
+  const startingCount = Object.values(starting).reduce((sum, count) => sum + (count ?? 0), 0);
+
+  return { ...starting, BN: Math.max(0, rosterSize - startingCount) };
+}
+
+/**
+ * The slots a draft fills: its configured slots, or the sport's defaults
+ */
+export function getRosterSlots(draft: Pick<Draft, 'sport' | 'rosterSize' | 'settings'>): RosterSlots {
+  return getDraftSettings(draft).rosterSlots ?? getDefaultRosterSlots(draft.sport, draft.rosterSize);
+}
+
+/**
+ * How many players a set of slots drafts: every slot but the IL
+ */
+export function getDraftedSlotCount(slots: RosterSlots): number {
+  return Object.entries(slots)
+    .filter(([slot]) => slot !== 'IL')
+    .reduce((sum, [, count]) => sum + (count ?? 0), 0);
+}
+
+/**
+ * Why a set of slots doesn't work for a draft, or null if it does. Every slot
+ * but the IL is drafted, so those must add up to the roster size.
+ */
+export function getRosterSlotsError(sport: Sport, slots: RosterSlots, rosterSize: number): string | null {
+  const supported = getSportRosterSlots(sport);
+  const unsupported = (Object.keys(slots) as RosterSlot[]).filter(slot => !supported.includes(slot));
+
+  if (unsupported.length > 0) {
+    return `${sport} drafts don't use these roster slots: ${unsupported.join(', ')}`;
+  }
+
+  const startingCount = Object.entries(slots)
+    .filter(([slot]) => !RESERVE_SLOTS.includes(slot as RosterSlot))
+    .reduce((sum, [, count]) => sum + (count ?? 0), 0);
+
+  if (startingCount === 0) {
+    return 'Roster slots need at least one starting slot';
+  }
+
+  const draftedCount = getDraftedSlotCount(slots);
+
+  if (draftedCount !== rosterSize) {
+    return `Roster slots other than IL add up to ${draftedCount}, but the roster size is ${rosterSize}`;
+  }
+
+  return null;
+}
+
+/**
+ * Every position a player is eligible at, from `players.positions` with the
+ * primary position as a fallback
+ */
+export function getPlayerPositions(player: RosterPlayer): string[] {
+  const positions = Array.isArray(player.positions)
+    ? player.positions.filter((pos): pos is string => typeof pos === 'string' && pos.length > 0)
+    : [];
+
+  if (positions.length > 0) {
+    return positions;
+  }
+
+  return player.position ? [player.position] : [];
+}
+
+/**
+ * Positions a player search filter matches. Slot names expand to the
+ * positions they accept (FLEX finds RBs, WRs and TEs), and Sleeper's DEF is
+ * an alias for DST. Null if the sport has no such position.
+ */
+export function getPositionFilter(sport: Sport, position: string): string[] | null {
+  const eligibility = SLOT_ELIGIBILITY[sport];
+  const normalized = sport === 'NFL' && position === 'DEF' ? 'DST' : position;
+
+  if (normalized in eligibility) {
+    return eligibility[normalized as RosterSlot]!;
+  }
+
+  const known = Object.values(eligibility).some(positions => positions?.includes(normalized));
+  return known ? [normalized] : null;
+}
+
+/**
+ * Whether a player can fill a slot
+ */
+export function isEligibleForSlot(sport: Sport, slot: RosterSlot, player: RosterPlayer): boolean {
+  if (slot === 'BN') {
+    return true;
+  }
+
+  if (slot === 'IL') {
+    return !!player.injuryStatus && IL_STATUSES.includes(player.injuryStatus.toUpperCase());
+  }
+
+  const eligible = SLOT_ELIGIBILITY[sport][slot] ?? [];
+  return getPlayerPositions(player).some(pos => eligible.includes(pos.toUpperCase()));
+}
+
+/**
+ * Fit a roster into a draft's slots, filling as many starting slots as
+ * possible. Players are placed in roster order, so earlier picks keep their
+ * starting spots; everyone else goes to the IL if injured, then the bench.
+ */
+export function fillRosterSlots<P extends RosterPlayer>(sport: Sport, slots: RosterSlots, roster: P[]): RosterFill<P> {
+  const expanded = getSportRosterSlots(sport).flatMap(slot =>
+    Array.from({ length: slots[slot] ?? 0 }, () => slot)
+  );
+  const starting = expanded
+    .map((slot, index) => ({ slot, index }))
+    .filter(({ slot }) => !RESERVE_SLOTS.includes(slot));
+
+  // Try the narrowest slots first so flex spots stay open for later players
+  const tryOrder = [...starting].sort((a, b) =>
+    (SLOT_ELIGIBILITY[sport][a.slot]?.length ?? 0) - (SLOT_ELIGIBILITY[sport][b.slot]?.length ?? 0)
+  );
+
+  const assigned = new Map<number, number>(); // Slot index -> roster index
+
+  // Kuhn's augmenting paths: move earlier players between slots to make room
+  const place = (playerIndex: number, visited: Set<number>): boolean => {
+    for (const { slot, index } of tryOrder) {
+      if (visited.has(index) || !isEligibleForSlot(sport, slot, roster[playerIndex])) {
+        continue;
+      }
+      visited.add(index);
+
+      const current = assigned.get(index);
+      if (current === undefined || place(current, visited)) {
+        assigned.set(index, playerIndex);
+        return true;
+      }
+    }
+    return false;
+  };
+
+  roster.forEach((_, playerIndex) => place(playerIndex, new Set()));
+
+  const starters = new Set(assigned.values());
+  const overflow: P[] = [];
+
+  for (const [playerIndex, player] of roster.entries()) {
+    if (starters.has(playerIndex)) {
+      continue;
+    }
+
+    const openReserve = (slot: RosterSlot) =>
+      expanded.findIndex((s, index) => s === slot && !assigned.has(index));
+    const ilIndex = isEligibleForSlot(sport, 'IL', player) ? openReserve('IL') : -1;
+    const reserveIndex = ilIndex !== -1 ? ilIndex : openReserve('BN');
+
+    if (reserveIndex === -1) {
+      overflow.push(player);
+    } else {
+      assigned.set(reserveIndex, playerIndex);
+    }
+  }
+
+  return {
+    slots: expanded.map((slot, index) => {
+      const playerIndex = assigned.get(index);
+      return { slot, player: playerIndex === undefined ? null : roster[playerIndex] };
+    }),
+    overflow,
+  };
+}
+
+/**
+ * Starting slots still waiting for a player
+ */
+export function getOpenStartingSlots<P extends RosterPlayer>(fill: RosterFill<P>): RosterSlot[] {
+  return fill.slots
+    .filter(({ slot, player }) => !player && !RESERVE_SLOTS.includes(slot))
+    .map(({ slot }) => slot);
+}
+
+/**
+ * Whether drafting a player would fill another starting slot, counting any
+ * shuffling of the current roster that makes room for them
+ */
+export function fillsOpenStartingSlot<P extends RosterPlayer>(
+  sport: Sport,
+  slots: RosterSlots,
+  roster: P[],
+  player: P
+): boolean {
+  const openNow = getOpenStartingSlots(fillRosterSlots(sport, slots, roster)).length;
+  return openNow > 0 && getOpenStartingSlots(fillRosterSlots(sport, slots, [...roster, player])).length < openNow;
+}
+
+/**
+ * Filled and total counts for each slot, in display order
+ */
+export function summarizeRosterSlots<P extends RosterPlayer>(
+  fill: RosterFill<P>
+): Array<{ slot: RosterSlot; filled: number; total: number }> {
+  const summary = new Map<RosterSlot, { slot: RosterSlot; filled: number; total: number }>();
+
+  for (const { slot, player } of fill.slots) {
+    const entry = summary.get(slot) ?? { slot, filled: 0, total: 0 };
+    entry.total += 1;
+    if (player) entry.filled += 1;
+    summary.set(slot, entry);
+  }
+
+  return [...summary.values()];
+}
+
+/**
+ * Whether a slot is part of the starting lineup
+ */
+export function isStartingSlot(slot: RosterSlot): boolean {
+  return !RESERVE_SLOTS.includes(slot);
+}
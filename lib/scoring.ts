@@ -0,0 +1,185 @@
+/**
+ * League Scoring
+ *
+ * Turns projected stat lines into fantasy points for a draft's own scoring
+ * table: the custom table in its settings, or the preset for its sport and
+ * scoring type. Stat lines come from `players.metadata.projections`; players
+ * without one, and every player in category leagues, keep the consensus
+ * `projectedPoints`. `getLeaguePointsSql` computes the same number in the
+ * database so player lists can sort and filter on it.
+ */
+
+import { sql, type SQL } from 'drizzle-orm';
+import { players, type Draft, type Player } from '@/lib/db/schema';
+import { getDraftSettings, type ScoringTable } from '@/lib/draft-settings';
+import type { StatLine } from '@/lib/projections';
+
+// Offense shared by every NFL preset; PPR presets add REC
+const NFL_STANDARD: Record<string, number> = {
+  PASS_YDS: 0.04,
+  PASS_TD: 4,
+  INT: -2,
+  RUSH_YDS: 0.1,
+  RUSH_TD: 6,
+  REC_YDS: 0.1,
+  REC_TD: 6,
+  FUM_LOST: -2,
+  TWO_PT: 2,
+  FGM: 3,
+  XPM: 1,
+  SACK: 1,
+  DEF_INT: 2,
+  FUM_REC: 2,
+  DEF_TD: 6,
+  SAFETY: 2,
+};
+
+const NBA_POINTS: Record<string, number> = {
+  PTS: 1,
+  REB: 1.2,
+  AST: 1.5,
+  STL: 3,
+  BLK: 3,
+  TO: -1,
+};
+
+const MLB_POINTS: Record<string, number> = {
+  R: 1,
+  HR: 4,
+  RBI: 1,
+  SB: 2,
+  IP: 3,
+  K: 1,
+  W: 5,
+  SV: 5,
+};
+
+/**
+ * The scoring table a sport's preset scoring type implies, or null for
+ * category leagues
+ */
+export function getPresetScoringTable(sport: Draft['sport'], scoringType: Draft['scoringType']): ScoringTable | null {
+  if (scoringType === 'categories') {
+    return null;
+  }
+
+  switch (sport) {
+    case 'NFL':
+      return {
+        stats: {
+          ...NFL_STANDARD,
+          ...(scoringType === 'ppr' ? { REC: 1 } : scoringType === 'half_ppr' ? { REC: 0.5 } : {}),
+        },
+      };
+    case 'MLB':
+      return { stats: MLB_POINTS };
+    case 'NBA':
+    default:
+      return { stats: NBA_POINTS };
+  }
+}
+
+/**
+ * The draft's scoring table: its custom one, else its preset
+ */
+export function getScoringTable(draft: Pick<Draft, 'sport' | 'scoringType' | 'settings'>): ScoringTable | null {
+  return getDraftSettings(draft).scoring ?? getPresetScoringTable(draft.sport, draft.scoringType);
+}
+
+/**
+ * A player's projected stat line, or null when none has been imported
+ */
+export function getProjectedStats(player: Pick<Player, 'metadata'>): StatLine | null {
+  const metadata = player.metadata as { projections?: Record<string, unknown> } | null;
+
+  if (!metadata?.projections) {
+    return null;
+  }
+
+  return Object.fromEntries(
+    Object.entries(metadata.projections).filter((entry): entry is [string, number] =>
+      typeof entry[1] === 'number' && Number.isFinite(entry[1])
+    )
+  );
+}
+
+/**
+ * Fantasy points a stat line is worth under a scoring table. Stats the
+ * table doesn't score are ignored; stats the line lacks count as zero.
+ */
+export function calculateFantasyPoints(stats: StatLine, table: ScoringTable): number {
+  let points = 0;
+
+  for (const [stat, value] of Object.entries(table.stats)) {
+    points += (stats[stat] ?? 0) * value;
+  }
+
+  for (const bonus of table.bonuses ?? []) {
+    if ((stats[bonus.stat] ?? 0) >= bonus.threshold) {
+      points += bonus.points;
+    }
+  }
+
+  return points;
+}
+
+/**
+ * A player's projected points in a league, falling back to the consensus
+ * when there's no table or stat line to score
+ */
+export function getLeaguePoints(player: Pick<Player, 'metadata' | 'projectedPoints'>, table: ScoringTable | null): number | null {
+  const stats = table ? getProjectedStats(player) : null;
+  return stats && table ? Math.round(calculateFantasyPoints(stats, table)) : player.projectedPoints;
+}
+
+/**
+ * Players with `projectedPoints` replaced by their points in this draft's league
+ */
+export function withLeaguePoints<T extends Player>(playerList: T[], draft: Pick<Draft, 'sport' | 'scoringType' | 'settings'>): T[] {
+  const table = getScoringTable(draft);
+
+  if (!table) {
+    return playerList;
+  }
+
+  return playerList.map(player => ({ ...player, projectedPoints: getLeaguePoints(player, table) }));
+}
+
+/**
+ * SQL for a player's projected points in a league, mirroring `getLeaguePoints`
+ */
+export function getLeaguePointsSql(table: ScoringTable | null): SQL<number | null> {
+  if (!table) {
+    return sql<number | null>`${players.projectedPoints}`;
+  }
+
+  const stat = (name: string) => sql`coalesce((${players.metadata}->'projections'->>${name})::float8, 0)`;
+  const terms = [
+    ...Object.entries(table.stats).map(([name, value]) => sql`${stat(name)} * ${value}::float8`),
+    ...(table.bonuses ?? []).map(bonus =>
+      sql`case when ${stat(bonus.stat)} >= ${bonus.threshold}::float8 then ${bonus.points}::float8 else 0 end`
+    ),
+  ];
+  const total = terms.length > 0 ? sql.join(terms, sql` + `) : sql`0`;
+
+  return sql<number | null>`coalesce(
+    case when ${players.metadata}->'projections' is not null then round(${total})::int end,
+    ${players.projectedPoints}
+  )`;
+}
+
+/**
+ * Short description of a scoring table for prompts, e.g.
+ * "PTS 1, REB 1.2, TO -1; +5 at 2000 PTS"
+ */
+export function describeScoringTable(table: ScoringTable): string {
+  const stats = Object.entries(table.stats)
+    .filter(([, value]) => value !== 0)
+    .map(([stat, value]) => `${stat} ${value}`)
+    .join(', ');
+  const bonuses = (table.bonuses ?? [])
+    .map(bonus => `${bonus.points >= 0 ? '+' : ''}${bonus.points} at ${bonus.threshold} ${bonus.stat}`)
+    .join(', ');
+
+  return bonuses ? `${stats}; ${bonuses}` : stats;
+}
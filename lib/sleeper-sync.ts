@@ -0,0 +1,422 @@
+/**
+ * Sleeper Player Sync
+ *
+ * Pulls NBA and NFL players from the Sleeper API (or a fixture file with the
+ * same shape) into `players`. Each sync is recorded as a run with its counts;
+ * players are written in batches of bulk upserts, in Sleeper id order, and
+ * only when something about them changed. Team, status and injury changes
+ * are stored per run in `player_changes` and added to the players' news
+ * timelines, alerting the live drafts they matter to. The run's cursor is
+ * the last id written, so a run that failed part way can be resumed, and a
+ * run can be written a few batches at a time across several calls.
+ *
+ * Sleeper API docs: https://docs.sleeper.app/
+ */
+
+import { readFile } from 'fs/promises';
+import { db } from '@/lib/db';
+import {
+  playerChanges,
+  playerSyncRuns,
+  players,
+  type NewPlayer,
+  type Player,
+  type PlayerSyncRun,
+} from '@/lib/db/schema';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { logger } from '@/lib/logger';
+import { recordStatusChanges, type StatusChange } from '@/lib/player-news';
+
+const SLEEPER_BASE_URL = 'https://api.sleeper.app/v1';
+
+// Players per bulk upsert
+const BATCH_SIZE = 500;
+
+// A run still marked running after this long is taken to have died
+export const STALE_RUN_MINUTES = 30;
+
+export type SleeperSport = 'NBA' | 'NFL';
+
+export interface SleeperPlayer {
+  player_id: string;
+  first_name: string;
+  last_name: string;
+  full_name?: string;
+  team: string | null;
+  position: string | null;
+  fantasy_positions?: string[];
+  age?: number;
+  injury_status?: string;
+  status?: string;
+  years_exp?: number;
+  height?: string;
+  weight?: string;
+  college?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface SyncError {
+  sleeperId: string; // First player of the batch that failed
+  message: string;
+}
+
+// Fields whose changes are recorded
+const TRACKED_FIELDS = ['team', 'status', 'injuryStatus'] as const;
+
+// NFL positions that matter for fantasy drafts; Sleeper lists team defenses as DEF
+const NFL_FANTASY_POSITIONS = ['QB', 'RB', 'WR', 'TE', 'K', 'DEF'];
+
+/**
+ * Fantasy positions for an NFL player, with DEF stored as DST to match the
+ * lineup slot. Empty for offensive linemen, IDP and other non-fantasy players.
+ */
+function getNflPositions(player: SleeperPlayer): string[] {
+  const positions = player.fantasy_positions?.length
+    ? player.fantasy_positions
+    : player.position ? [player.position] : [];
+
+  return positions
+    .filter(pos => NFL_FANTASY_POSITIONS.includes(pos))
+    .map(pos => pos === 'DEF' ? 'DST' : pos);
+}
+
+/**
+ * Player row for a Sleeper player, or null for ones we don't keep: nameless
+ * players and, for NFL, anyone without a fantasy position
+ */
+export function toPlayerRow(sport: SleeperSport, sleeperId: string, player: SleeperPlayer): NewPlayer | null {
+  if (!player.first_name && !player.last_name) {
+    return null;
+  }
+
+  // NFL: keep fantasy-relevant players and team defenses only
+  const nflPositions = sport === 'NFL' ? getNflPositions(player) : null;
+  if (nflPositions && nflPositions.length === 0) {
+    return null;
+  }
+
+  // Team defenses are keyed by team abbreviation and named after the team,
+  // e.g. "San Francisco 49ers D/ST"
+  const isDefense = nflPositions?.includes('DST') ?? false;
+  const fullName = isDefense
+    ? `${player.first_name || ''} ${player.last_name || ''} D/ST`.trim()
+    : player.full_name || `${player.first_name || ''} ${player.last_name || ''}`.trim();
+
+  if (!fullName) {
+    return null;
+  }
+
+  return {
+    sleeperId,
+    sport,
+    firstName: player.first_name || null,
+    lastName: player.last_name || null,
+    fullName,
+    team: player.team || (isDefense ? sleeperId : null),
+    position: nflPositions ? nflPositions[0] : player.position || null,
+    positions: nflPositions ?? player.fantasy_positions ?? null,
+    age: player.age || null,
+    injuryStatus: player.injury_status || null,
+    status: player.status || null,
+    metadata: {
+      yearsExp: player.years_exp,
+      height: player.height,
+      weight: player.weight,
+      college: player.college,
+    },
+  };
+}
+
+/**
+ * Fetch every player for a sport from the Sleeper API, keyed by Sleeper id
+ */
+export async function fetchSleeperPlayers(sport: SleeperSport): Promise<Record<string, SleeperPlayer>> {
+  const response = await fetch(`${SLEEPER_BASE_URL}/players/${sport.toLowerCase()}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch players: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Read players from a JSON file shaped like the Sleeper API's response
+ */
+export async function readSleeperFixture(filePath: string): Promise<Record<string, SleeperPlayer>> {
+  const data = JSON.parse(await readFile(filePath, 'utf8'));
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`${filePath} must contain a JSON object of players keyed by Sleeper id`);
+  }
+  return data;
+}
+
+/**
+ * Tracked fields that differ between a stored player and its new row
+ */
+export function diffPlayer(
+  existing: Pick<Player, typeof TRACKED_FIELDS[number]>,
+  row: NewPlayer
+): Array<{ field: string; previousValue: string | null; newValue: string | null }> {
+  return TRACKED_FIELDS
+    .filter(field => (existing[field] ?? null) !== (row[field] ?? null))
+    .map(field => ({ field, previousValue: existing[field] ?? null, newValue: row[field] ?? null }));
+}
+
+/**
+ * Whether a stored player differs from its new row in anything synced
+ */
+function hasChanged(existing: Player, row: NewPlayer): boolean {
+  const metadata = (existing.metadata ?? {}) as Record<string, unknown>;
+
+  return existing.fullName !== row.fullName
+    || existing.firstName !== row.firstName
+    || existing.lastName !== row.lastName
+    || existing.position !== row.position
+    || existing.age !== row.age
+    || JSON.stringify(existing.positions) !== JSON.stringify(row.positions)
+    || diffPlayer(existing, row).length > 0
+    || Object.entries(row.metadata as Record<string, unknown>)
+      .some(([key, value]) => value !== undefined && metadata[key] !== value);
+}
+
+/**
+ * The latest run for a sport that can be resumed: one that failed, or one
+ * left running past STALE_RUN_MINUTES, with some players already written
+ */
+export async function getResumableRun(sport: SleeperSport): Promise<PlayerSyncRun | null> {
+  const [latest] = await db
+    .select()
+    .from(playerSyncRuns)
+    .where(eq(playerSyncRuns.sport, sport))
+    .orderBy(desc(playerSyncRuns.startedAt))
+    .limit(1);
+
+  if (!latest || latest.status === 'completed' || !latest.cursor) {
+    return null;
+  }
+
+  const staleBefore = Date.now() - STALE_RUN_MINUTES * 60 * 1000;
+  if (latest.status === 'running' && (latest.startedAt?.getTime() ?? 0) > staleBefore) {
+    return null;
+  }
+
+  return latest;
+}
+
+/**
+ * Whether a sync for the sport is running now
+ */
+export async function isSyncRunning(sport: SleeperSport): Promise<boolean> {
+  const [running] = await db
+    .select({ id: playerSyncRuns.id })
+    .from(playerSyncRuns)
+    .where(and(
+      eq(playerSyncRuns.sport, sport),
+      eq(playerSyncRuns.status, 'running'),
+      sql`${playerSyncRuns.startedAt} > now() - make_interval(mins => ${STALE_RUN_MINUTES})`
+    ))
+    .limit(1);
+
+  return !!running;
+}
+
+/**
+ * Sync a sport's players, recording the run. With `resume`, continues the
+ * last failed run from its cursor instead of starting over; with `runId`,
+ * continues that run. With `maxBatches`, stops after that many batches and
+ * returns the run still running, to be continued by id. Players come from
+ * `source` when given (e.g. a fixture), otherwise the Sleeper API.
+ */
+export async function syncSleeperPlayers(
+  sport: SleeperSport,
+  options: {
+    resume?: boolean;
+    runId?: string;
+    maxBatches?: number;
+    source?: { name: string; load: () => Promise<Record<string, SleeperPlayer>> };
+    onProgress?: (processed: number, total: number) => void;
+  } = {}
+): Promise<PlayerSyncRun> {
+  const source = options.source ?? { name: 'sleeper', load: () => fetchSleeperPlayers(sport) };
+  const resumed = options.runId
+    ? (await db.select().from(playerSyncRuns).where(eq(playerSyncRuns.id, options.runId)))[0] ?? null
+    : options.resume ? await getResumableRun(sport) : null;
+
+  const [run] = resumed
+    ? await db
+      .update(playerSyncRuns)
+      .set({ status: 'running', error: null, finishedAt: null })
+      .where(eq(playerSyncRuns.id, resumed.id))
+      .returning()
+    : await db.insert(playerSyncRuns).values({ source: source.name, sport }).returning();
+
+  const counts = {
+    fetched: run.fetched,
+    inserted: run.inserted,
+    updated: run.updated,
+    unchanged: run.unchanged,
+    skipped: run.skipped,
+  };
+  const errors = (run.errors as SyncError[] | null) ?? [];
+  let cursor = run.cursor;
+
+  logger.info('Player sync started', { runId: run.id, sport, source: source.name, resumeFrom: cursor });
+
+  try {
+    const data = await source.load();
+    const entries = Object.entries(data)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .filter(([sleeperId]) => !cursor || sleeperId.localeCompare(cursor) > 0);
+
+    if (!resumed) counts.fetched = Object.keys(data).length;
+
+    const existing = new Map(
+      (await db.select().from(players).where(eq(players.sport, sport)))
+        .filter(player => player.sleeperId)
+        .map(player => [player.sleeperId!, player])
+    );
+
+    const end = options.maxBatches ? Math.min(entries.length, options.maxBatches * BATCH_SIZE) : entries.length;
+
+    for (let i = 0; i < end; i += BATCH_SIZE) {
+      const batch = entries.slice(i, i + BATCH_SIZE);
+      const rows: NewPlayer[] = [];
+      const changes: StatusChange[] = [];
+      let inserted = 0;
+      let updated = 0;
+      let unchanged = 0;
+      let skipped = 0;
+
+      for (const [sleeperId, player] of batch) {
+        const row = toPlayerRow(sport, sleeperId, player);
+        const current = existing.get(sleeperId);
+
+        if (!row) {
+          skipped++;
+        } else if (!current) {
+          rows.push(row);
+          inserted++;
+        } else if (hasChanged(current, row)) {
+          rows.push(row);
+          changes.push(...diffPlayer(current, row).map(change => ({ ...change, playerId: current.id, playerName: row.fullName })));
+          updated++;
+        } else {
+          unchanged++;
+        }
+      }
+
+      try {
+        await db.transaction(async (tx) => {
+          if (rows.length > 0) {
+            await tx
+              .insert(players)
+              .values(rows)
+              .onConflictDoUpdate({
+                target: players.sleeperId,
+                set: {
+                  firstName: sql`excluded.first_name`,
+                  lastName: sql`excluded.last_name`,
+                  fullName: sql`excluded.full_name`,
+                  team: sql`excluded.team`,
+                  position: sql`excluded.position`,
+                  positions: sql`excluded.positions`,
+                  age: sql`excluded.age`,
+                  injuryStatus: sql`excluded.injury_status`,
+                  status: sql`excluded.status`,
+                  // Keep what other imports stored, such as projections
+                  metadata: sql`coalesce(${players.metadata}, '{}'::jsonb) || excluded.metadata`,
+                },
+              });
+          }
+          if (changes.length > 0) {
+            await tx.insert(playerChanges).values(changes.map(change => ({
+              runId: run.id,
+              playerId: change.playerId,
+              field: change.field,
+              previousValue: change.previousValue,
+              newValue: change.newValue,
+            })));
+          }
+        });
+
+        // Timeline entries and draft alerts for what changed
+        await recordStatusChanges(changes, { source: run.source, runId: run.id });
+
+        counts.inserted += inserted;
+        counts.updated += updated;
+        counts.unchanged += unchanged;
+        counts.skipped += skipped;
+      } catch (error) {
+        errors.push({ sleeperId: batch[0][0], message: error instanceof Error ? error.message : String(error) });
+        logger.error('Player sync batch failed', { runId: run.id, sleeperId: batch[0][0], error: String(error) });
+      }
+
+      cursor = batch[batch.length - 1][0];
+      await db
+        .update(playerSyncRuns)
+        .set({ ...counts, cursor, errors })
+        .where(eq(playerSyncRuns.id, run.id));
+
+      options.onProgress?.(Math.min(i + BATCH_SIZE, entries.length), entries.length);
+    }
+
+    // More players left for the next call; the progress is already saved
+    if (end < entries.length) {
+      const [progress] = await db.select().from(playerSyncRuns).where(eq(playerSyncRuns.id, run.id));
+      logger.info('Player sync chunk written', { runId: run.id, sport, cursor, remaining: entries.length - end });
+      return progress;
+    }
+
+    const [finished] = await db
+      .update(playerSyncRuns)
+      .set({ ...counts, cursor, errors, status: 'completed', finishedAt: new Date() })
+      .where(eq(playerSyncRuns.id, run.id))
+      .returning();
+
+    logger.info('Player sync completed', { runId: run.id, sport, ...counts, errors: errors.length });
+
+    return finished;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    await db
+      .update(playerSyncRuns)
+      .set({ ...counts, cursor, errors, status: 'failed', error: message, finishedAt: new Date() })
+      .where(eq(playerSyncRuns.id, run.id));
+
+    logger.error('Player sync failed', { runId: run.id, sport, error: message });
+    throw error;
+  }
+}
+
+/**
+ * A run's recorded changes, with the names of the players they're for
+ */
+export async function getRunChanges(runId: string) {
+  return db
+    .select({
+      playerId: playerChanges.playerId,
+      fullName: players.fullName,
+      field: playerChanges.field,
+      previousValue: playerChanges.previousValue,
+      newValue: playerChanges.newValue,
+    })
+    .from(playerChanges)
+    .innerJoin(players, eq(playerChanges.playerId, players.id))
+    .where(eq(playerChanges.runId, runId))
+    .orderBy(playerChanges.field, players.fullName);
+}
+
+/**
+ * Recent runs, newest first, optionally for one sport
+ */
+export async function getRecentRuns(sport?: SleeperSport, limit = 20): Promise<PlayerSyncRun[]> {
+  return db
+    .select()
+    .from(playerSyncRuns)
+    .where(sport ? eq(playerSyncRuns.sport, sport) : undefined)
+    .orderBy(desc(playerSyncRuns.startedAt))
+    .limit(limit);
+}
@@ -1,11 +1,11 @@
 export class SSEParser {
   private buffer = '';
-  private currentEvent: { event?: string; data?: string } = {};
+  private currentEvent: { id?: string; event?: string; data?: string } = {};
 
-  parse(chunk: string): Array<{ event?: string; data?: string }> {
+  parse(chunk: string): Array<{ id?: string; event?: string; data?: string }> {
     this.buffer += chunk;
     const lines = this.buffer.split('\n');
-    const events: Array<{ event?: string; data?: string }> = [];
+    const events: Array<{ id?: string; event?: string; data?: string }> = [];
     
     // Keep the last line if it's incomplete
     this.buffer = lines[lines.length - 1];
@@ -23,7 +23,9 @@ export class SSEParser {
         continue;
       }
       
-      if (line.startsWith('event:')) {
+      if (line.startsWith('id:')) {
+        this.currentEvent.id = line.slice(3).trim();
+      } else if (line.startsWith('event:')) {
         this.currentEvent.event = line.slice(6).trim();
       } else if (line.startsWith('data:')) {
         this.currentEvent.data = line.slice(5).trim();
@@ -17,9 +17,9 @@ export async function middleware(request: NextRequest) {
     const sessionCookie = await getSessionCookie(request);
     
     if (!sessionCookie) {
-      // Redirect to login with return URL
+      // Redirect to login with return URL (keeping the query, e.g. invite tokens)
       const url = new URL('/login', request.url);
-      url.searchParams.set('from', pathname);
+      url.searchParams.set('from', pathname + request.nextUrl.search);
       return NextResponse.redirect(url);
     }
   }
@@ -0,0 +1,38 @@
+-- Migration: Add Auction Draft Support
+-- Adds nominations, bid history and winning prices for auction drafts
+
+DO $$ BEGIN
+    CREATE TYPE "nomination_status" AS ENUM('open', 'sold', 'cancelled');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Winning bid for picks made in auction drafts
+ALTER TABLE "draft_picks" ADD COLUMN IF NOT EXISTS "price" integer;
+
+-- Auction Nominations table
+CREATE TABLE IF NOT EXISTS "auction_nominations" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "draft_id" uuid NOT NULL REFERENCES "drafts"("id") ON DELETE CASCADE,
+    "player_id" uuid NOT NULL REFERENCES "players"("id"),
+    "nominating_team" integer NOT NULL,
+    "current_bid" integer NOT NULL,
+    "high_bidder" integer NOT NULL,
+    "status" "nomination_status" NOT NULL DEFAULT 'open',
+    "created_at" timestamp DEFAULT now(),
+    "closed_at" timestamp
+);
+
+-- Auction Bids table
+CREATE TABLE IF NOT EXISTS "auction_bids" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "nomination_id" uuid NOT NULL REFERENCES "auction_nominations"("id") ON DELETE CASCADE,
+    "team_number" integer NOT NULL,
+    "amount" integer NOT NULL,
+    "created_at" timestamp DEFAULT now()
+);
+
+-- Indexes for auction tables
+CREATE INDEX IF NOT EXISTS "idx_auction_nominations_draft_id" ON "auction_nominations"("draft_id");
+CREATE INDEX IF NOT EXISTS "idx_auction_nominations_status" ON "auction_nominations"("status");
+CREATE INDEX IF NOT EXISTS "idx_auction_bids_nomination_id" ON "auction_bids"("nomination_id");
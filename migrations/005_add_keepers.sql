@@ -0,0 +1,4 @@
+-- Migration: Add Keeper Support
+-- Keepers are stored as draft picks assigned before the draft starts
+
+ALTER TABLE "draft_picks" ADD COLUMN IF NOT EXISTS "is_keeper" boolean DEFAULT false;
@@ -0,0 +1,13 @@
+-- Migration: Add Traded Draft Picks
+-- Per-slot ownership overrides for picks traded between teams
+
+CREATE TABLE IF NOT EXISTS "draft_pick_owners" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "draft_id" uuid NOT NULL REFERENCES "drafts"("id") ON DELETE CASCADE,
+    "pick_number" integer NOT NULL,
+    "original_team" integer NOT NULL,
+    "owner_team" integer NOT NULL,
+    "created_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_draft_pick_owners_draft_pick" ON "draft_pick_owners"("draft_id", "pick_number");
@@ -0,0 +1,12 @@
+-- Migration: Add Draft Events
+-- Ordered log of board changes, replayed to reconnecting event stream clients
+
+CREATE TABLE IF NOT EXISTS "draft_events" (
+    "id" serial PRIMARY KEY,
+    "draft_id" uuid NOT NULL REFERENCES "drafts"("id") ON DELETE CASCADE,
+    "type" text NOT NULL,
+    "data" jsonb,
+    "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_draft_events_draft_id" ON "draft_events"("draft_id", "id");
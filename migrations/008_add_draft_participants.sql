@@ -0,0 +1,37 @@
+-- Migration: Add Draft Participants
+-- Shared drafts: invited accounts join a draft and claim a team
+
+DO $$ BEGIN
+    CREATE TYPE "participant_role" AS ENUM('commissioner', 'member');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Draft Participants table
+CREATE TABLE IF NOT EXISTS "draft_participants" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "draft_id" uuid NOT NULL REFERENCES "drafts"("id") ON DELETE CASCADE,
+    "user_id" text NOT NULL,
+    "role" "participant_role" NOT NULL DEFAULT 'member',
+    "team_number" integer,
+    "joined_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_draft_participants_draft_user" ON "draft_participants"("draft_id", "user_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_draft_participants_draft_team" ON "draft_participants"("draft_id", "team_number");
+CREATE INDEX IF NOT EXISTS "idx_draft_participants_user_id" ON "draft_participants"("user_id");
+
+-- Draft Invites table
+CREATE TABLE IF NOT EXISTS "draft_invites" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "draft_id" uuid NOT NULL REFERENCES "drafts"("id") ON DELETE CASCADE,
+    "token" text NOT NULL UNIQUE,
+    "email" text,
+    "invited_by" text NOT NULL,
+    "accepted_by" text,
+    "accepted_at" timestamp,
+    "expires_at" timestamp NOT NULL,
+    "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_draft_invites_draft_id" ON "draft_invites"("draft_id");
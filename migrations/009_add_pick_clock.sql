@@ -0,0 +1,7 @@
+-- Migration: Add Pick Clock
+-- Server-side deadline for the current pick, and picks made when it expired
+
+ALTER TABLE "drafts" ADD COLUMN IF NOT EXISTS "pick_deadline" timestamp;
+ALTER TABLE "drafts" ADD COLUMN IF NOT EXISTS "clock_paused_remaining" integer;
+
+ALTER TABLE "draft_picks" ADD COLUMN IF NOT EXISTS "is_auto_pick" boolean DEFAULT false;
@@ -0,0 +1,14 @@
+-- Migration: Add Draft Queue
+-- Personal, ordered watchlist of players each account is targeting in a draft
+
+CREATE TABLE IF NOT EXISTS "draft_queue_entries" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "draft_id" uuid NOT NULL REFERENCES "drafts"("id") ON DELETE CASCADE,
+    "user_id" text NOT NULL,
+    "player_id" uuid NOT NULL REFERENCES "players"("id"),
+    "rank" integer NOT NULL,
+    "created_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_draft_queue_draft_user_player" ON "draft_queue_entries"("draft_id", "user_id", "player_id");
+CREATE INDEX IF NOT EXISTS "idx_draft_queue_draft_user_rank" ON "draft_queue_entries"("draft_id", "user_id", "rank");
@@ -0,0 +1,6 @@
+-- Migration: Add Player External IDs
+-- Players imported from sources other than Sleeper (MLB) are matched on their source id
+
+ALTER TABLE "players" ADD COLUMN IF NOT EXISTS "external_id" text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_players_sport_external_id" ON "players"("sport", "external_id");
@@ -0,0 +1,24 @@
+-- Migration: Add Player Projections
+-- Stat-line projections imported per source and season, blended into a weighted consensus
+
+-- Projection Sources table
+CREATE TABLE IF NOT EXISTS "projection_sources" (
+    "name" text PRIMARY KEY,
+    "weight" real NOT NULL DEFAULT 1,
+    "created_at" timestamp DEFAULT now(),
+    "updated_at" timestamp DEFAULT now()
+);
+
+-- Player Projections table
+CREATE TABLE IF NOT EXISTS "player_projections" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "player_id" uuid NOT NULL REFERENCES "players"("id") ON DELETE CASCADE,
+    "source" text NOT NULL REFERENCES "projection_sources"("name") ON DELETE CASCADE,
+    "season" integer NOT NULL,
+    "stats" jsonb NOT NULL,
+    "points" real,
+    "imported_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_player_projections_player_source_season" ON "player_projections"("player_id", "source", "season");
+CREATE INDEX IF NOT EXISTS "idx_player_projections_source_season" ON "player_projections"("source", "season");
@@ -0,0 +1,16 @@
+-- Migration: Add ADP Records
+-- Average draft position history per source, scoring format and league size
+
+CREATE TABLE IF NOT EXISTS "adp_records" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "player_id" uuid NOT NULL REFERENCES "players"("id") ON DELETE CASCADE,
+    "source" text NOT NULL,
+    "format" "scoring_type" NOT NULL,
+    "num_teams" integer NOT NULL,
+    "adp" real NOT NULL,
+    "recorded_on" date NOT NULL,
+    "created_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_adp_records_player_source_format_date" ON "adp_records"("player_id", "source", "format", "num_teams", "recorded_on");
+CREATE INDEX IF NOT EXISTS "idx_adp_records_format_date" ON "adp_records"("format", "num_teams", "recorded_on");
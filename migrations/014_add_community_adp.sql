@@ -0,0 +1,7 @@
+-- Migration: Add Community ADP
+-- ADP aggregated from completed drafts records how spread out the picks were
+
+ALTER TABLE "adp_records" ADD COLUMN IF NOT EXISTS "min_pick" integer;
+ALTER TABLE "adp_records" ADD COLUMN IF NOT EXISTS "max_pick" integer;
+ALTER TABLE "adp_records" ADD COLUMN IF NOT EXISTS "std_dev" real;
+ALTER TABLE "adp_records" ADD COLUMN IF NOT EXISTS "sample_size" integer;
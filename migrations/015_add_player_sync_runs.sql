@@ -0,0 +1,42 @@
+-- Migration: Add Player Sync Runs
+-- Records each Sleeper player sync and the team, status and injury changes it found
+
+DO $$ BEGIN
+    CREATE TYPE "sync_status" AS ENUM('running', 'completed', 'failed');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Player Sync Runs table
+CREATE TABLE IF NOT EXISTS "player_sync_runs" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "source" text NOT NULL DEFAULT 'sleeper',
+    "sport" "sport" NOT NULL,
+    "status" "sync_status" NOT NULL DEFAULT 'running',
+    "cursor" text,
+    "fetched" integer NOT NULL DEFAULT 0,
+    "inserted" integer NOT NULL DEFAULT 0,
+    "updated" integer NOT NULL DEFAULT 0,
+    "unchanged" integer NOT NULL DEFAULT 0,
+    "skipped" integer NOT NULL DEFAULT 0,
+    "errors" jsonb,
+    "error" text,
+    "started_at" timestamp DEFAULT now(),
+    "finished_at" timestamp
+);
+
+-- Player Changes table
+CREATE TABLE IF NOT EXISTS "player_changes" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "run_id" uuid NOT NULL REFERENCES "player_sync_runs"("id") ON DELETE CASCADE,
+    "player_id" uuid NOT NULL REFERENCES "players"("id") ON DELETE CASCADE,
+    "field" text NOT NULL,
+    "previous_value" text,
+    "new_value" text,
+    "created_at" timestamp DEFAULT now()
+);
+
+-- Indexes for sync tables
+CREATE INDEX IF NOT EXISTS "idx_player_sync_runs_sport_started" ON "player_sync_runs"("sport", "started_at");
+CREATE INDEX IF NOT EXISTS "idx_player_changes_run_id" ON "player_changes"("run_id");
+CREATE INDEX IF NOT EXISTS "idx_player_changes_player_id" ON "player_changes"("player_id", "created_at");
@@ -0,0 +1,19 @@
+-- Migration: Add Player News
+-- Per-player status timeline fed by Sleeper syncs and admin entries
+
+CREATE TABLE IF NOT EXISTS "player_news" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "player_id" uuid NOT NULL REFERENCES "players"("id") ON DELETE CASCADE,
+    "source" text NOT NULL,
+    "field" text,
+    "previous_value" text,
+    "new_value" text,
+    "headline" text NOT NULL,
+    "body" text,
+    "run_id" uuid REFERENCES "player_sync_runs"("id") ON DELETE SET NULL,
+    "created_by" text,
+    "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_player_news_player_id" ON "player_news"("player_id", "created_at");
+CREATE INDEX IF NOT EXISTS "idx_player_news_created_at" ON "player_news"("created_at");
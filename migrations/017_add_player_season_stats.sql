@@ -0,0 +1,13 @@
+-- Migration: Add Player Season Stats
+-- Actual stat totals per player and past season, imported from CSV files
+
+CREATE TABLE IF NOT EXISTS "player_season_stats" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "player_id" uuid NOT NULL REFERENCES "players"("id") ON DELETE CASCADE,
+    "season" integer NOT NULL,
+    "games_played" integer,
+    "stats" jsonb NOT NULL,
+    "imported_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_player_season_stats_player_season" ON "player_season_stats"("player_id", "season");
@@ -0,0 +1,13 @@
+-- Migration: Add Unique Draft Picks
+-- One pick per slot and one per player in each draft, so picks made at the
+-- same moment can't both land. Duplicates left by earlier races are removed,
+-- keeping the first pick made.
+
+DELETE FROM "draft_picks" a
+USING "draft_picks" b
+WHERE a."draft_id" = b."draft_id"
+  AND (a."pick_number" = b."pick_number" OR a."player_id" = b."player_id")
+  AND (a."created_at" > b."created_at" OR (a."created_at" = b."created_at" AND a."id" > b."id"));
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_draft_picks_draft_pick_number" ON "draft_picks"("draft_id", "pick_number");
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_draft_picks_draft_player" ON "draft_picks"("draft_id", "player_id");
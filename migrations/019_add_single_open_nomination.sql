@@ -0,0 +1,14 @@
+-- Migration: Add Single Open Nomination
+-- At most one player up for bidding per auction draft, so nominations made at
+-- the same moment can't both open. Extra open nominations left by earlier
+-- races are cancelled, keeping the first.
+
+UPDATE "auction_nominations" a
+SET "status" = 'cancelled', "closed_at" = now()
+FROM "auction_nominations" b
+WHERE a."draft_id" = b."draft_id"
+  AND a."status" = 'open'
+  AND b."status" = 'open'
+  AND (a."created_at" > b."created_at" OR (a."created_at" = b."created_at" AND a."id" > b."id"));
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_auction_nominations_draft_open" ON "auction_nominations"("draft_id") WHERE "status" = 'open';
@@ -0,0 +1,92 @@
+/**
+ * Compute FantasyBlock Community ADP
+ *
+ * Run with:
+ *   npx tsx scripts/compute-community-adp.ts [--sport=NFL] [--format=ppr] [--teams=12] [--days=365] [--min-sample=3]
+ *
+ * Aggregates completed drafts into average pick, earliest and latest pick
+ * and spread per player, stored as today's `community` ADP for each scoring
+ * type and league size found. Without --sport every sport is computed;
+ * --days limits it to drafts completed in that many days. Meant to run
+ * daily, so the history gives community ADP a trend.
+ */
+
+import 'dotenv/config';
+import { db } from '../lib/db';
+import { players } from '../lib/db/schema';
+import { updateCommunityAdp, MIN_COMMUNITY_SAMPLE } from '../lib/community-adp';
+import type { AdpFormat } from '../lib/adp';
+
+const SPORTS = ['NBA', 'NFL', 'MLB'] as const;
+const FORMATS: AdpFormat[] = ['standard', 'ppr', 'half_ppr', 'points', 'categories'];
+
+function parseArgs(argv: string[]) {
+  const options: Record<string, string> = {};
+
+  for (const arg of argv) {
+    const match = arg.match(/^--([^=]+)=(.*)$/);
+    if (!match) {
+      throw new Error('Usage: compute-community-adp.ts [--sport=NFL] [--format=ppr] [--teams=12] [--days=365] [--min-sample=3]');
+    }
+    options[match[1]] = match[2];
+  }
+
+  const sport = options.sport?.toUpperCase();
+  const format = options.format?.toLowerCase() as AdpFormat | undefined;
+  const numTeams = options.teams ? parseInt(options.teams, 10) : undefined;
+  const days = options.days ? parseInt(options.days, 10) : undefined;
+  const minSample = options['min-sample'] ? parseInt(options['min-sample'], 10) : MIN_COMMUNITY_SAMPLE;
+
+  if (sport && !(SPORTS as readonly string[]).includes(sport)) {
+    throw new Error(`Unsupported sport: ${options.sport}`);
+  }
+  if (format && !FORMATS.includes(format)) {
+    throw new Error(`Unsupported format: ${options.format} (expected ${FORMATS.join(', ')})`);
+  }
+  if (numTeams !== undefined && !(numTeams >= 2 && numTeams <= 20)) {
+    throw new Error(`Invalid team count: ${options.teams}`);
+  }
+  if (days !== undefined && !(days > 0)) {
+    throw new Error(`Invalid days: ${options.days}`);
+  }
+  if (!(minSample >= 1)) {
+    throw new Error(`Invalid min-sample: ${options['min-sample']}`);
+  }
+
+  return {
+    sports: sport ? [sport as typeof SPORTS[number]] : [...SPORTS],
+    format,
+    numTeams,
+    since: days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined,
+    minSample,
+  };
+}
+
+// Main execution
+async function main() {
+  console.log('=== Community ADP ===\n');
+
+  try {
+    const { sports, format, numTeams, since, minSample } = parseArgs(process.argv.slice(2));
+
+    // Check database connection
+    console.log('Checking database connection...');
+    await db.select().from(players).limit(1);
+    console.log('Database connected.\n');
+
+    for (const sport of sports) {
+      console.log(`Aggregating completed ${sport} drafts${since ? ` since ${since.toISOString().slice(0, 10)}` : ''}...`);
+      const { records, formats } = await updateCommunityAdp({ sport, format, numTeams, since, minSample });
+      console.log(`  ${records} ADP records across ${formats} formats`);
+    }
+
+    console.log('\nCommunity ADP updated successfully!');
+  } catch (error) {
+    console.error('Error computing community ADP:', error);
+    process.exit(1);
+  }
+
+  process.exit(0);
+}
+
+main();
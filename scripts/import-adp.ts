@@ -0,0 +1,131 @@
+/**
+ * Import ADP
+ *
+ * Run with:
+ *   npx tsx scripts/import-adp.ts <file.csv> --source=<espn|yahoo|sleeper|...> --format=<ppr|half_ppr|standard|points|categories> [--teams=12] [--date=YYYY-MM-DD] [--sport=NFL]
+ *
+ * Each row needs a player column (sleeperId, externalId/id, or name plus an
+ * optional team) and an ADP column (adp, avgPick or averagePick). Records are
+ * stored for the given date (today by default), replacing the source's
+ * values for that day, and every player's market ADP is refreshed.
+ */
+
+import 'dotenv/config';
+import { readFile } from 'fs/promises';
+import { db } from '../lib/db';
+import { players } from '../lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { parseCsv } from '../lib/csv';
+import { matchPlayer, parsePlayerMatch } from '../lib/projections';
+import { recordAdp, refreshPlayerAdp, today, type AdpEntry, type AdpFormat } from '../lib/adp';
+
+const FORMATS: AdpFormat[] = ['standard', 'ppr', 'half_ppr', 'points', 'categories'];
+const ADP_COLUMNS = ['adp', 'avgpick', 'averagepick'];
+
+function parseArgs(argv: string[]) {
+  const options: Record<string, string> = {};
+  const files: string[] = [];
+
+  for (const arg of argv) {
+    const match = arg.match(/^--([^=]+)=(.*)$/);
+    if (match) {
+      options[match[1]] = match[2];
+    } else {
+      files.push(arg);
+    }
+  }
+
+  const usage = 'Usage: import-adp.ts <file.csv> --source=<name> --format=<format> [--teams=12] [--date=YYYY-MM-DD] [--sport=NFL]';
+  const sport = (options.sport || 'NFL').toUpperCase();
+  const format = options.format?.toLowerCase() as AdpFormat | undefined;
+  const numTeams = parseInt(options.teams || '12', 10);
+  const recordedOn = options.date || today();
+
+  if (files.length !== 1 || !options.source || !format) {
+    throw new Error(usage);
+  }
+  if (sport !== 'NBA' && sport !== 'NFL' && sport !== 'MLB') {
+    throw new Error(`Unsupported sport: ${options.sport}`);
+  }
+  if (!FORMATS.includes(format)) {
+    throw new Error(`Unsupported format: ${options.format} (expected ${FORMATS.join(', ')})`);
+  }
+  if (!numTeams || numTeams < 2 || numTeams > 20) {
+    throw new Error(`Invalid team count: ${options.teams}`);
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(recordedOn)) {
+    throw new Error(`Invalid date: ${options.date}`);
+  }
+
+  return {
+    file: files[0],
+    source: options.source.toLowerCase(),
+    format,
+    numTeams,
+    recordedOn,
+    sport: sport as 'NBA' | 'NFL' | 'MLB',
+  };
+}
+
+// Main execution
+async function main() {
+  console.log('=== ADP Import ===\n');
+
+  try {
+    const { file, source, format, numTeams, recordedOn, sport } = parseArgs(process.argv.slice(2));
+
+    // Check database connection
+    console.log('Checking database connection...');
+    await db.select().from(players).limit(1);
+    console.log('Database connected.\n');
+
+    console.log(`Reading ${sport} ${format} ${numTeams}-team ADP from ${source} for ${recordedOn} (${file})...`);
+    const rows = parseCsv(await readFile(file, 'utf8'));
+    const sportPlayers = await db.select().from(players).where(eq(players.sport, sport));
+
+    const entries = new Map<string, AdpEntry>();
+    const unmatched: string[] = [];
+    let skipped = 0;
+
+    for (const row of rows) {
+      const adpColumn = Object.keys(row).find(column => ADP_COLUMNS.includes(column.replace(/[\s_-]/g, '').toLowerCase()));
+      const adp = adpColumn ? Number(row[adpColumn]) : NaN;
+
+      if (!Number.isFinite(adp) || adp <= 0) {
+        skipped++;
+        continue;
+      }
+
+      const match = parsePlayerMatch(row);
+      const player = matchPlayer(sportPlayers, match);
+
+      if (!player) {
+        unmatched.push(match.name ?? match.externalId ?? match.sleeperId ?? 'unknown');
+        continue;
+      }
+
+      entries.set(player.id, { playerId: player.id, adp });
+    }
+
+    const imported = await recordAdp({ source, format, numTeams, recordedOn, entries: [...entries.values()] });
+    const refreshed = await refreshPlayerAdp(sport);
+
+    console.log('\n--- Import Complete ---');
+    console.log(`Imported: ${imported}`);
+    console.log(`Skipped (no ADP): ${skipped}`);
+    console.log(`Unmatched: ${unmatched.length}`);
+    if (unmatched.length > 0) {
+      console.log(`  ${unmatched.slice(0, 20).join(', ')}${unmatched.length > 20 ? ', ...' : ''}`);
+    }
+    console.log(`Market ADP refreshed for ${refreshed} players`);
+
+    console.log('\nImport completed successfully!');
+  } catch (error) {
+    console.error('Error importing ADP:', error);
+    process.exit(1);
+  }
+
+  process.exit(0);
+}
+
+main();
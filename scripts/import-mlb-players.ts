@@ -0,0 +1,165 @@
+/**
+ * Import MLB Players
+ *
+ * Run with: npx tsx scripts/import-mlb-players.ts [players.csv|players.json]
+ *
+ * With a file, imports its rows: id (MLBAM id), fullName, team, positions
+ * ("SS/2B", or "DH/SP" for two-way players), age, adp and 5x5 projection
+ * columns (AB, R, HR, RBI, SB, AVG, IP, W, SV, K, ERA, WHIP).
+ *
+ * Without one, pulls the active player list from the MLB Stats API, falling
+ * back to the bundled fixture in scripts/fixtures/mlb-players.json when the
+ * API can't be reached. The API has no ADP or projections, so it only
+ * refreshes names, teams and positions of players already imported.
+ */
+
+import 'dotenv/config';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { db } from '../lib/db';
+import { players, type NewPlayer } from '../lib/db/schema';
+import { parseCsv } from '../lib/csv';
+import { parseMlbPlayerRow } from '../lib/mlb';
+
+const MLB_STATS_API_URL = 'https://statsapi.mlb.com/api/v1';
+const FIXTURE_PATH = path.join(__dirname, 'fixtures', 'mlb-players.json');
+
+interface MlbStatsApiPlayer {
+  id: number;
+  fullName: string;
+  firstName?: string;
+  lastName?: string;
+  currentAge?: number;
+  active?: boolean;
+  primaryPosition?: { abbreviation: string };
+  currentTeam?: { abbreviation?: string };
+}
+
+/**
+ * Read player rows from a CSV or JSON file
+ */
+async function readPlayerFile(filePath: string): Promise<Record<string, unknown>[]> {
+  console.log(`Reading players from ${filePath}...`);
+  const text = await readFile(filePath, 'utf8');
+
+  if (filePath.toLowerCase().endsWith('.csv')) {
+    return parseCsv(text);
+  }
+
+  const data = JSON.parse(text);
+  if (!Array.isArray(data)) {
+    throw new Error(`${filePath} must contain a JSON array of players`);
+  }
+  return data;
+}
+
+/**
+ * Fetch the season's active players from the MLB Stats API
+ */
+async function fetchMlbStatsApiPlayers(): Promise<Record<string, unknown>[]> {
+  const season = new Date().getFullYear();
+  console.log(`Fetching ${season} MLB players from the MLB Stats API...`);
+
+  const response = await fetch(`${MLB_STATS_API_URL}/sports/1/players?season=${season}&hydrate=currentTeam`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch players: ${response.status} ${response.statusText}`);
+  }
+
+  const data: { people: MlbStatsApiPlayer[] } = await response.json();
+  console.log(`Fetched ${data.people.length} players from the MLB Stats API`);
+
+  return data.people
+    .filter(person => person.active !== false)
+    .map(person => ({
+      id: String(person.id),
+      fullName: person.fullName,
+      firstName: person.firstName,
+      lastName: person.lastName,
+      team: person.currentTeam?.abbreviation,
+      // TWP is the API's two-way player position
+      positions: person.primaryPosition?.abbreviation === 'TWP'
+        ? ['DH', 'SP']
+        : [person.primaryPosition?.abbreviation ?? ''],
+      age: person.currentAge,
+    }));
+}
+
+async function importPlayers(rows: Record<string, unknown>[]) {
+  console.log(`Processing ${rows.length} players...`);
+
+  let imported = 0;
+  let skipped = 0;
+
+  // Process in batches to avoid memory issues
+  const BATCH_SIZE = 100;
+
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const batch = rows.slice(i, i + BATCH_SIZE)
+      .map(parseMlbPlayerRow)
+      .filter((player): player is NewPlayer => {
+        if (!player) skipped++;
+        return player !== null;
+      });
+
+    for (const player of batch) {
+      // Only overwrite what this source knows, so an API refresh keeps
+      // previously imported ADP and projections
+      const known = Object.fromEntries(Object.entries(player).filter(([, value]) => value !== null));
+
+      await db
+        .insert(players)
+        .values(player)
+        .onConflictDoUpdate({
+          target: [players.sport, players.externalId],
+          set: known,
+        });
+      imported++;
+    }
+
+    // Progress update
+    const processed = Math.min(i + BATCH_SIZE, rows.length);
+    console.log(`Processed ${processed}/${rows.length} players...`);
+  }
+
+  console.log('\n--- Import Complete ---');
+  console.log(`Imported: ${imported}`);
+  console.log(`Skipped: ${skipped}`);
+}
+
+// Main execution
+async function main() {
+  console.log('=== MLB Player Import ===\n');
+
+  try {
+    // Check database connection
+    console.log('Checking database connection...');
+    await db.select().from(players).limit(1);
+    console.log('Database connected.\n');
+
+    const filePath = process.argv[2];
+    let rows: Record<string, unknown>[];
+
+    if (filePath) {
+      rows = await readPlayerFile(filePath);
+    } else {
+      try {
+        rows = await fetchMlbStatsApiPlayers();
+      } catch (error) {
+        console.warn(`MLB Stats API unavailable (${error instanceof Error ? error.message : error}); using the fixture`);
+        rows = await readPlayerFile(FIXTURE_PATH);
+      }
+    }
+
+    await importPlayers(rows);
+
+    console.log('\nImport completed successfully!');
+  } catch (error) {
+    console.error('Error importing players:', error);
+    process.exit(1);
+  }
+
+  process.exit(0);
+}
+
+main();
@@ -0,0 +1,84 @@
+/**
+ * Import Player Season Stats
+ *
+ * Run with:
+ *   npx tsx scripts/import-player-stats.ts <file.csv> [--sport=NBA] [--season=<year>]
+ *
+ * Each row needs a player column (sleeperId, externalId/id, or name plus an
+ * optional team) and a season (a season or year column, or --season for the
+ * whole file). A G, GP or gamesPlayed column holds games played; every other
+ * numeric column is a season total, except rates such as FG% or AVG.
+ * Re-importing a player's season replaces it.
+ */
+
+import 'dotenv/config';
+import { readFile } from 'fs/promises';
+import { db } from '../lib/db';
+import { players } from '../lib/db/schema';
+import { parseCsv } from '../lib/csv';
+import { importSeasonStats, parseSeasonStatsRow } from '../lib/player-stats';
+
+function parseArgs(argv: string[]) {
+  const options: Record<string, string> = {};
+  const files: string[] = [];
+
+  for (const arg of argv) {
+    const match = arg.match(/^--([^=]+)=(.*)$/);
+    if (match) {
+      options[match[1]] = match[2];
+    } else {
+      files.push(arg);
+    }
+  }
+
+  const sport = (options.sport || 'NBA').toUpperCase();
+  const season = options.season ? parseInt(options.season, 10) : undefined;
+
+  if (files.length !== 1) {
+    throw new Error('Usage: import-player-stats.ts <file.csv> [--sport=NBA] [--season=<year>]');
+  }
+  if (sport !== 'NBA' && sport !== 'NFL' && sport !== 'MLB') {
+    throw new Error(`Unsupported sport: ${options.sport}`);
+  }
+  if (season !== undefined && (!season || season < 1900)) {
+    throw new Error(`Invalid season: ${options.season}`);
+  }
+
+  return { file: files[0], sport: sport as 'NBA' | 'NFL' | 'MLB', season };
+}
+
+// Main execution
+async function main() {
+  console.log('=== Season Stats Import ===\n');
+
+  try {
+    const { file, sport, season } = parseArgs(process.argv.slice(2));
+
+    // Check database connection
+    console.log('Checking database connection...');
+    await db.select().from(players).limit(1);
+    console.log('Database connected.\n');
+
+    console.log(`Reading ${sport} season stats${season ? ` for ${season}` : ''} (${file})...`);
+    const rows = parseCsv(await readFile(file, 'utf8')).map(parseSeasonStatsRow);
+
+    const { imported, unmatched, missingSeason } = await importSeasonStats(sport, rows, { season });
+
+    console.log('\n--- Import Complete ---');
+    console.log(`Imported: ${imported}`);
+    console.log(`Skipped (no season): ${missingSeason}`);
+    console.log(`Unmatched: ${unmatched.length}`);
+    if (unmatched.length > 0) {
+      console.log(`  ${unmatched.slice(0, 20).join(', ')}${unmatched.length > 20 ? ', ...' : ''}`);
+    }
+
+    console.log('\nImport completed successfully!');
+  } catch (error) {
+    console.error('Error importing season stats:', error);
+    process.exit(1);
+  }
+
+  process.exit(0);
+}
+
+main();
@@ -0,0 +1,84 @@
+/**
+ * Import Player Projections
+ *
+ * Run with:
+ *   npx tsx scripts/import-projections.ts <file.csv> --source=<name> --season=<year> [--sport=NBA] [--weight=1]
+ *
+ * Each row needs a player column (sleeperId, externalId/id, or name plus an
+ * optional team); every other numeric column is a projected stat. A points,
+ * FPTS or fantasyPoints column is stored as the source's fantasy points.
+ * Re-importing a source and season replaces its earlier projections, and
+ * the weighted consensus is recomputed afterwards.
+ */
+
+import 'dotenv/config';
+import { readFile } from 'fs/promises';
+import { db } from '../lib/db';
+import { players } from '../lib/db/schema';
+import { parseCsv } from '../lib/csv';
+import { importProjections, parseProjectionRow } from '../lib/projections';
+
+function parseArgs(argv: string[]) {
+  const options: Record<string, string> = {};
+  const files: string[] = [];
+
+  for (const arg of argv) {
+    const match = arg.match(/^--([^=]+)=(.*)$/);
+    if (match) {
+      options[match[1]] = match[2];
+    } else {
+      files.push(arg);
+    }
+  }
+
+  const sport = (options.sport || 'NBA').toUpperCase();
+  const season = parseInt(options.season || '', 10);
+  const weight = options.weight !== undefined ? Number(options.weight) : undefined;
+
+  if (files.length !== 1 || !options.source || !season) {
+    throw new Error('Usage: import-projections.ts <file.csv> --source=<name> --season=<year> [--sport=NBA] [--weight=1]');
+  }
+  if (sport !== 'NBA' && sport !== 'NFL' && sport !== 'MLB') {
+    throw new Error(`Unsupported sport: ${options.sport}`);
+  }
+  if (weight !== undefined && (!Number.isFinite(weight) || weight < 0)) {
+    throw new Error(`Invalid weight: ${options.weight}`);
+  }
+
+  return { file: files[0], source: options.source.toLowerCase(), season, sport: sport as 'NBA' | 'NFL' | 'MLB', weight };
+}
+
+// Main execution
+async function main() {
+  console.log('=== Projection Import ===\n');
+
+  try {
+    const { file, source, season, sport, weight } = parseArgs(process.argv.slice(2));
+
+    // Check database connection
+    console.log('Checking database connection...');
+    await db.select().from(players).limit(1);
+    console.log('Database connected.\n');
+
+    console.log(`Reading ${sport} ${season} projections from ${source} (${file})...`);
+    const rows = parseCsv(await readFile(file, 'utf8')).map(parseProjectionRow);
+
+    const { imported, unmatched } = await importProjections(sport, source, season, rows, { weight });
+
+    console.log('\n--- Import Complete ---');
+    console.log(`Imported: ${imported}`);
+    console.log(`Unmatched: ${unmatched.length}`);
+    if (unmatched.length > 0) {
+      console.log(`  ${unmatched.slice(0, 20).join(', ')}${unmatched.length > 20 ? ', ...' : ''}`);
+    }
+
+    console.log('\nImport completed successfully!');
+  } catch (error) {
+    console.error('Error importing projections:', error);
+    process.exit(1);
+  }
+
+  process.exit(0);
+}
+
+main();
@@ -1,134 +1,49 @@
 /**
- * Sync NBA Players from Sleeper API
+ * Sync NBA and NFL Players from Sleeper API
  *
- * Run with: npx tsx scripts/sync-sleeper-players.ts
+ * Run with: npx tsx scripts/sync-sleeper-players.ts [nba|nfl] [--resume] [--fixture[=file.json]]
+ *
+ * --resume continues the sport's last failed sync from where it stopped.
+ * --fixture reads players from a JSON file shaped like the API's response
+ * instead, by default the bundled scripts/fixtures/sleeper-players-<sport>.json.
  *
  * Sleeper API docs: https://docs.sleeper.app/
  * NBA players endpoint: GET https://api.sleeper.app/v1/players/nba
+ * NFL players endpoint: GET https://api.sleeper.app/v1/players/nfl
  */
 
 import 'dotenv/config';
+import path from 'path';
 import { db } from '../lib/db';
 import { players } from '../lib/db/schema';
-import { eq } from 'drizzle-orm';
-
-const SLEEPER_BASE_URL = 'https://api.sleeper.app/v1';
-
-interface SleeperPlayer {
-  player_id: string;
-  first_name: string;
-  last_name: string;
-  full_name?: string;
-  team: string | null;
-  position: string | null;
-  fantasy_positions?: string[];
-  age?: number;
-  injury_status?: string;
-  status?: string;
-  years_exp?: number;
-  height?: string;
-  weight?: string;
-  college?: string;
-  metadata?: Record<string, unknown>;
-}
-
-async function fetchSleeperPlayers(sport: 'nba' | 'nfl' = 'nba'): Promise<Record<string, SleeperPlayer>> {
-  console.log(`Fetching ${sport.toUpperCase()} players from Sleeper API...`);
-
-  const response = await fetch(`${SLEEPER_BASE_URL}/players/${sport}`);
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch players: ${response.status} ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  console.log(`Fetched ${Object.keys(data).length} players from Sleeper`);
-
-  return data;
-}
-
-async function syncPlayers(sport: 'NBA' | 'NFL' = 'NBA') {
-  const sleeperSport = sport.toLowerCase() as 'nba' | 'nfl';
-  const sleeperPlayers = await fetchSleeperPlayers(sleeperSport);
-
-  const playerEntries = Object.entries(sleeperPlayers);
-  console.log(`Processing ${playerEntries.length} players...`);
-
-  let inserted = 0;
-  let updated = 0;
-  let skipped = 0;
-
-  // Process in batches to avoid memory issues
-  const BATCH_SIZE = 100;
-
-  for (let i = 0; i < playerEntries.length; i += BATCH_SIZE) {
-    const batch = playerEntries.slice(i, i + BATCH_SIZE);
-
-    for (const [sleeperId, player] of batch) {
-      // Skip players without a name
-      if (!player.first_name && !player.last_name) {
-        skipped++;
-        continue;
-      }
-
-      const fullName = player.full_name || `${player.first_name || ''} ${player.last_name || ''}`.trim();
-
-      // Skip players with no full name
-      if (!fullName) {
-        skipped++;
-        continue;
-      }
-
-      // Check if player exists
-      const [existing] = await db
-        .select()
-        .from(players)
-        .where(eq(players.sleeperId, sleeperId));
-
-      const playerData = {
-        sleeperId,
-        sport,
-        firstName: player.first_name || null,
-        lastName: player.last_name || null,
-        fullName,
-        team: player.team || null,
-        position: player.position || null,
-        positions: player.fantasy_positions || null,
-        age: player.age || null,
-        injuryStatus: player.injury_status || null,
-        status: player.status || null,
-        metadata: {
-          yearsExp: player.years_exp,
-          height: player.height,
-          weight: player.weight,
-          college: player.college,
-        },
-      };
-
-      if (existing) {
-        // Update existing player
-        await db
-          .update(players)
-          .set(playerData)
-          .where(eq(players.sleeperId, sleeperId));
-        updated++;
-      } else {
-        // Insert new player
-        await db.insert(players).values(playerData);
-        inserted++;
-      }
+import { getRunChanges, readSleeperFixture, syncSleeperPlayers, type SleeperSport } from '../lib/sleeper-sync';
+
+function parseArgs(argv: string[]) {
+  const options: Record<string, string> = {};
+  const args: string[] = [];
+
+  for (const arg of argv) {
+    const match = arg.match(/^--([^=]+)(?:=(.*))?$/);
+    if (match) {
+      options[match[1]] = match[2] ?? '';
+    } else {
+      args.push(arg);
     }
+  }
 
-    // Progress update
-    const processed = Math.min(i + BATCH_SIZE, playerEntries.length);
-    console.log(`Processed ${processed}/${playerEntries.length} players...`);
+  // Sync the sport given on the command line, NBA by default
+  const sport = (args[0] || 'nba').toUpperCase();
+  if (sport !== 'NBA' && sport !== 'NFL') {
+    throw new Error(`Unsupported sport: ${args[0]}. Use nba or nfl.`);
   }
 
-  console.log('\n--- Sync Complete ---');
-  console.log(`Inserted: ${inserted}`);
-  console.log(`Updated: ${updated}`);
-  console.log(`Skipped: ${skipped}`);
-  console.log(`Total processed: ${inserted + updated + skipped}`);
+  return {
+    sport: sport as SleeperSport,
+    resume: 'resume' in options,
+    fixture: 'fixture' in options
+      ? options.fixture || path.join(__dirname, 'fixtures', `sleeper-players-${sport.toLowerCase()}.json`)
+      : null,
+  };
 }
 
 // Main execution
@@ -136,13 +51,37 @@ async function main() {
   console.log('=== Sleeper Player Sync ===\n');
 
   try {
+    const { sport, resume, fixture } = parseArgs(process.argv.slice(2));
+
     // Check database connection
     console.log('Checking database connection...');
     await db.select().from(players).limit(1);
     console.log('Database connected.\n');
 
-    // Sync NBA players
-    await syncPlayers('NBA');
+    console.log(`Syncing ${sport} players from ${fixture ?? 'the Sleeper API'}${resume ? ', resuming the last failed run' : ''}...`);
+
+    const run = await syncSleeperPlayers(sport, {
+      resume,
+      source: fixture ? { name: 'fixture', load: () => readSleeperFixture(fixture) } : undefined,
+      onProgress: (processed, total) => console.log(`Processed ${processed}/${total} players...`),
+    });
+    const changes = await getRunChanges(run.id);
+
+    console.log('\n--- Sync Complete ---');
+    console.log(`Run: ${run.id}`);
+    console.log(`Fetched: ${run.fetched}`);
+    console.log(`Inserted: ${run.inserted}`);
+    console.log(`Updated: ${run.updated}`);
+    console.log(`Unchanged: ${run.unchanged}`);
+    console.log(`Skipped: ${run.skipped}`);
+    console.log(`Failed batches: ${((run.errors as unknown[] | null) ?? []).length}`);
+    console.log(`Changes: ${changes.length}`);
+    for (const change of changes.slice(0, 50)) {
+      console.log(`  ${change.fullName} ${change.field}: ${change.previousValue ?? '-'} -> ${change.newValue ?? '-'}`);
+    }
+    if (changes.length > 50) {
+      console.log(`  ...and ${changes.length - 50} more`);
+    }
 
     console.log('\nSync completed successfully!');
   } catch (error) {